@@ -0,0 +1,9 @@
+#!/usr/bin/env bun
+/**
+ * kimicode-accounts: manage the Kimi Code account pool from the shell.
+ * See src/plugin/accounts-cli.ts for the available commands.
+ */
+
+import { runAccountsCli } from "../plugin/accounts-cli";
+
+process.exitCode = await runAccountsCli(process.argv.slice(2));
@@ -49,6 +49,17 @@ export const KIMI_CHAT_COMPLETIONS_ENDPOINT = `${KIMI_API_BASE_URL}/chat/complet
  */
 export const KIMI_MODELS_ENDPOINT = `${KIMI_API_BASE_URL}/models`
 
+/**
+ * Usage/quota endpoint (same source as kimi-cli's `/usage` command).
+ */
+export const KIMI_USAGES_ENDPOINT = `${KIMI_API_BASE_URL}/usages`
+
+/**
+ * Account profile endpoint (display name / email). Best-effort: accounts
+ * without a profile are identified by the JWT user id alone.
+ */
+export const KIMI_USER_INFO_ENDPOINT = `${KIMI_API_BASE_URL}/users/me`
+
 /**
  * Grant type for device code token exchange.
  */
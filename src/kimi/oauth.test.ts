@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { KIMI_DEVICE_AUTH_ENDPOINT, KIMI_TOKEN_ENDPOINT } from "../constants"
+import {
+  DeviceAuthorizationCancelledError,
+  DeviceAuthorizationDeniedError,
+  authorizeKimi,
+  pollForToken,
+  type DeviceAuthorizationStore,
+  type PendingDeviceAuthorization,
+} from "./oauth"
+
+function memoryStore(initial: PendingDeviceAuthorization | null = null) {
+  let value = initial
+  const store: DeviceAuthorizationStore = {
+    load: () => value,
+    save: (pending) => {
+      value = pending
+    },
+    clear: () => {
+      value = null
+    },
+  }
+  return { store, get: () => value }
+}
+
+describe("device authorization", () => {
+  let tokenReplies: Array<() => Response>
+  let deviceAuthRequests: number
+
+  beforeEach(() => {
+    tokenReplies = []
+    deviceAuthRequests = 0
+    vi.stubGlobal("fetch", vi.fn(async (url: string, init?: RequestInit) => {
+      if (url === KIMI_DEVICE_AUTH_ENDPOINT) {
+        deviceAuthRequests++
+        return Response.json({
+          device_code: "device-new",
+          user_code: "NEW-CODE",
+          verification_uri: "https://kimi.example/device",
+          expires_in: 600,
+          interval: 1,
+        })
+      }
+      if (url === KIMI_TOKEN_ENDPOINT) {
+        init?.signal?.throwIfAborted()
+        const next = tokenReplies.shift()
+        return next ? next() : Response.json({ error: "authorization_pending" }, { status: 400 })
+      }
+      throw new Error(`Unexpected fetch ${url}`)
+    }))
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it("stops polling as soon as the signal aborts", async () => {
+    const controller = new AbortController()
+    const poll = pollForToken("device", 5, 600, controller.signal)
+    const outcome = expect(poll).rejects.toBeInstanceOf(DeviceAuthorizationCancelledError)
+
+    await vi.advanceTimersByTimeAsync(5000)
+    controller.abort()
+    await outcome
+    expect(vi.getTimerCount()).toBe(0)
+  })
+
+  it("reports access_denied distinctly", async () => {
+    tokenReplies.push(() => Response.json({ error: "access_denied" }, { status: 400 }))
+    const poll = pollForToken("device", 1, 600)
+    const outcome = expect(poll).rejects.toBeInstanceOf(DeviceAuthorizationDeniedError)
+
+    await vi.advanceTimersByTimeAsync(1000)
+    await outcome
+  })
+
+  it("resumes a stored device code and clears it once redeemed", async () => {
+    const { store, get } = memoryStore({
+      deviceCode: "device-old",
+      userCode: "OLD-CODE",
+      verificationUri: "https://kimi.example/device",
+      intervalSeconds: 1,
+      expiresAt: Date.now() + 300_000,
+    })
+    tokenReplies.push(() => Response.json({ access_token: "a", refresh_token: "r", expires_in: 3600, token_type: "Bearer" }))
+
+    const authorization = await authorizeKimi({ store })
+    expect(authorization).toMatchObject({ resumed: true, userCode: "OLD-CODE", expiresInSeconds: 300 })
+    expect(deviceAuthRequests).toBe(0)
+
+    const poll = authorization.poll()
+    await vi.advanceTimersByTimeAsync(1000)
+    await expect(poll).resolves.toMatchObject({ refresh_token: "r" })
+    expect(get()).toBeNull()
+  })
+
+  it("keeps a new device code after a cancel so the next login can resume it", async () => {
+    const { store, get } = memoryStore({
+      deviceCode: "device-stale",
+      userCode: "STALE",
+      verificationUri: "https://kimi.example/device",
+      intervalSeconds: 1,
+      expiresAt: Date.now() + 30_000,
+    })
+
+    const authorization = await authorizeKimi({ store })
+    expect(authorization.resumed).toBe(false)
+    expect(deviceAuthRequests).toBe(1)
+    expect(get()?.deviceCode).toBe("device-new")
+
+    const controller = new AbortController()
+    const poll = authorization.poll(controller.signal)
+    const outcome = expect(poll).rejects.toBeInstanceOf(DeviceAuthorizationCancelledError)
+    controller.abort()
+    await outcome
+    expect(get()?.deviceCode).toBe("device-new")
+
+    tokenReplies.push(() => Response.json({ error: "access_denied" }, { status: 400 }))
+    const retry = (await authorizeKimi({ store })).poll()
+    const denied = expect(retry).rejects.toBeInstanceOf(DeviceAuthorizationDeniedError)
+    await vi.advanceTimersByTimeAsync(1000)
+    await denied
+    expect(get()).toBeNull()
+  })
+})
@@ -5,6 +5,10 @@
  * 1. Request device code from auth.kimi.com
  * 2. User visits verification URL and enters code
  * 3. Plugin polls token endpoint until user completes auth
+ *
+ * Polling can be cancelled with an AbortSignal, and an in-flight device code
+ * can be kept in a DeviceAuthorizationStore so a restarted login resumes
+ * polling it instead of issuing a new code.
  */
 
 import {
@@ -36,6 +40,42 @@ export interface KimiTokenExchangeResult {
   token_type: string
 }
 
+/**
+ * A device code that has been shown to the user but not yet redeemed.
+ */
+export interface PendingDeviceAuthorization {
+  deviceCode: string
+  userCode: string
+  verificationUri: string
+  verificationUriComplete?: string
+  intervalSeconds: number
+  /** Epoch ms when the device code expires */
+  expiresAt: number
+}
+
+/**
+ * Persistence for an in-flight device code (see plugin/device-auth-store.ts).
+ */
+export interface DeviceAuthorizationStore {
+  load(): PendingDeviceAuthorization | null
+  save(pending: PendingDeviceAuthorization): void
+  clear(): void
+}
+
+export class DeviceAuthorizationCancelledError extends Error {
+  constructor() {
+    super("Device authorization cancelled")
+    this.name = "DeviceAuthorizationCancelledError"
+  }
+}
+
+export class DeviceAuthorizationDeniedError extends Error {
+  constructor() {
+    super("Device authorization was denied. Please restart the login flow to try again.")
+    this.name = "DeviceAuthorizationDeniedError"
+  }
+}
+
 // =============================================================================
 // Device Authorization
 // =============================================================================
@@ -75,13 +115,28 @@ export type PollResult =
   | { status: "pending" }
   | { status: "slow_down"; interval: number }
   | { status: "expired" }
+  | { status: "access_denied" }
   | { status: "error"; message: string }
 
+/**
+ * Progress reported after each unsuccessful poll.
+ */
+export interface PollProgress {
+  /** Number of token endpoint requests made so far */
+  attempt: number
+  status: "pending" | "slow_down"
+  /** Current polling interval (grows on slow_down) */
+  intervalSeconds: number
+  /** Seconds until the device code expires */
+  remainingSeconds: number
+}
+
 /**
  * Poll the token endpoint once for a device code exchange result.
  */
-async function pollTokenEndpointOnce(deviceCode: string): Promise<PollResult> {
+async function pollTokenEndpointOnce(deviceCode: string, signal?: AbortSignal): Promise<PollResult> {
   const response = await fetch(KIMI_TOKEN_ENDPOINT, {
+    signal,
     method: "POST",
     headers: {
       "Content-Type": "application/x-www-form-urlencoded",
@@ -117,6 +172,9 @@ async function pollTokenEndpointOnce(deviceCode: string): Promise<PollResult> {
   if (errorCode === "expired_token") {
     return { status: "expired" }
   }
+  if (errorCode === "access_denied") {
+    return { status: "access_denied" }
+  }
 
   return { status: "error", message: `Token exchange failed (${response.status}): ${body}` }
 }
@@ -129,39 +187,52 @@ async function pollTokenEndpointOnce(deviceCode: string): Promise<PollResult> {
  * @param intervalSeconds Initial polling interval in seconds
  * @param expiresInSeconds Time until the device code expires
  * @param signal Optional AbortSignal to cancel polling
+ * @param onProgress Optional callback after each pending/slow_down response
  */
 export async function pollForToken(
   deviceCode: string,
   intervalSeconds: number,
   expiresInSeconds: number,
   signal?: AbortSignal,
+  onProgress?: (progress: PollProgress) => void,
 ): Promise<KimiTokenExchangeResult> {
   const deadline = Date.now() + expiresInSeconds * 1000
   let interval = intervalSeconds
+  let attempt = 0
+  const report = (status: PollProgress["status"]) =>
+    onProgress?.({
+      attempt,
+      status,
+      intervalSeconds: interval,
+      remainingSeconds: Math.max(0, Math.round((deadline - Date.now()) / 1000)),
+    })
 
   while (Date.now() < deadline) {
-    if (signal?.aborted) {
-      throw new Error("Device authorization cancelled")
-    }
+    await sleep(interval * 1000, signal)
 
-    await sleep(interval * 1000)
-
-    if (signal?.aborted) {
-      throw new Error("Device authorization cancelled")
+    let result: PollResult
+    try {
+      result = await pollTokenEndpointOnce(deviceCode, signal)
+    } catch (error) {
+      if (signal?.aborted) throw new DeviceAuthorizationCancelledError()
+      throw error
     }
-
-    const result = await pollTokenEndpointOnce(deviceCode)
+    attempt++
 
     switch (result.status) {
       case "success":
         return result.tokens
       case "pending":
+        report("pending")
         continue
       case "slow_down":
         interval = Math.max(interval + 5, result.interval)
+        report("slow_down")
         continue
       case "expired":
         throw new Error("Device code expired. Please restart the login flow.")
+      case "access_denied":
+        throw new DeviceAuthorizationDeniedError()
       case "error":
         throw new Error(result.message)
     }
@@ -175,29 +246,80 @@ export async function pollForToken(
 // =============================================================================
 
 export interface KimiAuthorization {
+  /** URL to open: the complete URL (code embedded) when the server provides one */
   verificationUri: string
+  /** URL with the user code embedded, suitable for a QR code */
+  verificationUriComplete?: string
   userCode: string
-  poll: (signal?: AbortSignal) => Promise<KimiTokenExchangeResult>
+  /** True when an in-flight device code from an earlier login was reused */
+  resumed: boolean
+  /** Remaining device code lifetime (from `expires_in` for a new code) */
+  expiresInSeconds: number
+  /** Epoch ms when the device code expires */
+  expiresAt: number
+  poll: (signal?: AbortSignal, onProgress?: (progress: PollProgress) => void) => Promise<KimiTokenExchangeResult>
 }
 
+/** Issue a new code rather than resume one about to expire. */
+const RESUME_MIN_REMAINING_MS = 60_000
+
 /**
  * Start the Kimi device authorization flow.
  * Returns the verification URL/code for the user, and a poll function
  * to await completion.
+ *
+ * With a store, a still-valid pending code is resumed instead of requesting
+ * a new one. The stored code is cleared once it is redeemed, denied or
+ * expired, and kept when polling is cancelled or the server is unreachable.
  */
-export async function authorizeKimi(): Promise<KimiAuthorization> {
-  const deviceAuth = await requestDeviceAuthorization()
+export async function authorizeKimi(
+  options: { store?: DeviceAuthorizationStore } = {},
+): Promise<KimiAuthorization> {
+  const { store } = options
 
+  let pending = store?.load() ?? null
+  const resumed = !!pending && pending.expiresAt - Date.now() > RESUME_MIN_REMAINING_MS
+  if (!pending || !resumed) {
+    const deviceAuth = await requestDeviceAuthorization()
+    pending = {
+      deviceCode: deviceAuth.device_code,
+      userCode: deviceAuth.user_code,
+      verificationUri: deviceAuth.verification_uri,
+      verificationUriComplete: deviceAuth.verification_uri_complete,
+      intervalSeconds: deviceAuth.interval,
+      expiresAt: Date.now() + deviceAuth.expires_in * 1000,
+    }
+    store?.save(pending)
+  }
+
+  const { deviceCode, intervalSeconds, expiresAt } = pending
   return {
-    verificationUri: deviceAuth.verification_uri_complete ?? deviceAuth.verification_uri,
-    userCode: deviceAuth.user_code,
-    poll: (signal?: AbortSignal) =>
-      pollForToken(
-        deviceAuth.device_code,
-        deviceAuth.interval,
-        deviceAuth.expires_in,
-        signal,
-      ),
+    verificationUri: pending.verificationUriComplete ?? pending.verificationUri,
+    verificationUriComplete: pending.verificationUriComplete,
+    userCode: pending.userCode,
+    resumed,
+    expiresInSeconds: Math.max(0, Math.round((expiresAt - Date.now()) / 1000)),
+    expiresAt,
+    poll: async (signal?: AbortSignal, onProgress?: (progress: PollProgress) => void) => {
+      try {
+        const tokens = await pollForToken(
+          deviceCode,
+          intervalSeconds,
+          Math.max(0, (expiresAt - Date.now()) / 1000),
+          signal,
+          onProgress,
+        )
+        store?.clear()
+        return tokens
+      } catch (error) {
+        // Keep the code after a cancel or a network failure (fetch throws
+        // TypeError); it may still be redeemed by the next login.
+        if (!(error instanceof DeviceAuthorizationCancelledError) && !(error instanceof TypeError)) {
+          store?.clear()
+        }
+        throw error
+      }
+    },
   }
 }
 
@@ -205,6 +327,20 @@ export async function authorizeKimi(): Promise<KimiAuthorization> {
 // Helpers
 // =============================================================================
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms))
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DeviceAuthorizationCancelledError())
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new DeviceAuthorizationCancelledError())
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
 }
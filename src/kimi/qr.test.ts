@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest"
+
+import { encodeQrCode } from "./qr"
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+]
+
+function readFormat(modules: boolean[][]): { level: number; mask: number } {
+  // First copy, around the top-left finder (bit 14 first).
+  const coords: Array<[number, number]> = [
+    [0, 8], [1, 8], [2, 8], [3, 8], [4, 8], [5, 8], [7, 8], [8, 8],
+    [8, 7], [8, 5], [8, 4], [8, 3], [8, 2], [8, 1], [8, 0],
+  ]
+  let bits = 0
+  for (const [x, y] of coords) bits = (bits << 1) | (modules[y]![x] ? 1 : 0)
+  const unmasked = bits ^ 0x5412
+
+  let rem = unmasked
+  for (let i = 14; i >= 10; i--) {
+    if ((rem >>> i) & 1) rem ^= 0x537 << (i - 10)
+  }
+  expect(rem).toBe(0)
+  return { level: unmasked >>> 13, mask: (unmasked >>> 10) & 7 }
+}
+
+/** Read data codewords of a version 1 symbol (single block, no alignment patterns). */
+function readVersion1Codewords(modules: boolean[][], mask: number): number[] {
+  const size = 21
+  const isFunction = (x: number, y: number) =>
+    x === 6 || y === 6 || (x <= 8 && y <= 8) || (x >= size - 8 && y <= 8) || (x <= 8 && y >= size - 8)
+
+  const bits: number[] = []
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j
+        const y = ((right + 1) & 2) === 0 ? size - 1 - vert : vert
+        if (isFunction(x, y)) continue
+        bits.push((modules[y]![x] !== MASKS[mask]!(x, y)) ? 1 : 0)
+      }
+    }
+  }
+
+  const codewords: number[] = []
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0))
+  }
+  return codewords
+}
+
+describe("encodeQrCode", () => {
+  it("encodes short text as a version 1 symbol that reads back", () => {
+    const qr = encodeQrCode("https://kimi.com")
+
+    expect(qr.version).toBe(1)
+    expect(qr.size).toBe(21)
+    expect(qr.modules).toHaveLength(21)
+
+    // Finder pattern corners and the always-dark module.
+    expect(qr.modules[0]!.slice(0, 7).every(Boolean)).toBe(true)
+    expect(qr.modules[1]![1]).toBe(false)
+    expect(qr.modules[3]![3]).toBe(true)
+    expect(qr.modules[qr.size - 8]![8]).toBe(true)
+
+    const format = readFormat(qr.modules)
+    expect(format).toEqual({ level: 1, mask: qr.mask })
+
+    const codewords = readVersion1Codewords(qr.modules, qr.mask)
+    expect(codewords).toHaveLength(26)
+    // Byte mode (0100), length 16, then the text.
+    expect(codewords[0]).toBe(0x41)
+    const payload: number[] = []
+    for (let i = 0; i < 16; i++) {
+      payload.push(((codewords[1 + i]! & 0x0f) << 4) | (codewords[2 + i]! >>> 4))
+    }
+    expect(Buffer.from(payload).toString("utf8")).toBe("https://kimi.com")
+  })
+
+  it("grows the version with the input and rejects oversized text", () => {
+    const url = `https://www.kimi.com/code/authorize_device?user_code=${"ABCD-EFGH".repeat(3)}`
+    const qr = encodeQrCode(url)
+    expect(qr.version).toBeGreaterThan(1)
+    expect(qr.size).toBe(qr.version * 4 + 17)
+    expect(readFormat(qr.modules).mask).toBe(qr.mask)
+
+    expect(encodeQrCode(url, "M").version).toBeGreaterThanOrEqual(qr.version)
+    expect(encodeQrCode("x".repeat(271)).version).toBe(10)
+    expect(() => encodeQrCode("x".repeat(272))).toThrow(/too long/)
+  })
+})
@@ -0,0 +1,379 @@
+/**
+ * Minimal QR code encoder for terminal display of device-flow URLs.
+ *
+ * Byte mode only, versions 1-10, error correction level L or M: enough for a
+ * verification URL (up to 271 bytes at level L) without pulling in a
+ * dependency. Follows ISO/IEC 18004, including mask selection by penalty
+ * score.
+ */
+
+export type QrErrorCorrection = "L" | "M"
+
+const MAX_VERSION = 10
+
+// Per version 1..10: error correction codewords per block and block count.
+const EC_CODEWORDS_PER_BLOCK: Record<QrErrorCorrection, number[]> = {
+  L: [7, 10, 15, 20, 26, 18, 20, 24, 30, 18],
+  M: [10, 16, 26, 18, 24, 16, 18, 22, 22, 26],
+}
+const EC_BLOCK_COUNT: Record<QrErrorCorrection, number[]> = {
+  L: [1, 1, 1, 1, 1, 2, 2, 2, 2, 4],
+  M: [1, 1, 1, 2, 2, 4, 4, 4, 5, 5],
+}
+const FORMAT_LEVEL_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0 }
+
+/**
+ * A QR symbol: `modules[y][x]` is true for dark modules.
+ */
+export interface QrCode {
+  version: number
+  size: number
+  mask: number
+  modules: boolean[][]
+}
+
+// =============================================================================
+// Reed-Solomon over GF(256)
+// =============================================================================
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z & 0xff
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j]!, root)
+      if (j + 1 < degree) result[j] = result[j]! ^ result[j + 1]!
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0)
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!
+    result.push(0)
+    divisor.forEach((coef, i) => {
+      result[i] = result[i]! ^ gfMultiply(coef, factor)
+    })
+  }
+  return result
+}
+
+// =============================================================================
+// Codewords
+// =============================================================================
+
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const alignCount = Math.floor(version / 7) + 2
+    result -= (25 * alignCount - 10) * alignCount - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+function dataCodewordCapacity(version: number, ecl: QrErrorCorrection): number {
+  return (
+    Math.floor(rawDataModules(version) / 8) -
+    EC_CODEWORDS_PER_BLOCK[ecl][version - 1]! * EC_BLOCK_COUNT[ecl][version - 1]!
+  )
+}
+
+function encodeDataCodewords(bytes: Uint8Array, version: number, ecl: QrErrorCorrection): number[] {
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+
+  const capacityBits = dataCodewordCapacity(version, ecl) * 8
+  append(0b0100, 4)
+  append(bytes.length, version <= 9 ? 8 : 16)
+  for (const byte of bytes) append(byte, 8)
+  append(0, Math.min(4, capacityBits - bits.length))
+  append(0, (8 - (bits.length % 8)) % 8)
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0))
+  }
+  for (let pad = 0xec; codewords.length < capacityBits / 8; pad ^= 0xec ^ 0x11) {
+    codewords.push(pad)
+  }
+  return codewords
+}
+
+function addErrorCorrectionAndInterleave(data: number[], version: number, ecl: QrErrorCorrection): number[] {
+  const blockCount = EC_BLOCK_COUNT[ecl][version - 1]!
+  const ecLength = EC_CODEWORDS_PER_BLOCK[ecl][version - 1]!
+  const rawCodewords = Math.floor(rawDataModules(version) / 8)
+  const shortBlockCount = blockCount - (rawCodewords % blockCount)
+  const shortBlockLength = Math.floor(rawCodewords / blockCount)
+
+  const divisor = reedSolomonDivisor(ecLength)
+  const blocks: number[][] = []
+  for (let i = 0, k = 0; i < blockCount; i++) {
+    const dataLength = shortBlockLength - ecLength + (i < shortBlockCount ? 0 : 1)
+    const block = data.slice(k, k + dataLength)
+    k += dataLength
+    const ecc = reedSolomonRemainder(block, divisor)
+    // Short blocks get a placeholder so columns line up when interleaving.
+    if (i < shortBlockCount) block.push(-1)
+    blocks.push(block.concat(ecc))
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0]!.length; i++) {
+    for (const block of blocks) {
+      const value = block[i]!
+      if (value !== -1) result.push(value)
+    }
+  }
+  return result
+}
+
+// =============================================================================
+// Module placement
+// =============================================================================
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) return []
+  const count = Math.floor(version / 7) + 2
+  const size = version * 4 + 17
+  const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2
+  const result = [6]
+  for (let pos = size - 7; result.length < count; pos -= step) {
+    result.splice(1, 0, pos)
+  }
+  return result
+}
+
+class QrMatrix {
+  readonly modules: boolean[][]
+  readonly isFunction: boolean[][]
+
+  constructor(readonly version: number, readonly size: number) {
+    this.modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+    this.isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+  }
+
+  setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y]![x] = dark
+    this.isFunction[y]![x] = true
+  }
+
+  drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0)
+      this.setFunction(i, 6, i % 2 === 0)
+    }
+
+    this.drawFinder(3, 3)
+    this.drawFinder(this.size - 4, 3)
+    this.drawFinder(3, this.size - 4)
+
+    const positions = alignmentPositions(this.version)
+    const last = positions.length - 1
+    positions.forEach((px, i) => {
+      positions.forEach((py, j) => {
+        // Skip the three alignment positions that overlap finder patterns.
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+        this.drawAlignment(px, py)
+      })
+    })
+
+    // Reserve format areas; real bits are written once the mask is chosen.
+    this.drawFormatBits(0, "L")
+    this.drawVersion()
+  }
+
+  private drawFinder(cx: number, cy: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx
+        const y = cy + dy
+        if (x < 0 || x >= this.size || y < 0 || y >= this.size) continue
+        const distance = Math.max(Math.abs(dx), Math.abs(dy))
+        this.setFunction(x, y, distance !== 2 && distance !== 4)
+      }
+    }
+  }
+
+  private drawAlignment(cx: number, cy: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+      }
+    }
+  }
+
+  drawFormatBits(mask: number, ecl: QrErrorCorrection): void {
+    const data = (FORMAT_LEVEL_BITS[ecl] << 3) | mask
+    let rem = data
+    for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537)
+    const bits = ((data << 10) | rem) ^ 0x5412
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, bit(i))
+    this.setFunction(8, 7, bit(6))
+    this.setFunction(8, 8, bit(7))
+    this.setFunction(7, 8, bit(8))
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, bit(i))
+
+    for (let i = 0; i < 8; i++) this.setFunction(this.size - 1 - i, 8, bit(i))
+    for (let i = 8; i < 15; i++) this.setFunction(8, this.size - 15 + i, bit(i))
+    this.setFunction(8, this.size - 8, true)
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) return
+    let rem = this.version
+    for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25)
+    const bits = (this.version << 12) | rem
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0
+      const a = this.size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      this.setFunction(a, b, dark)
+      this.setFunction(b, a, dark)
+    }
+  }
+
+  drawCodewords(codewords: number[]): void {
+    let i = 0
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5
+      for (let vert = 0; vert < this.size; vert++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const upward = ((right + 1) & 2) === 0
+          const y = upward ? this.size - 1 - vert : vert
+          if (this.isFunction[y]![x] || i >= codewords.length * 8) continue
+          this.modules[y]![x] = ((codewords[i >>> 3]! >>> (7 - (i & 7))) & 1) !== 0
+          i++
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (this.isFunction[y]![x]) continue
+        let invert: boolean
+        switch (mask) {
+          case 0: invert = (x + y) % 2 === 0; break
+          case 1: invert = y % 2 === 0; break
+          case 2: invert = x % 3 === 0; break
+          case 3: invert = (x + y) % 3 === 0; break
+          case 4: invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0; break
+          case 5: invert = ((x * y) % 2) + ((x * y) % 3) === 0; break
+          case 6: invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0; break
+          default: invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0; break
+        }
+        if (invert) this.modules[y]![x] = !this.modules[y]![x]
+      }
+    }
+  }
+
+  penaltyScore(): number {
+    let penalty = 0
+    const size = this.size
+    const get = (x: number, y: number) => this.modules[y]![x]!
+
+    // Runs of five or more same-colored modules, and finder-like patterns.
+    const scanLine = (read: (i: number) => boolean) => {
+      let runColor = false
+      let runLength = 0
+      const line: boolean[] = []
+      for (let i = 0; i < size; i++) {
+        const dark = read(i)
+        line.push(dark)
+        if (i > 0 && dark === runColor) {
+          runLength++
+          if (runLength === 5) penalty += 3
+          else if (runLength > 5) penalty++
+        } else {
+          runColor = dark
+          runLength = 1
+        }
+      }
+      const padded = [false, false, false, false, ...line, false, false, false, false]
+      for (let i = 0; i + 11 <= padded.length; i++) {
+        const window = padded.slice(i, i + 11).map((d) => (d ? 1 : 0)).join("")
+        if (window === "10111010000" || window === "00001011101") penalty += 40
+      }
+    }
+    for (let y = 0; y < size; y++) scanLine((x) => get(x, y))
+    for (let x = 0; x < size; x++) scanLine((y) => get(x, y))
+
+    // 2x2 blocks of the same color.
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = get(x, y)
+        if (color === get(x + 1, y) && color === get(x, y + 1) && color === get(x + 1, y + 1)) {
+          penalty += 3
+        }
+      }
+    }
+
+    // Balance of dark and light modules.
+    const dark = this.modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0)
+    const total = size * size
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1
+    penalty += Math.max(0, k) * 10
+
+    return penalty
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Encode text (UTF-8, byte mode) as a QR code using the smallest version
+ * that fits.
+ *
+ * @throws Error if the text does not fit in a version 10 symbol
+ */
+export function encodeQrCode(text: string, ecl: QrErrorCorrection = "L"): QrCode {
+  const bytes = new TextEncoder().encode(text)
+
+  let version = 1
+  for (; version <= MAX_VERSION; version++) {
+    const headerBits = 4 + (version <= 9 ? 8 : 16)
+    if (headerBits + bytes.length * 8 <= dataCodewordCapacity(version, ecl) * 8) break
+  }
+  if (version > MAX_VERSION) {
+    throw new Error(`Text too long for a QR code (${bytes.length} bytes)`)
+  }
+
+  const codewords = addErrorCorrectionAndInterleave(encodeDataCodewords(bytes, version, ecl), version, ecl)
+  const size = version * 4 + 17
+
+  let best: { mask: number; penalty: number; matrix: QrMatrix } | null = null
+  for (let mask = 0; mask < 8; mask++) {
+    const matrix = new QrMatrix(version, size)
+    matrix.drawFunctionPatterns()
+    matrix.drawCodewords(codewords)
+    matrix.applyMask(mask)
+    matrix.drawFormatBits(mask, ecl)
+    const penalty = matrix.penaltyScore()
+    if (!best || penalty < best.penalty) best = { mask, penalty, matrix }
+  }
+
+  return { version, size, mask: best!.mask, modules: best!.matrix.modules }
+}
@@ -0,0 +1,320 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { KIMI_TOKEN_ENDPOINT } from "./constants";
+import { createKimicodePlugin } from "./plugin";
+import { EmptyResponseError } from "./plugin/errors";
+import type { LoaderResult, PluginClient } from "./plugin/types";
+
+const CHAT_URL = "https://api.moonshot.ai/v1/chat/completions";
+
+function rateLimited(retryAfterSeconds?: number): Response {
+  return new Response(
+    JSON.stringify({ error: { type: "rate_limit_exceeded", message: "Too many requests" } }),
+    {
+      status: 429,
+      headers: {
+        "content-type": "application/json",
+        ...(retryAfterSeconds !== undefined ? { "retry-after": String(retryAfterSeconds) } : {}),
+      },
+    },
+  );
+}
+
+function ok(): Response {
+  return Response.json({ choices: [{ message: { role: "assistant", content: "ok" } }] });
+}
+
+function sse(events: string[]): Response {
+  return new Response(events.map((data) => `data: ${data}\n\n`).join(""), {
+    status: 200,
+    headers: { "content-type": "text/event-stream" },
+  });
+}
+
+function chatInit(extraBody: Record<string, unknown> = {}): RequestInit {
+  return {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ model: "kimicode-kimi-k2.5", messages: [{ role: "user", content: "hi" }], ...extraBody }),
+  };
+}
+
+/**
+ * Let real I/O (account saves, refresh locks) progress for a moment without
+ * moving the fake clock. Only setTimeout/Date are faked, so setImmediate and
+ * performance.now() still run in real time.
+ */
+async function yieldToRealIo(ms: number): Promise<void> {
+  const until = performance.now() + ms;
+  do {
+    await new Promise((resolve) => setImmediate(resolve));
+  } while (performance.now() < until);
+}
+
+/**
+ * Drive fake timers until the promise settles so retry sleeps complete instantly.
+ */
+async function runToCompletion<T>(promise: Promise<T>): Promise<T> {
+  let settled = false;
+  promise.then(
+    () => { settled = true; },
+    () => { settled = true; },
+  );
+  for (let i = 0; i < 10_000 && !settled; i++) {
+    await yieldToRealIo(10);
+    if (!settled) {
+      await vi.advanceTimersByTimeAsync(100);
+    }
+  }
+  return promise;
+}
+
+describe("createKimicodePlugin fetch scheduling", () => {
+  let tempDir: string;
+  let originalConfigDir: string | undefined;
+  let originalXdgConfigHome: string | undefined;
+  let chatAuthHeaders: string[];
+  let chatBodies: Array<Record<string, unknown>>;
+  let chatReplies: Array<() => Response>;
+
+  beforeEach(() => {
+    originalConfigDir = process.env.OPENCODE_CONFIG_DIR;
+    originalXdgConfigHome = process.env.XDG_CONFIG_HOME;
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "kimicode-plugin-test-"));
+    process.env.OPENCODE_CONFIG_DIR = tempDir;
+    process.env.XDG_CONFIG_HOME = tempDir;
+
+    chatAuthHeaders = [];
+    chatBodies = [];
+    chatReplies = [];
+
+    vi.stubGlobal("fetch", vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const request = input instanceof Request ? input : new Request(input, init);
+      if (request.url === KIMI_TOKEN_ENDPOINT) {
+        const refresh = new URLSearchParams(await request.text()).get("refresh_token");
+        return Response.json({ access_token: `access-${refresh}`, refresh_token: refresh, expires_in: 3600 });
+      }
+      chatAuthHeaders.push(request.headers.get("authorization") ?? "");
+      chatBodies.push(JSON.parse(await request.text()));
+      const next = chatReplies.shift();
+      return next ? next() : ok();
+    }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    if (originalConfigDir === undefined) {
+      delete process.env.OPENCODE_CONFIG_DIR;
+    } else {
+      process.env.OPENCODE_CONFIG_DIR = originalConfigDir;
+    }
+    if (originalXdgConfigHome === undefined) {
+      delete process.env.XDG_CONFIG_HOME;
+    } else {
+      process.env.XDG_CONFIG_HOME = originalXdgConfigHome;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function loadPlugin(config: Record<string, unknown>, refreshTokens: string[]): Promise<LoaderResult> {
+    fs.writeFileSync(
+      path.join(tempDir, "kimicode.json"),
+      JSON.stringify({
+        quiet_mode: true,
+        proactive_token_refresh: false,
+        quota_refresh_interval_minutes: 0,
+        model_discovery: false,
+        account_profile_lookup: false,
+        account_pool_watch: false,
+        usage_tracking: false,
+        account_selection_strategy: "sticky",
+        ...config,
+      }),
+    );
+    fs.writeFileSync(
+      path.join(tempDir, "kimicode-accounts.json"),
+      JSON.stringify({
+        version: 1,
+        accounts: refreshTokens.map((refreshToken) => ({ refreshToken, addedAt: 1, lastUsed: 0, enabled: true })),
+        activeIndex: 0,
+      }),
+    );
+
+    const client = {
+      tui: { showToast: vi.fn(async () => ({})) },
+      session: { prompt: vi.fn(async () => ({})) },
+    } as unknown as PluginClient;
+
+    const plugin = await createKimicodePlugin("moonshotai")({ client, directory: tempDir });
+    const loaded = await plugin.auth.loader(
+      async () => ({ type: "oauth", refresh: refreshTokens[0]! }),
+      {},
+    );
+
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] });
+    return loaded as LoaderResult;
+  }
+
+  it("cache_first waits on the same account when the retry fits the wait budget", async () => {
+    const loaded = await loadPlugin({ scheduling_mode: "cache_first", max_cache_first_wait_seconds: 30 }, ["cf-a", "cf-b"]);
+    chatReplies.push(() => rateLimited(10));
+
+    const startedAt = Date.now();
+    const response = await runToCompletion(loaded.fetch(CHAT_URL, chatInit()));
+
+    expect(response.status).toBe(200);
+    expect(chatAuthHeaders).toEqual(["Bearer access-cf-a", "Bearer access-cf-a"]);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(10_000);
+  });
+
+  it("cache_first switches accounts when the retry exceeds max_cache_first_wait_seconds", async () => {
+    const loaded = await loadPlugin({ scheduling_mode: "cache_first", max_cache_first_wait_seconds: 30 }, ["cfx-a", "cfx-b"]);
+    chatReplies.push(() => rateLimited(120));
+
+    const startedAt = Date.now();
+    const response = await runToCompletion(loaded.fetch(CHAT_URL, chatInit()));
+
+    expect(response.status).toBe(200);
+    expect(chatAuthHeaders).toEqual(["Bearer access-cfx-a", "Bearer access-cfx-b"]);
+    expect(Date.now() - startedAt).toBeLessThan(30_000);
+  });
+
+  it("cache_first switches accounts when a rate limit carries no retry hint", async () => {
+    const loaded = await loadPlugin({ scheduling_mode: "cache_first" }, ["cfn-a", "cfn-b"]);
+    chatReplies.push(() => rateLimited());
+
+    const startedAt = Date.now();
+    const response = await runToCompletion(loaded.fetch(CHAT_URL, chatInit()));
+
+    expect(response.status).toBe(200);
+    expect(chatAuthHeaders).toEqual(["Bearer access-cfn-a", "Bearer access-cfn-b"]);
+    expect(Date.now() - startedAt).toBeLessThan(10_000);
+  });
+
+  it("balance switches accounts immediately on a rate limit", async () => {
+    const loaded = await loadPlugin({ scheduling_mode: "balance" }, ["bal-a", "bal-b"]);
+    chatReplies.push(() => rateLimited(10));
+
+    const startedAt = Date.now();
+    const response = await runToCompletion(loaded.fetch(CHAT_URL, chatInit()));
+
+    expect(response.status).toBe(200);
+    expect(chatAuthHeaders).toEqual(["Bearer access-bal-a", "Bearer access-bal-b"]);
+    expect(Date.now() - startedAt).toBeLessThan(10_000);
+  });
+
+  it("retries the same account once before switching when switch_on_first_rate_limit is off", async () => {
+    const loaded = await loadPlugin({ scheduling_mode: "balance", switch_on_first_rate_limit: false }, ["sofr-a", "sofr-b"]);
+    chatReplies.push(() => rateLimited(10), () => rateLimited(10));
+
+    const response = await runToCompletion(loaded.fetch(CHAT_URL, chatInit()));
+
+    expect(response.status).toBe(200);
+    expect(chatAuthHeaders).toEqual(["Bearer access-sofr-a", "Bearer access-sofr-a", "Bearer access-sofr-b"]);
+  });
+
+  it("performance_first rotates accounts on every request", async () => {
+    const loaded = await loadPlugin({ scheduling_mode: "performance_first" }, ["perf-a", "perf-b"]);
+
+    await runToCompletion(loaded.fetch(CHAT_URL, chatInit()));
+    await runToCompletion(loaded.fetch(CHAT_URL, chatInit()));
+    await runToCompletion(loaded.fetch(CHAT_URL, chatInit()));
+
+    expect(chatAuthHeaders).toEqual([
+      "Bearer access-perf-a",
+      "Bearer access-perf-b",
+      "Bearer access-perf-a",
+    ]);
+  });
+
+  it("keys the prompt cache by OpenCode session and spreads sessions across accounts", async () => {
+    const loaded = await loadPlugin({ scheduling_mode: "balance" }, ["ses-a", "ses-b"]);
+
+    await runToCompletion(loaded.fetch(CHAT_URL, chatInit({ kimicode_session_id: "ses_1" })));
+    await runToCompletion(loaded.fetch(CHAT_URL, chatInit({ kimicode_session_id: "ses_2" })));
+    // A rate limit moves the session; it stays on the new account once the old one recovers.
+    chatReplies.push(() => rateLimited(1));
+    await runToCompletion(loaded.fetch(CHAT_URL, chatInit({ kimicode_session_id: "ses_1" })));
+    await vi.advanceTimersByTimeAsync(120_000);
+    await runToCompletion(loaded.fetch(CHAT_URL, chatInit({ kimicode_session_id: "ses_1" })));
+    await runToCompletion(loaded.fetch(CHAT_URL, chatInit({ kimicode_session_id: "ses_3" })));
+
+    expect(chatAuthHeaders).toEqual([
+      "Bearer access-ses-a",
+      "Bearer access-ses-b",
+      "Bearer access-ses-a",
+      "Bearer access-ses-b",
+      "Bearer access-ses-b",
+      "Bearer access-ses-a",
+    ]);
+    expect(chatBodies.map((body) => body.prompt_cache_key)).toEqual(["ses_1", "ses_2", "ses_1", "ses_1", "ses_1", "ses_3"]);
+    expect(chatBodies.some((body) => "kimicode_session_id" in body)).toBe(false);
+  });
+
+  it("routes around accounts at max_concurrent_requests_per_account and queues when all are busy", async () => {
+    const loaded = await loadPlugin({ scheduling_mode: "balance", max_concurrent_requests_per_account: 1 }, ["conc-a", "conc-b"]);
+
+    // Unread bodies keep their request slots.
+    const first = await runToCompletion(loaded.fetch(CHAT_URL, chatInit()));
+    const second = await runToCompletion(loaded.fetch(CHAT_URL, chatInit()));
+    const third = loaded.fetch(CHAT_URL, chatInit());
+    await yieldToRealIo(50);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(chatAuthHeaders).toEqual(["Bearer access-conc-a", "Bearer access-conc-b"]);
+
+    await first.text();
+    await (await runToCompletion(third)).text();
+    await second.text();
+
+    expect(chatAuthHeaders).toEqual(["Bearer access-conc-a", "Bearer access-conc-b", "Bearer access-conc-a"]);
+  });
+
+  it("retries a stream that ends before any content on another account", async () => {
+    const loaded = await loadPlugin({ scheduling_mode: "balance" }, ["sse-a", "sse-b"]);
+    const contentEvent = JSON.stringify({ choices: [{ index: 0, delta: { content: "hello" } }] });
+    chatReplies.push(
+      () => sse(['{"error":{"message":"upstream reset"}}']),
+      () => sse([contentEvent, "[DONE]"]),
+    );
+
+    const response = await runToCompletion(loaded.fetch(CHAT_URL, chatInit({ stream: true })));
+
+    expect(chatAuthHeaders).toEqual(["Bearer access-sse-a", "Bearer access-sse-b"]);
+    expect(await response.text()).toBe(`data: ${contentEvent}\n\ndata: [DONE]\n\n`);
+  });
+
+  it("throws EmptyResponseError once empty stream retries are exhausted", async () => {
+    const loaded = await loadPlugin(
+      { scheduling_mode: "balance", empty_response_max_attempts: 2 },
+      ["sse-empty-a", "sse-empty-b"],
+    );
+    chatReplies.push(() => sse(["[DONE]"]), () => sse(["[DONE]"]));
+
+    await expect(runToCompletion(loaded.fetch(CHAT_URL, chatInit({ stream: true })))).rejects.toBeInstanceOf(
+      EmptyResponseError,
+    );
+    expect(chatAuthHeaders).toEqual(["Bearer access-sse-empty-a", "Bearer access-sse-empty-b"]);
+  });
+
+  it("sends the thinking effort from the model id unless the body overrides it", async () => {
+    const loaded = await loadPlugin({}, ["think-a"]);
+
+    await runToCompletion(loaded.fetch(CHAT_URL, chatInit({ model: "kimicode-kimi-k2.5-thinking-low" })));
+    await runToCompletion(
+      loaded.fetch(CHAT_URL, chatInit({ model: "kimicode-kimi-k2.5-thinking", reasoning_effort: "medium" })),
+    );
+    await runToCompletion(
+      loaded.fetch(CHAT_URL, chatInit({ model: "kimicode-kimi-k2.5-thinking", thinking: { type: "disabled" } })),
+    );
+
+    expect(chatBodies.map(({ model, reasoning_effort, thinking }) => ({ model, reasoning_effort, thinking }))).toEqual([
+      { model: "kimi-for-coding", reasoning_effort: "low", thinking: { type: "enabled" } },
+      { model: "kimi-for-coding", reasoning_effort: "medium", thinking: { type: "enabled" } },
+      { model: "kimi-for-coding", reasoning_effort: undefined, thinking: { type: "disabled" } },
+    ]);
+  });
+});
@@ -1,5 +1,6 @@
 import { randomUUID } from "node:crypto";
 import { exec } from "node:child_process";
+import { existsSync } from "node:fs";
 
 import {
   KIMI_API_BASE_URL,
@@ -7,13 +8,22 @@ import {
   getKimiUserAgent,
   setOAuthDeviceId,
 } from "./constants";
-import { authorizeKimi } from "./kimi/oauth";
+import { DeviceAuthorizationCancelledError, authorizeKimi, type KimiTokenExchangeResult } from "./kimi/oauth";
 import { accessTokenExpired, calculateTokenExpiry, isOAuthAuth } from "./plugin/auth";
-import { promptAddAnotherAccount, promptLoginMode, promptRemoveAccount } from "./plugin/cli";
+import {
+  printDeviceAuthorization,
+  promptAccountTier,
+  promptAddAnotherAccount,
+  promptLoginMode,
+  promptRemoveAccount,
+  startDeviceAuthProgress,
+  type AccountTierChoice,
+} from "./plugin/cli";
 import {
   getLogFilePath,
   initializeDebug,
   isDebugEnabled,
+  logCacheStats,
   logToast,
   startKimicodeDebugRequest,
   logKimicodeDebugResponse,
@@ -23,12 +33,34 @@ import { createLogger, initLogger } from "./plugin/logger";
 import { createSessionRecoveryHook, getRecoverySuccessToast } from "./plugin/recovery";
 import { createProactiveRefreshQueue, type ProactiveRefreshQueue } from "./plugin/refresh-queue";
 import { initHealthTracker, initTokenTracker, getHealthTracker, getTokenTracker } from "./plugin/rotation";
+import { persistRotationState } from "./plugin/rotation-store";
 import { resolveCachedAuth } from "./plugin/cache";
-import { KimiTokenRefreshError, refreshAccessToken } from "./plugin/token";
-import { AccountManager, parseRateLimitReason, type ManagedAccount } from "./plugin/accounts";
-import { clearAccounts, loadAccounts, saveAccounts, saveAccountsReplace, type AccountMetadataV3 } from "./plugin/storage";
-import { loadConfig, initRuntimeConfig, type KimicodeConfig } from "./plugin/config";
+import { KimiTokenRefreshError, refreshAccountToken } from "./plugin/token";
+import { AccountManager, computeSoftQuotaCacheTtlMs, parseRateLimitReason, type ManagedAccount } from "./plugin/accounts";
+import { createQuotaRefresher, type QuotaRefresher } from "./plugin/quota";
+import { isEventStreamResponse, peekSseStream } from "./plugin/streaming";
+import { EmptyResponseError } from "./plugin/errors";
+import {
+  applyThinkingSetting,
+  getModelThinkingSetting,
+  resolveThinkingSetting,
+  stripThinkingSuffix,
+} from "./plugin/thinking";
+import {
+  clearAccounts,
+  getAccountStore,
+  getStoragePath,
+  loadAccounts,
+  saveAccounts,
+  saveAccountsReplace,
+  type AccountMetadataV3,
+} from "./plugin/storage";
+import { watchStorageFile } from "./plugin/storage-watcher";
+import { StorageDecryptionError } from "./plugin/storage-crypto";
+import { loadConfig, initRuntimeConfig, type KimicodeConfig, type ModelRoutingRule } from "./plugin/config";
 import { updateOpencodeConfig } from "./plugin/config/updater";
+import { KIMICODE_MODEL_PREFIX, KIMI_MODEL_ALIASES, OPENCODE_MODEL_DEFINITIONS } from "./plugin/config/models";
+import { loadDiscoveredModelDefinitions, refreshDiscoveredModels } from "./plugin/config/discovery";
 import { initKimicodeVersion } from "./plugin/version";
 import type {
   AuthDetails,
@@ -43,6 +75,20 @@ import type {
   Provider,
 } from "./plugin/types";
 import { generateFingerprint } from "./plugin/fingerprint";
+import { persistAccountPool } from "./plugin/account-pool";
+import { createFileDeviceAuthorizationStore } from "./plugin/device-auth-store";
+import {
+  fetchKimiUserInfo,
+  formatAccountLabel,
+  getAccountIdentityKey,
+  resolveAccountIdentity,
+} from "./plugin/identity";
+import { SESSION_ID_BODY_FIELD, takeRequestSessionId } from "./plugin/opencode-session";
+import { getUsageTracker, trackResponseUsage } from "./plugin/usage";
+import { cacheHitRate, getCacheStatsTracker } from "./plugin/cache-stats";
+import { findModelRoutingRule, resolveAllowedAccountIds } from "./plugin/model-routing";
+import { releaseWhenBodyDone } from "./plugin/concurrency";
+import { parseRateLimitHeaders } from "./plugin/rate-limit-headers";
 
 const log = createLogger("plugin");
 
@@ -53,6 +99,9 @@ const MAX_OAUTH_ACCOUNTS = 10;
 let isChildSession = false;
 let childSessionParentID: string | undefined = undefined;
 
+// Stops saving the trackers of a previous plugin initialization.
+let stopRotationStatePersistence: (() => Promise<void>) | null = null;
+
 // Debounce repeated rate-limit toasts to avoid spam during retry loops.
 const rateLimitToastCooldowns = new Map<string, number>();
 const RATE_LIMIT_TOAST_COOLDOWN_MS = 5000;
@@ -60,49 +109,79 @@ const MAX_TOAST_COOLDOWN_ENTRIES = 100;
 
 const DUMMY_URL_BASE = "http://opencode.local";
 
-// Stable per-plugin-instance session ID for Kimi server-side prompt caching.
-// Mirrors kimi-cli's session.id passed as prompt_cache_key.
-const PLUGIN_SESSION_ID = randomUUID();
+// Only one device authorization polls at a time: starting a login cancels a
+// poll left running by an abandoned one, as does reinitializing the plugin or
+// re-running its auth loader.
+let activeDeviceAuthAbort: AbortController | null = null;
 
-const KIMICODE_MODEL_PREFIX = "kimicode-";
+function cancelDeviceAuthPolling(): void {
+  activeDeviceAuthAbort?.abort();
+  activeDeviceAuthAbort = null;
+}
 
-function resolveKimiModelAlias(requestedModel: string): string {
-  // Both the base and thinking models map to the same Kimi API model.
-  if (
-    requestedModel === "kimicode-kimi-k2.5" ||
-    requestedModel === "kimicode-kimi-k2.5-thinking"
-  ) {
-    return "kimi-for-coding";
+function beginDeviceAuthPolling(): AbortController {
+  cancelDeviceAuthPolling();
+  const controller = new AbortController();
+  activeDeviceAuthAbort = controller;
+  return controller;
+}
+
+function endDeviceAuthPolling(controller: AbortController): void {
+  if (activeDeviceAuthAbort === controller) {
+    activeDeviceAuthAbort = null;
   }
+}
 
-  if (requestedModel.startsWith(KIMICODE_MODEL_PREFIX)) {
-    return requestedModel.slice(KIMICODE_MODEL_PREFIX.length);
+function describeDeviceAuthError(error: unknown): string {
+  if (error instanceof DeviceAuthorizationCancelledError) {
+    return "Authentication cancelled";
   }
+  return `Authentication failed: ${error instanceof Error ? error.message : String(error)}`;
+}
 
-  return requestedModel;
+/**
+ * Login error for a new account that could not be saved because the stored
+ * pool is encrypted and no (or the wrong) storage key is set.
+ */
+function describeAccountSaveError(error: StorageDecryptionError): string {
+  return `Authenticated, but the account was not saved: ${error.message}`;
 }
 
 /**
- * Whether the requested OpenCode model id asks for extended thinking.
- * Mirrors kimi-cli's `with_thinking("high")` vs `with_thinking("off")`.
+ * Rejection for a model without the kimicode prefix, listing the models
+ * this provider serves (discovered ones when cached, else the static table).
  */
-function isThinkingModel(requestedModel: string): boolean {
-  return requestedModel === "kimicode-kimi-k2.5-thinking";
+function describeUnsupportedModel(providerId: string, requestedModel: string): string {
+  const models = Object.keys(loadDiscoveredModelDefinitions() ?? OPENCODE_MODEL_DEFINITIONS);
+  return (
+    `Moonshot AI OAuth (Kimi Code) only supports models with the '${KIMICODE_MODEL_PREFIX}' prefix. ` +
+    `Use one of ${models.map((model) => `${providerId}/${model}`).join(", ")}, ` +
+    `or re-run 'opencode auth login' and choose API Key to use ${providerId}/${requestedModel}.`
+  );
 }
 
-function extractKimiUserIdFromJwt(token: string): string | undefined {
-  const parts = token.split(".");
-  if (parts.length < 2) return undefined;
-  try {
-    const payloadJson = Buffer.from(parts[1]!, "base64url").toString("utf8");
-    const payload = JSON.parse(payloadJson) as { user_id?: unknown };
-    if (typeof payload.user_id === "string" && payload.user_id.length > 0) {
-      return payload.user_id;
-    }
-  } catch {
-    // ignore
+// Delay before retrying the same account when switch_on_first_rate_limit is disabled.
+const SAME_ACCOUNT_RETRY_DELAY_MS = 1000;
+
+/** Cooldown applied to an account whose stream ended before any content. */
+const EMPTY_STREAM_COOLDOWN_MS = 5000;
+
+/** Longest wait for a free request slot before account selection runs again. */
+const REQUEST_SLOT_RECHECK_MS = 1000;
+
+// Kimi server-side prompt caching: requests send their OpenCode session id as
+// prompt_cache_key, mirroring kimi-cli's session.id. Requests without a known
+// session share this per-plugin-instance key.
+const PLUGIN_SESSION_ID = randomUUID();
+
+function resolveKimiModelAlias(requestedModel: string): string {
+  if (!requestedModel.startsWith(KIMICODE_MODEL_PREFIX)) {
+    return requestedModel;
   }
-  return undefined;
+
+  // The base model and all thinking variants map to the same Kimi API model.
+  const baseModel = stripThinkingSuffix(requestedModel.slice(KIMICODE_MODEL_PREFIX.length));
+  return KIMI_MODEL_ALIASES[baseModel] ?? baseModel;
 }
 
 function cleanupToastCooldowns(): void {
@@ -225,7 +304,10 @@ async function openBrowser(url: string): Promise<boolean> {
   }
 }
 
-function retryAfterMsFromResponse(response: Response, defaultRetryMs: number): number {
+/**
+ * Retry delay the server sent in `retry-after-ms` / `retry-after`, or null.
+ */
+function retryAfterMsFromResponse(response: Response): number | null {
   const retryAfterMsHeader = response.headers.get("retry-after-ms");
   if (retryAfterMsHeader) {
     const parsed = Number.parseInt(retryAfterMsHeader, 10);
@@ -242,7 +324,7 @@ function retryAfterMsFromResponse(response: Response, defaultRetryMs: number): n
     }
   }
 
-  return defaultRetryMs;
+  return null;
 }
 
 async function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
@@ -326,7 +408,9 @@ async function parseErrorInfo(response: Response): Promise<ParsedErrorInfo> {
   }
 }
 
-function authSuccessFromTokens(tokens: { access_token: string; refresh_token: string; expires_in: number }): OAuthCallbackResult {
+function authSuccessFromTokens(
+  tokens: { access_token: string; refresh_token: string; expires_in: number },
+): Extract<OAuthCallbackResult, { type: "success" }> {
   const now = Date.now();
   return {
     type: "success",
@@ -336,8 +420,16 @@ function authSuccessFromTokens(tokens: { access_token: string; refresh_token: st
   };
 }
 
-function toExistingAccountsForMenu(stored: { accounts: AccountMetadataV3[]; activeIndex?: number } | null): Array<{
+function toExistingAccountsForMenu(
+  stored: { accounts: AccountMetadataV3[]; activeIndex?: number; activeAccountId?: string } | null,
+): Array<{
+  id?: string;
   email?: string;
+  label?: string;
+  userId?: string;
+  displayName?: string;
+  priority?: number;
+  weight?: number;
   index: number;
   addedAt?: number;
   lastUsed?: number;
@@ -363,136 +455,34 @@ function toExistingAccountsForMenu(stored: { accounts: AccountMetadataV3[]; acti
     }
 
     return {
+      id: acc.id,
       email: acc.email,
+      label: acc.label,
+      userId: acc.userId,
+      displayName: acc.displayName,
+      priority: acc.priority,
+      weight: acc.weight,
       index: idx,
       addedAt: acc.addedAt,
       lastUsed: acc.lastUsed,
       status,
-      isCurrentAccount: idx === (stored.activeIndex ?? 0),
+      isCurrentAccount: stored.activeAccountId
+        ? acc.id === stored.activeAccountId
+        : idx === (stored.activeIndex ?? 0),
       enabled: acc.enabled !== false,
     };
   });
 }
 
-async function persistAccountPool(
-  results: Array<{ refresh: string }>,
-  replaceAll: boolean,
-): Promise<void> {
-  if (results.length === 0) return;
-
-  const now = Date.now();
-
-  const stored = replaceAll ? null : await loadAccounts();
-  const accounts: AccountMetadataV3[] = stored?.accounts ? [...stored.accounts] : [];
-
-  const indexByRefreshToken = new Map<string, number>();
-  const indexByUserId = new Map<string, number>();
-  for (let i = 0; i < accounts.length; i++) {
-    const acc = accounts[i];
-    const token = acc?.refreshToken;
-    if (typeof token === "string" && token.length > 0) {
-      indexByRefreshToken.set(token, i);
-    }
-    const userId = acc?.email;
-    if (typeof userId === "string" && userId.length > 0) {
-      indexByUserId.set(userId, i);
-    }
-  }
-
-  for (const result of results) {
-    const refreshToken = result.refresh;
-    if (!refreshToken) continue;
-
-    const userId = extractKimiUserIdFromJwt(refreshToken);
-
-    const existingIndex = indexByRefreshToken.get(refreshToken);
-    if (existingIndex !== undefined) {
-      const existing = accounts[existingIndex];
-      if (!existing) continue;
-      accounts[existingIndex] = {
-        ...existing,
-        email: existing.email ?? userId,
-        refreshToken,
-        lastUsed: now,
-        enabled: existing.enabled !== false,
-        fingerprint: existing.fingerprint ?? generateFingerprint(),
-      };
-      if (userId) {
-        indexByUserId.set(userId, existingIndex);
-      }
-      continue;
-    }
-
-    // If the refresh token rotated, merge by user id to keep stable account pools.
-    if (userId) {
-      const byUserIndex = indexByUserId.get(userId);
-      if (byUserIndex !== undefined) {
-        const existing = accounts[byUserIndex];
-        if (existing) {
-          if (existing.refreshToken) {
-            indexByRefreshToken.delete(existing.refreshToken);
-          }
-          const updated: AccountMetadataV3 = {
-            ...existing,
-            email: existing.email ?? userId,
-            refreshToken,
-            lastUsed: now,
-            enabled: true,
-            fingerprint: existing.fingerprint ?? generateFingerprint(),
-          };
-          accounts[byUserIndex] = updated;
-          indexByRefreshToken.set(refreshToken, byUserIndex);
-          indexByUserId.set(userId, byUserIndex);
-          continue;
-        }
-      }
-    }
-
-    const newIndex = accounts.length;
-    indexByRefreshToken.set(refreshToken, newIndex);
-    if (userId) {
-      indexByUserId.set(userId, newIndex);
-    }
-    accounts.push({
-      email: userId,
-      refreshToken,
-      addedAt: now,
-      lastUsed: now,
-      enabled: true,
-      fingerprint: generateFingerprint(),
-    });
-  }
-
-  if (accounts.length === 0) return;
-
-  const activeIndex =
-    replaceAll
-      ? 0
-      : typeof stored?.activeIndex === "number" && Number.isFinite(stored.activeIndex)
-        ? stored.activeIndex
-        : 0;
-
-  const payload = {
-    version: 1 as const,
-    accounts,
-    activeIndex: Math.max(0, Math.min(activeIndex, accounts.length - 1)),
-    activeIndexByFamily: {
-      kimi: Math.max(0, Math.min(activeIndex, accounts.length - 1)),
-    },
-  };
-
-  // persistAccountPool already merges/deduplicates. Avoid a second merge layer.
-  await saveAccountsReplace(payload);
-}
-
-async function removeAccountFromPool(removeIndex: number): Promise<boolean> {
+async function removeAccountFromPool(accountId: string): Promise<boolean> {
   const stored = await loadAccounts();
   if (!stored || stored.accounts.length === 0) return false;
-  if (!Number.isFinite(removeIndex) || removeIndex < 0 || removeIndex >= stored.accounts.length) {
+  const removeIndex = stored.accounts.findIndex((acc) => acc.id === accountId);
+  if (removeIndex < 0) {
     return false;
   }
 
-  const nextAccounts = stored.accounts.filter((_, idx) => idx !== removeIndex);
+  const nextAccounts = stored.accounts.filter((acc) => acc.id !== accountId);
 
   if (nextAccounts.length === 0) {
     await clearAccounts().catch(() => {});
@@ -504,11 +494,14 @@ async function removeAccountFromPool(removeIndex: number): Promise<boolean> {
       ? stored.activeIndex
       : 0;
 
-  let nextActiveIndex = previousActiveIndex;
-  if (removeIndex < previousActiveIndex) {
-    nextActiveIndex = Math.max(0, previousActiveIndex - 1);
+  let nextActiveIndex = stored.activeAccountId
+    ? nextAccounts.findIndex((acc) => acc.id === stored.activeAccountId)
+    : -1;
+  if (nextActiveIndex < 0) {
+    nextActiveIndex = removeIndex < previousActiveIndex ? previousActiveIndex - 1 : previousActiveIndex;
   }
   nextActiveIndex = Math.max(0, Math.min(nextActiveIndex, nextAccounts.length - 1));
+  const nextActiveId = nextAccounts[nextActiveIndex]?.id;
 
   const payload = {
     version: 1 as const,
@@ -517,17 +510,30 @@ async function removeAccountFromPool(removeIndex: number): Promise<boolean> {
     activeIndexByFamily: {
       kimi: nextActiveIndex,
     },
+    activeAccountId: nextActiveId,
+    activeAccountIdByFamily: {
+      kimi: nextActiveId,
+    },
   };
 
   await saveAccountsReplace(payload);
   return true;
 }
 
+/** @returns false when the account is no longer in the pool */
+async function setAccountTierInPool(choice: AccountTierChoice): Promise<boolean> {
+  return AccountManager.updateOnDisk((manager) =>
+    manager.setAccountTier(choice.id, choice.priority, choice.weight),
+  );
+}
+
 export const createKimicodePlugin = (providerId: string) => async (
   { client, directory }: PluginContext,
 ): Promise<PluginResult> => {
   const config = loadConfig(directory);
   initRuntimeConfig(config);
+  // A login left polling by the previous plugin instance can no longer complete into it.
+  cancelDeviceAuthPolling();
 
   // Initialize debug + structured logger for TUI integration.
   initializeDebug(config);
@@ -537,7 +543,8 @@ export const createKimicodePlugin = (providerId: string) => async (
   await initKimicodeVersion();
 
   // Sync model definitions to opencode.json on every load (best-effort).
-  await updateOpencodeConfig().catch(() => {});
+  // Uses the last /models discovery when available, else the static table.
+  await updateOpencodeConfig({ models: loadDiscoveredModelDefinitions() ?? undefined }).catch(() => {});
 
   // Initialize trackers (hybrid strategy).
   if (config.health_score) {
@@ -560,6 +567,12 @@ export const createKimicodePlugin = (providerId: string) => async (
     });
   }
 
+  // Remember account health across restarts and share it with other processes.
+  if (config.account_selection_strategy === "hybrid") {
+    void stopRotationStatePersistence?.();
+    stopRotationStatePersistence = await persistRotationState(getHealthTracker(), getTokenTracker());
+  }
+
   const sessionRecovery = createSessionRecoveryHook({ client, directory }, config);
 
   const eventHandler = async (payload: PluginEventPayload) => {
@@ -614,13 +627,22 @@ export const createKimicodePlugin = (providerId: string) => async (
 
   // Cached getAuth function for potential tool access.
   let cachedGetAuth: GetAuth | null = null;
+  // Stops the account pool watcher of the previous loader call.
+  let stopAccountPoolWatch: (() => void) | null = null;
 
   return {
     event: eventHandler,
+    // Tag kimicode-* requests with their OpenCode session (see opencode-session.ts).
+    "chat.params": async (input, output) => {
+      if (input.model?.id?.startsWith(KIMICODE_MODEL_PREFIX) && input.message?.sessionID) {
+        output.options[SESSION_ID_BODY_FIELD] = input.message.sessionID;
+      }
+    },
     auth: {
       provider: providerId,
       loader: async (getAuth: GetAuth, provider: Provider): Promise<LoaderResult | Record<string, unknown>> => {
         cachedGetAuth = getAuth;
+        cancelDeviceAuthPolling();
 
         const auth = await getAuth();
         if (!isOAuthAuth(auth)) {
@@ -628,6 +650,7 @@ export const createKimicodePlugin = (providerId: string) => async (
 	        }
 
 	        const accountManager = await AccountManager.loadFromDisk(auth);
+	        accountManager.setMaxConcurrentRequests(config.max_concurrent_requests_per_account);
 
 	        // Seed the OAuth device ID from the first account's fingerprint so that
 	        // OAuth requests (refresh, etc.) use a consistent device identity,
@@ -646,7 +669,7 @@ export const createKimicodePlugin = (providerId: string) => async (
 	        try {
 	          for (const acc of accountManager.getAccounts()) {
 	            if (acc.enabled === false && acc.cooldownReason === "auth-failure") {
-	              accountManager.setAccountEnabled(acc.index, true);
+	              accountManager.setAccountEnabled(acc.id, true);
 	              accountManager.clearAccountCooldown(acc);
 	            }
 	          }
@@ -654,17 +677,77 @@ export const createKimicodePlugin = (providerId: string) => async (
 	          // best-effort
 	        }
 
-	        // Start proactive refresh queue (best-effort).
+	        // Start proactive refresh queue and soft quota refresher (best-effort).
+	        // Called again when a live reload fills an empty pool.
 	        let refreshQueue: ProactiveRefreshQueue | null = null;
-	        if (config.proactive_token_refresh && accountManager.getAccountCount() > 0) {
-	          refreshQueue = createProactiveRefreshQueue(client, providerId, {
-	            enabled: config.proactive_token_refresh,
-            bufferSeconds: config.proactive_refresh_buffer_seconds,
-            checkIntervalSeconds: config.proactive_refresh_check_interval_seconds,
+	        let quotaRefresher: QuotaRefresher | null = null;
+	        const startBackgroundRefreshers = (): void => {
+	          if (accountManager.getAccountCount() === 0) return;
+
+	          if (config.proactive_token_refresh && !refreshQueue?.isRunning()) {
+	            refreshQueue ??= createProactiveRefreshQueue(client, providerId, {
+	              enabled: config.proactive_token_refresh,
+	              bufferSeconds: config.proactive_refresh_buffer_seconds,
+	              checkIntervalSeconds: config.proactive_refresh_check_interval_seconds,
+	            });
+	            refreshQueue.setAccountManager(accountManager);
+	            refreshQueue.start();
+	          }
+
+	          if (
+	            config.soft_quota_threshold_percent < 100 &&
+	            config.quota_refresh_interval_minutes > 0 &&
+	            !quotaRefresher?.isRunning()
+	          ) {
+	            quotaRefresher ??= createQuotaRefresher(client, providerId, {
+	              refreshIntervalMinutes: config.quota_refresh_interval_minutes,
+	            });
+	            quotaRefresher.setAccountManager(accountManager);
+	            quotaRefresher.start();
+	          }
+	        };
+	        startBackgroundRefreshers();
+
+	        // Pick up accounts added, disabled or removed from another terminal.
+	        stopAccountPoolWatch?.();
+	        stopAccountPoolWatch = null;
+	        if (config.account_pool_watch && getAccountStore().kind === "file") {
+	          const storagePath = getStoragePath();
+	          stopAccountPoolWatch = watchStorageFile(storagePath, async () => {
+	            const stored = await loadAccounts();
+	            // Unreadable (e.g. encrypted without a key): keep the current pool.
+	            if (!stored && existsSync(storagePath)) return;
+	            const changes = accountManager.syncFromStorage(stored ?? { version: 1, accounts: [], activeIndex: 0 });
+	            if (changes.added === 0 && changes.removed === 0 && changes.updated === 0) return;
+	            log.info("Reloaded account pool from storage", { ...changes });
+	            startBackgroundRefreshers();
+	          });
+	        }
+
+        // Fill in display names after token refreshes, once per account (best-effort).
+        const profileLookups = new Set<string>();
+        const lookupAccountProfile = (account: ManagedAccount, accessToken: string | undefined): void => {
+          if (!config.account_profile_lookup || !accessToken || account.displayName) return;
+          const key = account.userId ?? account.parts.refreshToken;
+          if (profileLookups.has(key)) return;
+          profileLookups.add(key);
+          const deviceId = account.fingerprint?.deviceId ?? generateFingerprint().deviceId;
+          void fetchKimiUserInfo(accessToken, deviceId).then((identity) => {
+            if (identity) accountManager.setAccountIdentity(account, identity);
           });
-          refreshQueue.setAccountManager(accountManager);
-          refreshQueue.start();
+        };
+
+        // Refresh model definitions from /models in the background (best-effort).
+        if (config.model_discovery && accountManager.getAccountCount() > 0) {
+          void refreshDiscoveredModels(accountManager, client, providerId)
+            .then((models) => (models ? updateOpencodeConfig({ models }) : undefined))
+            .catch(() => {});
         }
+        const softQuotaThresholdPercent = config.soft_quota_threshold_percent;
+        const softQuotaCacheTtlMs = computeSoftQuotaCacheTtlMs(
+          config.soft_quota_cache_ttl_minutes,
+          config.quota_refresh_interval_minutes,
+        );
 
         if (isDebugEnabled()) {
           const logPath = getLogFilePath();
@@ -730,6 +813,10 @@ export const createKimicodePlugin = (providerId: string) => async (
             // Kimi Code uses OpenAI-compatible bodies. For our kimicode-* models,
             // rewrite the model name to the actual Kimi API model id.
             let bodyForAttempts: ArrayBuffer | Uint8Array | null = bodyBuffer;
+            let isStreaming = false;
+            let modelForErrors = "unknown";
+            let sessionId: string | undefined;
+            let routingRule: ModelRoutingRule | null = null;
             if (isChatCompletions && bodyBuffer) {
               const contentType = baseHeaders.get("content-type") ?? "";
               const maybeJson =
@@ -741,38 +828,34 @@ export const createKimicodePlugin = (providerId: string) => async (
                 try {
                   const rawBody = new TextDecoder().decode(bodyBuffer);
                   const parsed = JSON.parse(rawBody) as any;
+                  isStreaming = parsed?.stream === true;
 	                  const requestedModel = parsed?.model;
 
 	                  if (typeof requestedModel === "string" && requestedModel.length > 0) {
 	                    const isKimicodeModel = requestedModel.startsWith(KIMICODE_MODEL_PREFIX);
 
 	                    if (!isKimicodeModel) {
-	                      throw new Error(
-	                        `Moonshot AI OAuth (Kimi Code) only supports models with the '${KIMICODE_MODEL_PREFIX}' prefix. ` +
-	                        `Use moonshotai/kimicode-kimi-k2.5 or moonshotai/kimicode-kimi-k2.5-thinking, ` +
-	                        `or re-run 'opencode auth login' and choose API Key to use moonshotai/${requestedModel}.`,
-	                      );
+	                      throw new Error(describeUnsupportedModel(providerId, requestedModel));
 	                    }
 
                     const effectiveModel = resolveKimiModelAlias(requestedModel);
-                    const wantsThinking = isThinkingModel(requestedModel);
+                    modelForErrors = requestedModel;
+                    // An explicit reasoning_effort/thinking in the body overrides the model's effort.
+                    const thinkingSetting = resolveThinkingSetting(parsed, getModelThinkingSetting(requestedModel));
+                    routingRule = findModelRoutingRule(config.model_routing, requestedModel, thinkingSetting !== "off");
 
                     // Always rewrite: model alias + thinking parameters.
                     parsed.model = effectiveModel;
 
                     // Inject thinking parameters matching kimi-cli wire format.
-                    // Thinking ON:  reasoning_effort="high", thinking={type:"enabled"}
-                    // Thinking OFF: remove reasoning_effort,  thinking={type:"disabled"}
-                    if (wantsThinking) {
-                      parsed.reasoning_effort = "high";
-                      parsed.thinking = { type: "enabled" };
-                    } else {
-                      delete parsed.reasoning_effort;
-                      parsed.thinking = { type: "disabled" };
-                    }
+                    // Thinking ON:  reasoning_effort=<effort>, thinking={type:"enabled"}
+                    // Thinking OFF: remove reasoning_effort,   thinking={type:"disabled"}
+                    applyThinkingSetting(parsed, thinkingSetting);
+
+                    sessionId = takeRequestSessionId(parsed, baseHeaders);
 
                     // Enable Kimi server-side prompt caching (mirrors kimi-cli).
-                    parsed.prompt_cache_key = PLUGIN_SESSION_ID;
+                    parsed.prompt_cache_key = sessionId ?? PLUGIN_SESSION_ID;
 
                     bodyForAttempts = Buffer.from(JSON.stringify(parsed), "utf8");
                     // Body length may have changed; let fetch() compute it.
@@ -795,25 +878,101 @@ export const createKimicodePlugin = (providerId: string) => async (
             const FAMILY = "kimi" as const;
             const HEADER_STYLE = "kimi-cli" as const;
 
+            // performance_first rotates on every request regardless of the configured strategy.
+            const schedulingMode = config.scheduling_mode;
+            const selectionStrategy =
+              schedulingMode === "performance_first" ? "round-robin" : config.account_selection_strategy;
+            const maxCacheFirstWaitMs = config.max_cache_first_wait_seconds * 1000;
+            const sessionAffinityTtlMs = config.session_affinity_ttl_minutes * 60 * 1000;
+            const maxBackoffMs = config.max_backoff_seconds * 1000;
+
             let capacityRetryCount = 0;
             let attemptedRefreshForAccount = false;
-            let lastAccountIndex: number | null = null;
+            let lastAccountId: string | null = null;
+            let cacheFirstWaitedMs = 0;
+            let retriedAfterRateLimit = false;
+            let emptyResponseAttempts = 0;
+            // Set when cache_first decides to wait out a rate limit on the same account.
+            let pinnedAccount: ManagedAccount | null = null;
 
             while (true) {
               if (abortSignal?.aborted) {
                 throw abortSignal.reason instanceof Error ? abortSignal.reason : new Error("Aborted");
               }
 
-              const account = accountManager.getCurrentOrNextForFamily(
-                FAMILY,
-                undefined,
-                config.account_selection_strategy,
-                HEADER_STYLE,
-                config.pid_offset_enabled,
-              );
+              // model_routing: only the accounts allowed for this model may serve it.
+              let allowedAccountIds: Set<string> | null = null;
+              if (routingRule) {
+                allowedAccountIds = resolveAllowedAccountIds(routingRule, accountManager.getAccounts());
+                if (allowedAccountIds.size === 0) {
+                  throw new Error(
+                    `No account in the pool matches the model_routing rule for ${modelForErrors} ` +
+                    `(accounts: ${routingRule.accounts.join(", ")}).`,
+                  );
+                }
+              }
+
+              let account: ManagedAccount | null =
+                pinnedAccount && pinnedAccount.enabled !== false ? pinnedAccount : null;
+              pinnedAccount = null;
+
+              // Sessions stay on their pinned account while it is available, so
+              // parallel sessions keep their own prompt caches (not with round-robin).
+              if (!account && sessionId && sessionAffinityTtlMs > 0 && selectionStrategy !== "round-robin") {
+                account = accountManager.getCurrentOrNextForSession(
+                  sessionId,
+                  FAMILY,
+                  undefined,
+                  selectionStrategy,
+                  HEADER_STYLE,
+                  config.pid_offset_enabled,
+                  softQuotaThresholdPercent,
+                  softQuotaCacheTtlMs,
+                  sessionAffinityTtlMs,
+                  allowedAccountIds,
+                );
+              } else if (!account) {
+                account = accountManager.getCurrentOrNextForFamily(
+                  FAMILY,
+                  undefined,
+                  selectionStrategy,
+                  HEADER_STYLE,
+                  config.pid_offset_enabled,
+                  softQuotaThresholdPercent,
+                  softQuotaCacheTtlMs,
+                  allowedAccountIds,
+                );
+              }
+
+              // Soft quota is advisory: when every account is near its limit, keep
+              // serving from them and let real 429s drive the rate-limit handling.
+              if (
+                !account &&
+                accountManager.areAllAccountsOverSoftQuota(FAMILY, softQuotaThresholdPercent, softQuotaCacheTtlMs)
+              ) {
+                if (shouldShowRateLimitToast("All accounts near quota")) {
+                  await showToast(`All accounts are above ${softQuotaThresholdPercent}% of their quota.`, "warning");
+                }
+                account = accountManager.getCurrentOrNextForFamily(
+                  FAMILY,
+                  undefined,
+                  selectionStrategy,
+                  HEADER_STYLE,
+                  config.pid_offset_enabled,
+                  undefined,
+                  undefined,
+                  allowedAccountIds,
+                );
+              }
+
+              // Every usable account is busy: queue until a request slot frees up.
+              if (!account && accountManager.isWaitingOnRequestSlots(FAMILY, undefined, HEADER_STYLE, allowedAccountIds)) {
+                await accountManager.waitForRequestSlot(REQUEST_SLOT_RECHECK_MS, abortSignal);
+                continue;
+              }
 
               if (!account) {
-                const minWait = accountManager.getMinWaitTimeForFamily(FAMILY, undefined, HEADER_STYLE, true);
+                const minWait = accountManager.getMinWaitTimeForFamily(FAMILY, undefined, HEADER_STYLE, true, allowedAccountIds);
                 if (maxWaitMs > 0 && minWait > maxWaitMs) {
                   throw new Error(
                     `All Kimi accounts are rate-limited. Minimum wait is ${Math.ceil(minWait / 1000)}s ` +
@@ -830,31 +989,32 @@ export const createKimicodePlugin = (providerId: string) => async (
                 continue;
               }
 
-              if (lastAccountIndex !== account.index) {
+              if (lastAccountId !== account.id) {
                 attemptedRefreshForAccount = false;
                 capacityRetryCount = 0;
-                lastAccountIndex = account.index;
+                cacheFirstWaitedMs = 0;
+                retriedAfterRateLimit = false;
+                lastAccountId = account.id;
               }
 
               // Show toast when switching accounts (debounced).
               const accountCount = accountManager.getAccountCount();
-              if (accountCount > 1 && accountManager.shouldShowAccountToast(account.index)) {
-                const accountLabel = account.email || `Account ${account.index + 1}`;
+              if (accountCount > 1 && accountManager.shouldShowAccountToast(account.id)) {
+                const accountLabel = formatAccountLabel(account);
                 const enabledAccounts = accountManager.getEnabledAccounts();
-                const enabledPosition = enabledAccounts.findIndex(a => a.index === account.index) + 1;
+                const enabledPosition = enabledAccounts.findIndex(a => a.id === account.id) + 1;
                 await showToast(`Using ${accountLabel} (${enabledPosition}/${accountCount})`, "info");
-                accountManager.markToastShown(account.index);
+                accountManager.markToastShown(account.id);
               }
 
 	              // Resolve/refresh the account's access token.
 	              let accountAuth = resolveCachedAuth(accountManager.toAuthDetails(account));
 	              if (accessTokenExpired(accountAuth)) {
 	                try {
-	                  const refreshed = await refreshAccessToken(accountAuth, client, providerId);
+	                  const refreshed = await refreshAccountToken(accountManager, account, client, providerId);
 	                  if (refreshed) {
 	                    accountAuth = refreshed;
-	                    accountManager.updateFromAuth(account, refreshed);
-	                    accountManager.requestSaveToDisk();
+	                    lookupAccountProfile(account, refreshed.access);
 	                  }
 	                } catch (e) {
 	                  // Token refresh failed; disable or cool down this account.
@@ -864,14 +1024,14 @@ export const createKimicodePlugin = (providerId: string) => async (
 	                    (e.code === "invalid_grant" || e.status === 401 || e.status === 403)
 	                  ) {
 	                    // Refresh token revoked/invalid. Disable so we don't keep retrying it.
-	                    accountManager.setAccountEnabled(account.index, false);
+	                    accountManager.setAccountEnabled(account.id, false);
 	                    accountManager.markAccountCoolingDown(account, 5 * 60_000, "auth-failure");
 	                    accountManager.requestSaveToDisk();
-	                    await showToast(`Account ${account.index + 1} refresh token invalid. Disabled.`, "warning");
+	                    await showToast(`${formatAccountLabel(account)} refresh token invalid. Disabled.`, "warning");
 	                  } else {
 	                    accountManager.markAccountCoolingDown(account, 60_000, "auth-failure");
 	                    accountManager.requestSaveToDisk();
-	                    await showToast(`Account ${account.index + 1} auth failed. Switching...`, "warning");
+	                    await showToast(`${formatAccountLabel(account)} auth failed. Switching...`, "warning");
 	                  }
 	                  log.warn("token-refresh-failed", { accountIndex: account.index, error: err });
 	                  continue;
@@ -883,7 +1043,7 @@ export const createKimicodePlugin = (providerId: string) => async (
                 // If we still have no access token, the refresh flow failed silently.
                 accountManager.markAccountCoolingDown(account, 60_000, "auth-failure");
                 accountManager.requestSaveToDisk();
-                await showToast(`Account ${account.index + 1} missing access token. Switching...`, "warning");
+                await showToast(`${formatAccountLabel(account)} missing access token. Switching...`, "warning");
                 continue;
               }
 
@@ -927,29 +1087,123 @@ export const createKimicodePlugin = (providerId: string) => async (
                 method,
                 headers,
                 body: attemptBody ? "[buffered]" : undefined,
-                streaming: false,
+                streaming: isStreaming,
               });
 
               // Consume token for hybrid strategy (refund on failure).
               let tokenConsumed = false;
               if (config.account_selection_strategy === "hybrid") {
-                tokenConsumed = getTokenTracker().consume(account.index);
+                tokenConsumed = getTokenTracker().consume(account.id);
               }
 
+              // Held until the response body is done when the response is returned.
+              const releaseRequestSlot = accountManager.acquireRequestSlot(account);
+              let requestSlotHandedOff = false;
+
               try {
                 const response = await fetch(attemptRequest);
 
                 logKimicodeDebugResponse(debugContext, response, { note: `account=${account.index}` });
 
                 if (response.ok) {
-                  if (config.account_selection_strategy === "hybrid" && tokenConsumed) {
-                    // Token consumed successfully; keep it consumed.
+                  let finalResponse = response;
+
+                  const rateLimit = parseRateLimitHeaders(response.headers);
+                  if (rateLimit) {
+                    if (config.account_selection_strategy === "hybrid") {
+                      const tokenTracker = getTokenTracker();
+                      tokenTracker.clampTokens(account.id, rateLimit.remainingFraction * tokenTracker.getMaxTokens());
+                    }
+                    if (accountManager.recordRateLimitHeaders(account, rateLimit, FAMILY, HEADER_STYLE)) {
+                      log.info("Account rate limit exhausted; routing away until it resets", {
+                        account: formatAccountLabel(account),
+                        resetAt: rateLimit.resetAt !== undefined ? new Date(rateLimit.resetAt).toISOString() : undefined,
+                      });
+                    }
                   }
-                  getHealthTracker().recordSuccess(account.index);
+
+                  // Streaming: hold the response until the first content event so a stream
+                  // that errors or closes empty can still be retried on another account.
+                  if (isStreaming && canRetry && isEventStreamResponse(response)) {
+                    const peeked = await peekSseStream(response);
+                    if (abortSignal?.aborted) {
+                      throw abortSignal.reason instanceof Error ? abortSignal.reason : new Error("Aborted");
+                    }
+
+                    if (peeked.type !== "content") {
+                      emptyResponseAttempts++;
+                      const detail = peeked.type === "error" ? peeked.message : "stream ended without content";
+                      logKimicodeDebugResponse(debugContext, response, {
+                        note: `empty-stream account=${account.index} attempt=${emptyResponseAttempts}: ${detail}`,
+                      });
+                      log.warn("empty-stream", { accountIndex: account.index, attempt: emptyResponseAttempts, detail });
+
+                      if (tokenConsumed) {
+                        getTokenTracker().refund(account.id);
+                        tokenConsumed = false;
+                      }
+                      getHealthTracker().recordFailure(account.id);
+
+                      if (emptyResponseAttempts >= config.empty_response_max_attempts) {
+                        throw new EmptyResponseError(providerId, modelForErrors, emptyResponseAttempts);
+                      }
+
+                      accountManager.markAccountCoolingDown(account, EMPTY_STREAM_COOLDOWN_MS, "network-error");
+                      accountManager.requestSaveToDisk();
+                      if (!quietMode && shouldShowRateLimitToast("empty-stream")) {
+                        await showToast("Empty response stream. Retrying with another account...", "warning");
+                      }
+                      continue;
+                    }
+
+                    finalResponse = peeked.response;
+                  }
+
+                  if (isChatCompletions) {
+                    const usageAccount = account.id;
+                    const usageAccountLabel = formatAccountLabel(account);
+                    const usageModel = modelForErrors;
+                    const cacheSessionId = sessionId ?? PLUGIN_SESSION_ID;
+                    finalResponse = trackResponseUsage(finalResponse, isStreaming, (usage) => {
+                      if (config.usage_tracking) {
+                        getUsageTracker().record({
+                          account: usageAccount,
+                          accountLabel: usageAccountLabel,
+                          model: usageModel,
+                          sessionId,
+                          usage,
+                        });
+                      }
+
+                      const cacheStats = getCacheStatsTracker();
+                      const collapse = cacheStats.record({ account: usageAccount, sessionId: cacheSessionId, usage });
+                      logCacheStats(usageModel, usage.cachedTokens, 0, usage.promptTokens, {
+                        account: usageAccountLabel,
+                        sessionId: cacheSessionId,
+                        accountHitRate: cacheHitRate(cacheStats.getAccountStats(usageAccount)),
+                        sessionHitRate: cacheHitRate(cacheStats.getSessionStats(cacheSessionId)),
+                      });
+                      if (collapse) {
+                        const before = Math.round(collapse.previousRate * 100);
+                        const after = Math.round(collapse.currentRate * 100);
+                        log.info("Prompt cache hit rate dropped after an account switch", { ...collapse });
+                        void showToast(
+                          `Prompt cache cold on ${usageAccountLabel}: hit rate ${before}% → ${after}% after switching accounts.`,
+                          "warning",
+                        );
+                      }
+                    });
+                  }
+
+                  getHealthTracker().recordSuccess(account.id);
                   accountManager.markRequestSuccess(account);
-                  accountManager.markAccountUsed(account.index);
+                  accountManager.markAccountUsed(account.id);
+                  if (sessionId && sessionAffinityTtlMs > 0) {
+                    accountManager.setSessionAccount(sessionId, account);
+                  }
                   accountManager.requestSaveToDisk();
-                  return response;
+                  requestSlotHandedOff = true;
+                  return releaseWhenBodyDone(finalResponse, releaseRequestSlot, abortSignal);
                 }
 
                 // Read response body for debug + error parsing (clone to preserve original response if we return it).
@@ -977,15 +1231,14 @@ export const createKimicodePlugin = (providerId: string) => async (
 	                  if (!attemptedRefreshForAccount) {
 	                    attemptedRefreshForAccount = true;
 	                    if (tokenConsumed) {
-	                      getTokenTracker().refund(account.index);
+	                      getTokenTracker().refund(account.id);
                       tokenConsumed = false;
                     }
 
 	                    try {
-	                      const refreshed = await refreshAccessToken(accountAuth, client, providerId);
+	                      const refreshed = await refreshAccountToken(accountManager, account, client, providerId);
 	                      if (refreshed) {
-	                        accountManager.updateFromAuth(account, refreshed);
-	                        accountManager.requestSaveToDisk();
+	                        lookupAccountProfile(account, refreshed.access);
 	                        continue; // retry same request with updated access token
 	                      }
 	                    } catch (e) {
@@ -993,12 +1246,12 @@ export const createKimicodePlugin = (providerId: string) => async (
 	                        e instanceof KimiTokenRefreshError &&
 	                        (e.code === "invalid_grant" || e.status === 401 || e.status === 403)
 	                      ) {
-	                        accountManager.setAccountEnabled(account.index, false);
+	                        accountManager.setAccountEnabled(account.id, false);
 	                        accountManager.markAccountCoolingDown(account, 5 * 60_000, "auth-failure");
 	                        accountManager.requestSaveToDisk();
-	                        getHealthTracker().recordFailure(account.index);
+	                        getHealthTracker().recordFailure(account.id);
 	                        await showToast(
-	                          `Account ${account.index + 1} refresh token invalid. Disabled and switching...`,
+	                          `${formatAccountLabel(account)} refresh token invalid. Disabled and switching...`,
 	                          "warning",
 	                        );
 	                        continue;
@@ -1009,27 +1262,27 @@ export const createKimicodePlugin = (providerId: string) => async (
 	                  // Refresh didn't help -> cool down and switch (don't permanently disable).
 	                  accountManager.markAccountCoolingDown(account, 60_000, "auth-failure");
 	                  accountManager.requestSaveToDisk();
-	                  getHealthTracker().recordFailure(account.index);
+	                  getHealthTracker().recordFailure(account.id);
 	                  if (tokenConsumed) {
-	                    getTokenTracker().refund(account.index);
+	                    getTokenTracker().refund(account.id);
 	                    tokenConsumed = false;
 	                  }
-	                  await showToast(`Account ${account.index + 1} unauthorized. Switching...`, "warning");
+	                  await showToast(`${formatAccountLabel(account)} unauthorized. Switching...`, "warning");
 	                  continue;
 	                }
 
                 // Rate limit / overload handling.
                 if (response.status === 429 || response.status === 503 || response.status === 529) {
                   if (tokenConsumed) {
-                    getTokenTracker().refund(account.index);
+                    getTokenTracker().refund(account.id);
                     tokenConsumed = false;
                   }
 
                   const defaultRetryMs = (config.default_retry_after_seconds ?? 60) * 1000;
-                  const headerRetryMs = retryAfterMsFromResponse(response, defaultRetryMs);
                   const info = await parseErrorInfo(response);
 
-                  const retryAfterMs = info.retryDelayMs ?? headerRetryMs;
+                  const serverRetryMs = info.retryDelayMs ?? retryAfterMsFromResponse(response);
+                  const retryAfterMs = serverRetryMs ?? defaultRetryMs;
                   const reason = parseRateLimitReason(info.reason, info.message, response.status);
 
                   // Capacity/server errors: exponential backoff, retry same account.
@@ -1039,8 +1292,7 @@ export const createKimicodePlugin = (providerId: string) => async (
                     }
 
                     const baseDelayMs = 1000;
-                    const maxDelayMs = 8000;
-                    const exponentialDelay = Math.min(baseDelayMs * Math.pow(2, capacityRetryCount), maxDelayMs);
+                    const exponentialDelay = Math.min(baseDelayMs * Math.pow(2, capacityRetryCount), maxBackoffMs);
                     const jitter = exponentialDelay * (0.9 + Math.random() * 0.2);
                     const waitMs = Math.round(jitter);
 
@@ -1055,8 +1307,42 @@ export const createKimicodePlugin = (providerId: string) => async (
                     continue;
                   }
 
+                  // cache_first: wait on the same account (keeps Kimi's prompt_cache_key warm)
+                  // as long as the total wait stays within max_cache_first_wait_seconds.
+                  // Quota exhaustion won't clear within that window, so switch right away; so
+                  // does a 429 without a retry hint, rather than waiting out the default delay.
+                  if (
+                    schedulingMode === "cache_first" &&
+                    canRetry &&
+                    reason !== "QUOTA_EXHAUSTED" &&
+                    serverRetryMs !== null &&
+                    cacheFirstWaitedMs + retryAfterMs <= maxCacheFirstWaitMs
+                  ) {
+                    getHealthTracker().recordRateLimit(account.id);
+                    cacheFirstWaitedMs += retryAfterMs;
+                    if (shouldShowRateLimitToast(`cache-first-${response.status}`)) {
+                      await showToast(
+                        `Rate limited (${response.status}). Waiting ${Math.ceil(retryAfterMs / 1000)}s to keep prompt cache...`,
+                        "warning",
+                      );
+                    }
+                    await sleep(retryAfterMs, abortSignal);
+                    pinnedAccount = account;
+                    continue;
+                  }
+
+                  // switch_on_first_rate_limit=false: give the same account one more try
+                  // before marking it limited and switching.
+                  if (!config.switch_on_first_rate_limit && canRetry && !retriedAfterRateLimit) {
+                    retriedAfterRateLimit = true;
+                    getHealthTracker().recordRateLimit(account.id);
+                    await sleep(SAME_ACCOUNT_RETRY_DELAY_MS, abortSignal);
+                    pinnedAccount = account;
+                    continue;
+                  }
+
                   // Normal rate limit: mark account limited and switch.
-                  getHealthTracker().recordRateLimit(account.index);
+                  getHealthTracker().recordRateLimit(account.id);
                   const failureTtlMs = (config.failure_ttl_seconds ?? 3600) * 1000;
                   const backoffMs = accountManager.markRateLimitedWithReason(
                     account,
@@ -1066,6 +1352,7 @@ export const createKimicodePlugin = (providerId: string) => async (
                     reason,
                     retryAfterMs,
                     failureTtlMs,
+                    maxBackoffMs,
                   );
                   accountManager.requestSaveToDisk();
 
@@ -1085,7 +1372,7 @@ export const createKimicodePlugin = (providerId: string) => async (
                 }
 
                 // Non-rate-limit failures: penalize health and briefly cool down.
-                getHealthTracker().recordFailure(account.index);
+                getHealthTracker().recordFailure(account.id);
                 accountManager.markAccountCoolingDown(account, 15_000, "network-error");
                 accountManager.requestSaveToDisk();
 
@@ -1097,14 +1384,18 @@ export const createKimicodePlugin = (providerId: string) => async (
                 await sleep(1000, abortSignal);
                 continue;
               } catch (error) {
+                if (error instanceof EmptyResponseError || abortSignal?.aborted) {
+                  throw error;
+                }
+
                 logKimicodeDebugResponse(debugContext, new Response(null, { status: 0, statusText: "network-error" }), { error });
 
                 if (config.account_selection_strategy === "hybrid" && tokenConsumed) {
-                  getTokenTracker().refund(account.index);
+                  getTokenTracker().refund(account.id);
                   tokenConsumed = false;
                 }
 
-                getHealthTracker().recordFailure(account.index);
+                getHealthTracker().recordFailure(account.id);
                 accountManager.markAccountCoolingDown(account, 15_000, "network-error");
                 accountManager.requestSaveToDisk();
 
@@ -1114,6 +1405,10 @@ export const createKimicodePlugin = (providerId: string) => async (
                 }
                 await sleep(1000, abortSignal);
                 continue;
+              } finally {
+                if (!requestSlotHandedOff) {
+                  releaseRequestSlot();
+                }
               }
             }
           },
@@ -1144,13 +1439,13 @@ export const createKimicodePlugin = (providerId: string) => async (
                   }
 
                   if (menu.mode === "remove") {
-                    const removeIndex = await promptRemoveAccount(existingAccounts);
-                    if (removeIndex === null) {
+                    const removeId = await promptRemoveAccount(existingAccounts);
+                    if (removeId === null) {
                       existingStorage = await loadAccounts();
                       continue;
                     }
 
-                    const removed = await removeAccountFromPool(removeIndex).catch(() => false);
+                    const removed = await removeAccountFromPool(removeId).catch(() => false);
                     if (!removed) {
                       console.log("\n✗ Failed to remove account\n");
                     } else {
@@ -1166,6 +1461,21 @@ export const createKimicodePlugin = (providerId: string) => async (
                     continue;
                   }
 
+                  if (menu.mode === "tier") {
+                    const choice = await promptAccountTier(existingAccounts);
+                    if (choice) {
+                      try {
+                        const updated = await setAccountTierInPool(choice);
+                        console.log(updated ? "\n✓ Account tier updated\n" : "\n✗ Account is no longer in the pool\n");
+                      } catch (error) {
+                        const message = error instanceof Error ? error.message : String(error);
+                        console.log(`\n✗ Failed to update account tier: ${message}\n`);
+                      }
+                    }
+                    existingStorage = await loadAccounts();
+                    continue;
+                  }
+
                   if (menu.mode === "cancel") {
                     return {
                       url: "",
@@ -1186,41 +1496,57 @@ export const createKimicodePlugin = (providerId: string) => async (
               }
 
               while (results.length < MAX_OAUTH_ACCOUNTS) {
-                const authorization = await authorizeKimi();
+                const authorization = await authorizeKimi({ store: createFileDeviceAuthorizationStore() });
 
                 const url = authorization.verificationUri;
-                const code = authorization.userCode;
+                const headless = isHeadless();
 
-                console.log("\nKimi device authorization");
-                console.log(`  URL:  ${url}`);
-                console.log(`  Code: ${code}`);
-                console.log("  Expires: 30 minutes");
-                console.log("");
+                if (authorization.resumed) {
+                  console.log("\nResuming the device authorization started by an earlier login.");
+                }
+                printDeviceAuthorization(authorization, { showQrCode: headless || noBrowser });
 
-                if (!noBrowser && !isHeadless()) {
+                if (!noBrowser && !headless) {
                   await openBrowser(url).catch(() => {});
                 }
 
-                const tokens = await authorization.poll();
-                const result = authSuccessFromTokens(tokens);
-                if (result.type === "failed") {
+                // Ctrl-C cancels polling; the pending code is kept for the next login.
+                const controller = beginDeviceAuthPolling();
+                const onSigint = () => controller.abort();
+                process.once("SIGINT", onSigint);
+                const progress = startDeviceAuthProgress(authorization.expiresAt);
+                let tokens: KimiTokenExchangeResult;
+                try {
+                  tokens = await authorization.poll(controller.signal, progress.onProgress);
+                } catch (error) {
+                  const message = describeDeviceAuthError(error);
                   if (results.length === 0) {
                     return {
                       url: "",
-                      instructions: `Authentication failed: ${result.error}`,
+                      instructions: message,
                       method: "auto",
-                      callback: async () => result,
+                      callback: async () => ({ type: "failed", error: message }),
                     };
                   }
+                  console.log(`\n${message}`);
                   break;
+                } finally {
+                  progress.stop();
+                  process.removeListener("SIGINT", onSigint);
+                  endDeviceAuthPolling(controller);
                 }
-
+                const result = authSuccessFromTokens(tokens);
                 results.push(result);
+                const identity = await resolveAccountIdentity(
+                  result,
+                  generateFingerprint().deviceId,
+                  config.account_profile_lookup,
+                );
 
                 try {
                   await client.tui.showToast({
                     body: {
-                      message: `Account ${results.length} authenticated`,
+                      message: `${formatAccountLabel({ index: results.length - 1, ...identity })} authenticated`,
                       variant: "success",
                     },
                   });
@@ -1229,8 +1555,18 @@ export const createKimicodePlugin = (providerId: string) => async (
                 // Persist the refresh token in the pool file.
                 try {
                   const isFirstAccount = results.length === 1;
-                  await persistAccountPool([{ refresh: result.refresh }], isFirstAccount && startFresh);
-                } catch {}
+                  await persistAccountPool([{ refresh: result.refresh, identity }], isFirstAccount && startFresh);
+                } catch (error) {
+                  if (error instanceof StorageDecryptionError) {
+                    const message = describeAccountSaveError(error);
+                    return {
+                      url: "",
+                      instructions: message,
+                      method: "auto",
+                      callback: async () => ({ type: "failed", error: message }),
+                    };
+                  }
+                }
 
                 // Ask user if they want to add another account.
                 let currentAccountCount = results.length;
@@ -1272,9 +1608,10 @@ export const createKimicodePlugin = (providerId: string) => async (
             }
 
             // TUI flow: single-account only (no prompts).
-            const authorization = await authorizeKimi();
+            const authorization = await authorizeKimi({ store: createFileDeviceAuthorizationStore() });
             const url = authorization.verificationUri;
             const code = authorization.userCode;
+            const controller = beginDeviceAuthPolling();
 
             if (!noBrowser && !isHeadless()) {
               await openBrowser(url).catch(() => {});
@@ -1282,13 +1619,34 @@ export const createKimicodePlugin = (providerId: string) => async (
 
             return {
               url,
-              instructions: `Open the URL and enter code: ${code}`,
+              instructions: authorization.resumed
+                ? `Resuming an earlier login. Open the URL and enter code: ${code}`
+                : `Open the URL and enter code: ${code}`,
               method: "auto",
+              // OpenCode's callback takes no cancel signal: a poll abandoned in the TUI runs
+              // until the code expires, the next login starts or the plugin reloads
+              // (see cancelDeviceAuthPolling).
               callback: async () => {
-                const tokens = await authorization.poll();
+                let tokens: KimiTokenExchangeResult;
+                try {
+                  tokens = await authorization.poll(controller.signal);
+                } catch (error) {
+                  return { type: "failed", error: describeDeviceAuthError(error) };
+                } finally {
+                  endDeviceAuthPolling(controller);
+                }
                 const result = authSuccessFromTokens(tokens);
-                if (result.type === "success") {
-                  await persistAccountPool([{ refresh: result.refresh }], false).catch(() => {});
+                const identity = await resolveAccountIdentity(
+                  result,
+                  generateFingerprint().deviceId,
+                  config.account_profile_lookup,
+                );
+                try {
+                  await persistAccountPool([{ refresh: result.refresh, identity }], false);
+                } catch (error) {
+                  if (error instanceof StorageDecryptionError) {
+                    return { type: "failed", error: describeAccountSaveError(error) };
+                  }
                 }
                 return result;
               },
@@ -0,0 +1,265 @@
+/**
+ * Account pool persistence shared by the login flow and `kimicode-accounts`.
+ *
+ * `importRefreshTokens` is the non-interactive path: each refresh token is
+ * validated with a refresh grant before it is added to the pool, so CI jobs
+ * can bootstrap accounts without the device flow.
+ */
+
+import { randomUUID } from "node:crypto";
+
+import { generateFingerprint } from "./fingerprint";
+import { createLogger } from "./logger";
+import { extractKimiUserIdFromJwt, getAccountIdentityKey, type AccountIdentity } from "./identity";
+import {
+  deduplicateAccountsByIdentity,
+  deriveAccountId,
+  updateAccounts,
+  type AccountMetadataV3,
+  type AccountStorage,
+} from "./storage";
+import { refreshAccessToken } from "./token";
+
+const log = createLogger("account-pool");
+
+/**
+ * Identity fields for an updated account: the new login's values, else the stored ones.
+ */
+function identityFields(
+  existing: AccountMetadataV3,
+  userId: string | undefined,
+  identity: AccountIdentity | undefined,
+): Pick<AccountMetadataV3, "userId" | "displayName" | "email"> {
+  return {
+    userId: userId ?? existing.userId,
+    displayName: identity?.displayName ?? existing.displayName,
+    email: identity?.email ?? existing.email,
+  };
+}
+
+/**
+ * Add refresh tokens to the stored pool, merging by refresh token and then by
+ * user id (a rotated token replaces the account it belongs to). The pool is
+ * read and replaced under one storage lock, so tokens a running OpenCode
+ * rotates meanwhile are kept.
+ *
+ * @param results - Tokens with the identity resolved at login, if any; the
+ *   user id falls back to the refresh token's JWT payload
+ * @param replaceAll - Start a fresh pool instead of merging into the stored one
+ */
+export async function persistAccountPool(
+  results: Array<{ refresh: string; identity?: AccountIdentity }>,
+  replaceAll: boolean,
+): Promise<void> {
+  if (!results.some((result) => result.refresh)) return;
+
+  await updateAccounts((existing) => mergeIntoPool(replaceAll ? null : existing, results, replaceAll));
+}
+
+function mergeIntoPool(
+  stored: AccountStorage | null,
+  results: Array<{ refresh: string; identity?: AccountIdentity }>,
+  replaceAll: boolean,
+): AccountStorage {
+  const now = Date.now();
+  const accounts: AccountMetadataV3[] = (stored?.accounts ?? []).map((acc) =>
+    acc.id ? acc : { ...acc, id: deriveAccountId(acc) },
+  );
+
+  const indexByRefreshToken = new Map<string, number>();
+  const indexByUserId = new Map<string, number>();
+  for (let i = 0; i < accounts.length; i++) {
+    const acc = accounts[i];
+    const token = acc?.refreshToken;
+    if (typeof token === "string" && token.length > 0) {
+      indexByRefreshToken.set(token, i);
+    }
+    const userId = acc ? getAccountIdentityKey(acc) : undefined;
+    if (userId) {
+      indexByUserId.set(userId, i);
+    }
+  }
+
+  for (const result of results) {
+    const refreshToken = result.refresh;
+    if (!refreshToken) continue;
+
+    const identity = result.identity;
+    const userId = identity?.userId ?? extractKimiUserIdFromJwt(refreshToken);
+
+    const existingIndex = indexByRefreshToken.get(refreshToken);
+    if (existingIndex !== undefined) {
+      const existing = accounts[existingIndex];
+      if (!existing) continue;
+      accounts[existingIndex] = {
+        ...existing,
+        ...identityFields(existing, userId, identity),
+        refreshToken,
+        lastUsed: now,
+        enabled: existing.enabled !== false,
+        fingerprint: existing.fingerprint ?? generateFingerprint(),
+      };
+      if (userId) {
+        indexByUserId.set(userId, existingIndex);
+      }
+      continue;
+    }
+
+    // If the refresh token rotated, merge by user id to keep stable account pools.
+    if (userId) {
+      const byUserIndex = indexByUserId.get(userId);
+      if (byUserIndex !== undefined) {
+        const existing = accounts[byUserIndex];
+        if (existing) {
+          if (existing.refreshToken) {
+            indexByRefreshToken.delete(existing.refreshToken);
+          }
+          const updated: AccountMetadataV3 = {
+            ...existing,
+            ...identityFields(existing, userId, identity),
+            refreshToken,
+            refreshTokenUpdatedAt: now,
+            lastUsed: now,
+            enabled: true,
+            fingerprint: existing.fingerprint ?? generateFingerprint(),
+          };
+          accounts[byUserIndex] = updated;
+          indexByRefreshToken.set(refreshToken, byUserIndex);
+          indexByUserId.set(userId, byUserIndex);
+          continue;
+        }
+      }
+    }
+
+    const newIndex = accounts.length;
+    indexByRefreshToken.set(refreshToken, newIndex);
+    if (userId) {
+      indexByUserId.set(userId, newIndex);
+    }
+    accounts.push({
+      id: randomUUID(),
+      userId,
+      displayName: identity?.displayName,
+      email: identity?.email,
+      refreshToken,
+      refreshTokenUpdatedAt: now,
+      addedAt: now,
+      lastUsed: now,
+      enabled: true,
+      fingerprint: generateFingerprint(),
+    });
+  }
+
+  const activeIndex =
+    replaceAll
+      ? 0
+      : typeof stored?.activeIndex === "number" && Number.isFinite(stored.activeIndex)
+        ? stored.activeIndex
+        : 0;
+
+  const storedActiveIndex = stored?.activeAccountId
+    ? accounts.findIndex((acc) => acc.id === stored.activeAccountId)
+    : -1;
+  const clampedActiveIndex =
+    storedActiveIndex >= 0 ? storedActiveIndex : Math.max(0, Math.min(activeIndex, accounts.length - 1));
+  const activeAccountId = accounts[clampedActiveIndex]?.id;
+
+  return {
+    version: 1,
+    accounts,
+    activeIndex: clampedActiveIndex,
+    activeIndexByFamily: {
+      kimi: clampedActiveIndex,
+    },
+    activeAccountId,
+    activeAccountIdByFamily: {
+      kimi: activeAccountId,
+    },
+  };
+}
+
+/**
+ * Outcome of importing one refresh token. `position` is 1-based in input order.
+ */
+export type RefreshTokenImportResult =
+  | { position: number; token: string; status: "imported"; userId?: string }
+  | { position: number; token: string; status: "duplicate"; userId?: string }
+  | { position: number; token: string; status: "failed"; error: string };
+
+/**
+ * Split refresh-token input (stdin, file or env) into tokens: one per line
+ * or whitespace-separated, ignoring blank lines and `#` comments.
+ */
+export function parseRefreshTokenInput(input: string): string[] {
+  return input
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*$/, "").trim())
+    .flatMap((line) => (line ? line.split(/\s+/) : []));
+}
+
+/**
+ * Abbreviated token for error messages; never log full tokens.
+ */
+export function maskToken(token: string): string {
+  return token.length <= 12 ? "***" : `${token.slice(0, 4)}…${token.slice(-4)}`;
+}
+
+/**
+ * Validate refresh tokens against the token endpoint and add the valid ones
+ * to the pool. Kimi may rotate the refresh token on use, so the token returned
+ * by the refresh grant is the one persisted.
+ *
+ * Tokens that resolve to the same user as an earlier token in the input are
+ * reported as duplicates. Failures do not stop the remaining tokens.
+ */
+export async function importRefreshTokens(
+  tokens: string[],
+  options: { replaceAll?: boolean } = {},
+): Promise<RefreshTokenImportResult[]> {
+  const results: RefreshTokenImportResult[] = [];
+  const validated: Array<{ position: number; token: string; refresh: string; userId?: string; lastUsed: number }> = [];
+
+  for (const [i, token] of tokens.entries()) {
+    const position = i + 1;
+    try {
+      const refreshed = await refreshAccessToken({ type: "oauth", refresh: token, access: "", expires: 0 });
+      if (!refreshed?.access) {
+        results.push({ position, token, status: "failed", error: "Token refresh failed (network error or malformed response)" });
+        continue;
+      }
+      validated.push({
+        position,
+        token,
+        refresh: refreshed.refresh,
+        userId: extractKimiUserIdFromJwt(refreshed.refresh) ?? extractKimiUserIdFromJwt(refreshed.access),
+        // Later input wins when two tokens belong to the same user.
+        lastUsed: position,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      results.push({ position, token, status: "failed", error: message });
+    }
+  }
+
+  const unique = new Set(deduplicateAccountsByIdentity(validated));
+  for (const entry of validated) {
+    results.push({
+      position: entry.position,
+      token: entry.token,
+      status: unique.has(entry) ? "imported" : "duplicate",
+      userId: entry.userId,
+    });
+  }
+  results.sort((a, b) => a.position - b.position);
+
+  const toPersist = validated.filter((entry) => unique.has(entry));
+  if (toPersist.length > 0) {
+    await persistAccountPool(toPersist.map((entry) => ({ refresh: entry.refresh, identity: { userId: entry.userId } })), options.replaceAll ?? false);
+  }
+
+  log.info("Imported refresh tokens", {
+    imported: toPersist.length,
+    failed: results.filter((r) => r.status === "failed").length,
+  });
+  return results;
+}
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import {
+  ACCOUNT_STORE_COMMAND_ENV,
+  ACCOUNT_STORE_ENV,
+  ACCOUNTS_JSON_ENV,
+  resolveAccountStoreKind,
+} from "./account-store";
+import { clearAccounts, getAccountStore, loadAccounts, saveAccounts, type AccountStorage } from "./storage";
+
+const POOL: AccountStorage = {
+  version: 1,
+  accounts: [{ refreshToken: "store-refresh-token", email: "store@example.com", addedAt: 1, lastUsed: 2 }],
+  activeIndex: 0,
+};
+
+describe("account store backends", () => {
+  let tempDir: string;
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    for (const key of ["OPENCODE_CONFIG_DIR", ACCOUNT_STORE_ENV, ACCOUNTS_JSON_ENV, ACCOUNT_STORE_COMMAND_ENV]) {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "kimicode-account-store-test-"));
+    process.env.OPENCODE_CONFIG_DIR = tempDir;
+  });
+
+  afterEach(() => {
+    for (const [key, value] of Object.entries(savedEnv)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("resolves the backend from the environment", () => {
+    expect(resolveAccountStoreKind()).toBe("file");
+
+    process.env[ACCOUNTS_JSON_ENV] = "{}";
+    expect(resolveAccountStoreKind()).toBe("env");
+
+    process.env[ACCOUNT_STORE_COMMAND_ENV] = "true";
+    expect(resolveAccountStoreKind()).toBe("command");
+
+    process.env[ACCOUNT_STORE_ENV] = "file";
+    expect(resolveAccountStoreKind()).toBe("file");
+  });
+
+  it("loads the pool from a raw JSON environment variable", async () => {
+    process.env[ACCOUNTS_JSON_ENV] = JSON.stringify(POOL);
+
+    const loaded = await loadAccounts();
+
+    expect(loaded?.accounts[0]?.refreshToken).toBe("store-refresh-token");
+    expect(fs.existsSync(path.join(tempDir, "kimicode-accounts.json"))).toBe(false);
+  });
+
+  it("gives env pool accounts the same id in every process", async () => {
+    const blob = JSON.stringify(POOL);
+    process.env[ACCOUNTS_JSON_ENV] = blob;
+    const first = (await loadAccounts())?.accounts[0]?.id;
+
+    // A new process starts from the unchanged variable.
+    process.env[ACCOUNTS_JSON_ENV] = blob;
+    const second = (await loadAccounts())?.accounts[0]?.id;
+
+    expect(first).toMatch(/^[0-9a-f-]{36}$/);
+    expect(second).toBe(first);
+  });
+
+  it("loads the pool from a base64 environment variable and keeps updates in memory", async () => {
+    process.env[ACCOUNTS_JSON_ENV] = Buffer.from(JSON.stringify(POOL)).toString("base64");
+
+    await saveAccounts({
+      ...POOL,
+      accounts: [{ refreshToken: "second-refresh-token", email: "second@example.com", addedAt: 3, lastUsed: 3 }],
+    });
+
+    expect(getAccountStore().kind).toBe("env");
+    const loaded = await loadAccounts();
+    expect(loaded?.accounts.map((a) => a.refreshToken)).toEqual(["store-refresh-token", "second-refresh-token"]);
+    expect(fs.existsSync(path.join(tempDir, "kimicode-accounts.json"))).toBe(false);
+  });
+
+  it("reads and writes through an external command", async () => {
+    const blobPath = path.join(tempDir, "blob.json");
+    const scriptPath = path.join(tempDir, "store.sh");
+    fs.writeFileSync(
+      scriptPath,
+      [
+        "#!/bin/sh",
+        `BLOB='${blobPath}'`,
+        'case "$1" in',
+        '  get) [ -f "$BLOB" ] && cat "$BLOB"; exit 0 ;;',
+        '  put) cat > "$BLOB" ;;',
+        '  clear) rm -f "$BLOB" ;;',
+        "  *) exit 2 ;;",
+        "esac",
+      ].join("\n"),
+      { mode: 0o755 },
+    );
+    process.env[ACCOUNT_STORE_COMMAND_ENV] = scriptPath;
+
+    expect(await loadAccounts()).toBeNull();
+
+    await saveAccounts(POOL);
+    expect(JSON.parse(fs.readFileSync(blobPath, "utf-8")).accounts[0].email).toBe("store@example.com");
+    expect((await loadAccounts())?.accounts[0]?.refreshToken).toBe("store-refresh-token");
+
+    await clearAccounts();
+    expect(fs.existsSync(blobPath)).toBe(false);
+  });
+
+  it("surfaces command failures instead of treating them as an empty pool", async () => {
+    process.env[ACCOUNT_STORE_COMMAND_ENV] = "echo 'vault sealed' >&2; exit 3; :";
+
+    await expect(saveAccounts(POOL)).rejects.toThrow(/vault sealed/);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Account store backends.
+ *
+ * `loadAccounts` / `saveAccounts` / `clearAccounts` in storage.ts work on a
+ * serialized blob (plain JSON or an encrypted envelope) and delegate where
+ * that blob lives to an AccountStore:
+ *
+ * - `file` (default): kimicode-accounts.json in the config dir (storage.ts)
+ * - `env`: a JSON blob in OPENCODE_KIMICODE_ACCOUNTS_JSON, for CI runners
+ * - `command`: a user script that gets/puts the blob
+ *
+ * Backend selection: OPENCODE_KIMICODE_ACCOUNT_STORE=file|env|command.
+ * When unset, a configured command or accounts blob selects its backend.
+ */
+
+import { spawn } from "node:child_process";
+import { createLogger } from "./logger";
+
+const log = createLogger("account-store");
+
+export const ACCOUNT_STORE_ENV = "OPENCODE_KIMICODE_ACCOUNT_STORE";
+export const ACCOUNTS_JSON_ENV = "OPENCODE_KIMICODE_ACCOUNTS_JSON";
+export const ACCOUNT_STORE_COMMAND_ENV = "OPENCODE_KIMICODE_ACCOUNT_STORE_COMMAND";
+
+export type AccountStoreKind = "file" | "env" | "command";
+
+/**
+ * Where the serialized account pool is kept.
+ */
+export interface AccountStore {
+  readonly kind: AccountStoreKind;
+
+  /** Read the stored blob, or null when nothing is stored yet. */
+  read(): Promise<string | null>;
+
+  /** Replace the stored blob. */
+  write(content: string): Promise<void>;
+
+  /** Remove the stored pool. */
+  clear(): Promise<void>;
+
+  /** Run a read-modify-write sequence with exclusive access to the store. */
+  withLock<T>(fn: () => Promise<T>): Promise<T>;
+
+  /** Human-readable location, for CLI output and logs. */
+  describe(): string;
+}
+
+/**
+ * Serializes lock holders within this process. Backends without a shared
+ * medium to lock (env, command) rely on this alone.
+ */
+export function createProcessLock(): <T>(fn: () => Promise<T>) => Promise<T> {
+  let tail: Promise<unknown> = Promise.resolve();
+  return <T>(fn: () => Promise<T>): Promise<T> => {
+    const run = tail.then(fn, fn);
+    tail = run.catch(() => {});
+    return run;
+  };
+}
+
+// =============================================================================
+// Environment blob
+// =============================================================================
+
+/**
+ * Reads the pool from an environment variable holding the storage JSON
+ * (raw or base64-encoded). Writes only update this process's environment:
+ * rotated refresh tokens are not persisted anywhere else.
+ */
+export class EnvAccountStore implements AccountStore {
+  readonly kind = "env" as const;
+  private readonly lock = createProcessLock();
+  private warnedAboutWrites = false;
+
+  constructor(private readonly variable: string = ACCOUNTS_JSON_ENV) {}
+
+  async read(): Promise<string | null> {
+    const raw = process.env[this.variable]?.trim();
+    if (!raw) return null;
+    if (raw.startsWith("{")) return raw;
+    return Buffer.from(raw, "base64").toString("utf8");
+  }
+
+  async write(content: string): Promise<void> {
+    process.env[this.variable] = content;
+    if (!this.warnedAboutWrites) {
+      this.warnedAboutWrites = true;
+      log.warn("Account pool updates are kept in memory only (env account store)", { variable: this.variable });
+    }
+  }
+
+  async clear(): Promise<void> {
+    delete process.env[this.variable];
+  }
+
+  withLock<T>(fn: () => Promise<T>): Promise<T> {
+    return this.lock(fn);
+  }
+
+  describe(): string {
+    return `$${this.variable}`;
+  }
+}
+
+// =============================================================================
+// External command
+// =============================================================================
+
+const COMMAND_TIMEOUT_MS = 30_000;
+
+/**
+ * Delegates storage to a user script, run through the shell as:
+ * - `<command> get`: print the blob on stdout (print nothing if empty)
+ * - `<command> put`: read the blob from stdin and store it
+ * - `<command> clear`: delete the stored blob
+ *
+ * A non-zero exit status is treated as a failure.
+ */
+export class CommandAccountStore implements AccountStore {
+  readonly kind = "command" as const;
+  private readonly lock = createProcessLock();
+
+  constructor(private readonly command: string) {}
+
+  async read(): Promise<string | null> {
+    const output = await this.run("get");
+    return output.trim() ? output : null;
+  }
+
+  async write(content: string): Promise<void> {
+    await this.run("put", content);
+  }
+
+  async clear(): Promise<void> {
+    await this.run("clear");
+  }
+
+  withLock<T>(fn: () => Promise<T>): Promise<T> {
+    return this.lock(fn);
+  }
+
+  describe(): string {
+    return `command: ${this.command}`;
+  }
+
+  private run(action: "get" | "put" | "clear", input?: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(`${this.command} ${action}`, {
+        shell: true,
+        stdio: ["pipe", "pipe", "pipe"],
+        timeout: COMMAND_TIMEOUT_MS,
+      });
+
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+      child.stdout.on("data", (chunk: Buffer) => stdout.push(chunk));
+      child.stderr.on("data", (chunk: Buffer) => stderr.push(chunk));
+      child.on("error", reject);
+      child.on("close", (code, signal) => {
+        if (code === 0) {
+          resolve(Buffer.concat(stdout).toString("utf8"));
+          return;
+        }
+        const details = Buffer.concat(stderr).toString("utf8").trim().slice(0, 500);
+        reject(new Error(
+          `Account store command '${action}' failed (${signal ?? `exit ${code}`})${details ? `: ${details}` : ""}`,
+        ));
+      });
+
+      child.stdin.on("error", () => {
+        // The command may exit without reading stdin; its exit status is what matters.
+      });
+      child.stdin.end(input ?? "");
+    });
+  }
+}
+
+/**
+ * Resolve the configured backend kind from the environment.
+ */
+export function resolveAccountStoreKind(): AccountStoreKind {
+  const explicit = process.env[ACCOUNT_STORE_ENV]?.trim().toLowerCase();
+  if (explicit === "file" || explicit === "env" || explicit === "command") {
+    return explicit;
+  }
+  if (explicit) {
+    log.warn("Unknown account store, using file", { value: explicit });
+    return "file";
+  }
+  if (process.env[ACCOUNT_STORE_COMMAND_ENV]) return "command";
+  if (process.env[ACCOUNTS_JSON_ENV]) return "env";
+  return "file";
+}
@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { runAccountsCli } from "./accounts-cli";
+import type { AccountStorage } from "./storage";
+
+describe("runAccountsCli", () => {
+  let tempDir: string;
+  let originalConfigDir: string | undefined;
+  let stdout: string[];
+  let stderr: string[];
+
+  const io = {
+    stdout: (line: string) => stdout.push(line),
+    stderr: (line: string) => stderr.push(line),
+  };
+
+  beforeEach(() => {
+    originalConfigDir = process.env.OPENCODE_CONFIG_DIR;
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "kimicode-accounts-cli-test-"));
+    process.env.OPENCODE_CONFIG_DIR = tempDir;
+    stdout = [];
+    stderr = [];
+
+    const now = Date.now();
+    writeStorage({
+      version: 1,
+      accounts: [
+        { refreshToken: "cli-a", email: "a@example.com", addedAt: 1, lastUsed: 0 },
+        {
+          refreshToken: "cli-b",
+          email: "b@example.com",
+          addedAt: 2,
+          lastUsed: 0,
+          coolingDownUntil: now + 60_000,
+          cooldownReason: "network-error",
+          rateLimitResetTimes: { kimi: now + 60_000 },
+        },
+        { refreshToken: "cli-c", addedAt: 3, lastUsed: 0, enabled: false },
+      ],
+      activeIndex: 0,
+      activeIndexByFamily: { kimi: 0 },
+    });
+  });
+
+  afterEach(() => {
+    if (originalConfigDir === undefined) {
+      delete process.env.OPENCODE_CONFIG_DIR;
+    } else {
+      process.env.OPENCODE_CONFIG_DIR = originalConfigDir;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function writeStorage(storage: AccountStorage): void {
+    fs.writeFileSync(path.join(tempDir, "kimicode-accounts.json"), JSON.stringify(storage));
+  }
+
+  function readStorage(): AccountStorage {
+    return JSON.parse(fs.readFileSync(path.join(tempDir, "kimicode-accounts.json"), "utf-8"));
+  }
+
+  it("lists accounts with status and the current marker", async () => {
+    expect(await runAccountsCli(["list"], io)).toBe(0);
+    expect(stdout).toEqual([
+      "1. a@example.com [active] [current]",
+      "2. b@example.com [cooling-down]",
+      "3. Account 3 [disabled]",
+    ]);
+  });
+
+  it("prints JSON without refresh tokens", async () => {
+    expect(await runAccountsCli(["show", "--json"], io)).toBe(0);
+    const output = stdout.join("\n");
+    const parsed = JSON.parse(output);
+
+    expect(parsed).toHaveLength(3);
+    expect(parsed[1]).toMatchObject({ number: 2, email: "b@example.com", status: "cooling-down", cooldownReason: "network-error" });
+    expect(output).not.toContain("cli-a");
+  });
+
+  it("enables, disables and labels accounts", async () => {
+    expect(await runAccountsCli(["enable", "3"], io)).toBe(0);
+    expect(await runAccountsCli(["disable", "1"], io)).toBe(0);
+    expect(await runAccountsCli(["label", "2", "work", "laptop"], io)).toBe(0);
+
+    const accounts = readStorage().accounts;
+    expect(accounts.map((a) => a.enabled)).toEqual([false, true, true]);
+    expect(accounts[1]?.label).toBe("work laptop");
+
+    stdout = [];
+    await runAccountsCli(["list"], io);
+    expect(stdout[1]).toBe("2. work laptop (b@example.com) [cooling-down] [current]");
+  });
+
+  it("removes and reorders accounts without merging them back", async () => {
+    expect(await runAccountsCli(["remove", "1"], io)).toBe(0);
+    expect(readStorage().accounts.map((a) => a.refreshToken)).toEqual(["cli-b", "cli-c"]);
+
+    expect(await runAccountsCli(["reorder", "2", "1"], io)).toBe(0);
+    expect(readStorage().accounts.map((a) => a.refreshToken)).toEqual(["cli-c", "cli-b"]);
+  });
+
+  it("keeps the current account selected across a reorder", async () => {
+    await runAccountsCli(["reorder", "1", "3"], io);
+
+    const storage = readStorage();
+    expect(storage.accounts.map((a) => a.refreshToken)).toEqual(["cli-b", "cli-c", "cli-a"]);
+    expect(storage.activeIndex).toBe(2);
+  });
+
+  it("sets account tiers", async () => {
+    expect(await runAccountsCli(["tier", "2", "1", "3"], io)).toBe(0);
+    expect(await runAccountsCli(["tier", "1", "-1"], io)).toBe(0);
+    expect(await runAccountsCli(["tier", "3", "1", "0"], io)).toBe(1);
+
+    expect(readStorage().accounts.map((a) => [a.priority, a.weight])).toEqual([[-1, 1], [1, 3], [undefined, undefined]]);
+    expect(stderr).toEqual(["Weight must be a whole number from 1 to 100."]);
+  });
+
+  it("clears cooldown and rate-limit state", async () => {
+    expect(await runAccountsCli(["clear-cooldown", "all"], io)).toBe(0);
+
+    const account = readStorage().accounts[1];
+    expect(account?.coolingDownUntil).toBeUndefined();
+    expect(account?.rateLimitResetTimes).toBeUndefined();
+  });
+
+  it("rejects invalid account numbers and unknown commands", async () => {
+    expect(await runAccountsCli(["disable", "9"], io)).toBe(1);
+    expect(await runAccountsCli(["frobnicate"], io)).toBe(1);
+    expect(stderr).toEqual([
+      "Invalid account number '9'. Expected 1-3.",
+      "Unknown command 'frobnicate'. Run 'kimicode-accounts help' for usage.",
+    ]);
+  });
+
+  it("summarizes recorded usage by account position and label", async () => {
+    const totals = { requests: 2, promptTokens: 1000, completionTokens: 50, cachedTokens: 750 };
+    fs.writeFileSync(
+      path.join(tempDir, "kimicode-usage.json"),
+      JSON.stringify({
+        version: 1,
+        days: {
+          [new Date().toISOString().slice(0, 10)]: {
+            accounts: { "b@example.com": totals },
+            models: { "kimicode-kimi-k2.5": totals },
+            sessions: { ses_1: totals },
+          },
+        },
+      }),
+    );
+
+    expect(await runAccountsCli(["usage"], io)).toBe(0);
+    expect(stdout).toContain("  2. b@example.com: 2 req, 1,000 prompt (75% cached), 50 completion");
+    expect(stdout).toContain("  ses_1: 2 req, 1,000 prompt (75% cached), 50 completion");
+
+    expect(await runAccountsCli(["usage", "--days", "0"], io)).toBe(1);
+    expect(stderr).toEqual(["--days must be a whole number from 1 to 30."]);
+  });
+
+  describe("import", () => {
+    function fakeJwt(userId: string, nonce: string): string {
+      const payload = Buffer.from(JSON.stringify({ user_id: userId, nonce })).toString("base64url");
+      return `eyJhbGciOiJub25lIn0.${payload}.sig`;
+    }
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("validates tokens, persists rotated tokens and reports per-token errors", async () => {
+      const good = fakeJwt("user-import-1", "a");
+      const sameUser = fakeJwt("user-import-1", "b");
+      const other = fakeJwt("user-import-2", "c");
+      const revoked = "revoked-refresh-token";
+
+      vi.stubGlobal("fetch", vi.fn(async (_url: string, init: RequestInit) => {
+        const token = new URLSearchParams(String(init.body)).get("refresh_token")!;
+        if (token === revoked) {
+          return new Response(JSON.stringify({ error: "invalid_grant", error_description: "revoked" }), {
+            status: 401,
+            statusText: "Unauthorized",
+          });
+        }
+        return new Response(JSON.stringify({
+          access_token: "access",
+          expires_in: 3600,
+          refresh_token: `${token}-rotated`,
+        }));
+      }));
+
+      const code = await runAccountsCli(["import", "--replace"], {
+        ...io,
+        readStdin: async () => `# CI pool\n${good}\n\n${revoked}\n${sameUser} ${other}\n`,
+      });
+
+      expect(code).toBe(1);
+      expect(stderr).toHaveLength(1);
+      expect(stderr[0]).toMatch(/^Token 2 \(revo…oken\): Kimi token refresh failed \(401 Unauthorized\) - invalid_grant: revoked$/);
+      expect(stdout).toContain("Imported 2 of 4 token(s).");
+      expect(stdout.join("\n")).not.toContain(good);
+
+      const stored = readStorage();
+      expect(stored.accounts.map((a) => a.refreshToken)).toEqual([`${sameUser}-rotated`, `${other}-rotated`]);
+      expect(stored.accounts.map((a) => a.userId)).toEqual(["user-import-1", "user-import-2"]);
+    });
+
+    it("reads tokens from an environment variable and merges into the pool", async () => {
+      vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({ access_token: "access", expires_in: 3600 }))));
+      process.env.KIMICODE_TEST_IMPORT_TOKENS = "env-import-token";
+
+      try {
+        expect(await runAccountsCli(["import", "--env", "KIMICODE_TEST_IMPORT_TOKENS"], io)).toBe(0);
+      } finally {
+        delete process.env.KIMICODE_TEST_IMPORT_TOKENS;
+      }
+
+      expect(readStorage().accounts.map((a) => a.refreshToken)).toEqual(["cli-a", "cli-b", "cli-c", "env-import-token"]);
+      expect(await runAccountsCli(["import", "--env", "KIMICODE_TEST_IMPORT_TOKENS"], io)).toBe(1);
+      expect(stderr.at(-1)).toContain("is empty or not set");
+    });
+  });
+});
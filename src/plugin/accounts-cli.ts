@@ -0,0 +1,428 @@
+/**
+ * Account pool management commands (`kimicode-accounts`).
+ *
+ * Scriptable alternative to the `opencode auth login` menu for maintaining
+ * kimicode-accounts.json. Accounts are addressed by their 1-based position,
+ * matching the numbering used in the login menu, or by their persistent id.
+ *
+ * Every mutating command re-reads the pool and rewrites it without merging,
+ * under the storage lock (see AccountManager.updateOnDisk), so that removals,
+ * reorders and cleared cooldowns are not merged back from disk and tokens a
+ * running OpenCode rotates meanwhile are not overwritten.
+ */
+
+import { readFile } from "node:fs/promises";
+
+import { importRefreshTokens, maskToken, parseRefreshTokenInput } from "./account-pool";
+import { AccountManager, type ManagedAccount } from "./accounts";
+import type { AccountStatus } from "./cli";
+import { formatAccountLabel, getAccountIdentityKey } from "./identity";
+import { MAX_ACCOUNT_WEIGHT, getAccountPriority, getAccountWeight } from "./rotation";
+import { getAccountStore } from "./storage";
+import { USAGE_RETENTION_DAYS, loadUsage, summarizeUsage, type UsageTotals } from "./usage";
+
+export interface AccountsCliIO {
+  stdout: (line: string) => void;
+  stderr: (line: string) => void;
+  /** Read all of standard input (used by `import`). */
+  readStdin?: () => Promise<string>;
+}
+
+async function readProcessStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+const DEFAULT_IO: AccountsCliIO = {
+  stdout: (line) => console.log(line),
+  stderr: (line) => console.error(line),
+  readStdin: readProcessStdin,
+};
+
+function usage(storageLocation: string): string {
+  return `Usage: kimicode-accounts <command> [args]
+
+Commands:
+  list                         List accounts with their status
+  show [n] [--json]            Show account details (all accounts if n is omitted)
+  enable <n>                   Enable account n
+  disable <n>                  Disable account n
+  remove <n>                   Remove account n from the pool
+  reorder <from> <to>          Move account <from> to position <to>
+  label <n> [text]             Set a label for account n (omit text to clear)
+  tier <n> <priority> [weight] Set account n's priority tier (higher is used first) and weight
+  clear-cooldown <n|all>       Clear cooldown and rate-limit state
+  import [--file <path> | --env <VAR>] [--replace]
+                               Import refresh tokens (one per line; stdin by default)
+  usage [--days <n>] [--json]  Token usage per account, model and session (default: 7 days)
+
+Accounts are numbered from 1, as shown by \`list\`; <n> also accepts an account id (see \`show\`).
+Storage: ${storageLocation}`;
+}
+
+/**
+ * Error for invalid command usage; reported without a stack trace.
+ */
+export class AccountsCliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AccountsCliError";
+  }
+}
+
+function parseAccountNumber(value: string | undefined, manager: AccountManager): number {
+  const count = manager.getTotalAccountCount();
+  const parsed = value !== undefined && /^\d+$/.test(value) ? Number(value) : NaN;
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > count) {
+    throw new AccountsCliError(
+      count === 0
+        ? "No accounts saved."
+        : `Invalid account number '${value ?? ""}'. Expected 1-${count}.`,
+    );
+  }
+  return parsed - 1;
+}
+
+/**
+ * Resolve an account given by 1-based number or by id.
+ */
+function resolveAccount(value: string | undefined, manager: AccountManager): ManagedAccount {
+  const byId = manager.getAccountById(value);
+  if (byId) {
+    return byId;
+  }
+  return manager.getAccounts()[parseAccountNumber(value, manager)]!;
+}
+
+function getAccountStatus(manager: AccountManager, account: ManagedAccount, now: number): AccountStatus {
+  if (!account.enabled && account.cooldownReason === "auth-failure") return "expired";
+  if (!account.enabled) return "disabled";
+  if (manager.isAccountCoolingDown(account)) return "cooling-down";
+  const rateLimited = Object.values(account.rateLimitResetTimes).some(
+    (resetTime) => typeof resetTime === "number" && resetTime > now,
+  );
+  return rateLimited ? "rate-limited" : "active";
+}
+
+function describeAccount(account: ManagedAccount): string {
+  const name = formatAccountLabel(account);
+  const identity = account.email || account.displayName || account.userId;
+  return account.label && identity ? `${name} (${identity})` : name;
+}
+
+async function readImportInput(args: string[], io: AccountsCliIO): Promise<string> {
+  const fileIndex = args.indexOf("--file");
+  const envIndex = args.indexOf("--env");
+  if (fileIndex !== -1 && envIndex !== -1) {
+    throw new AccountsCliError("Use either --file or --env, not both.");
+  }
+
+  if (fileIndex !== -1) {
+    const file = args[fileIndex + 1];
+    if (!file) throw new AccountsCliError("--file requires a path.");
+    try {
+      return await readFile(file, "utf-8");
+    } catch (error) {
+      throw new AccountsCliError(`Cannot read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (envIndex !== -1) {
+    const variable = args[envIndex + 1];
+    if (!variable) throw new AccountsCliError("--env requires a variable name.");
+    const value = process.env[variable];
+    if (!value?.trim()) throw new AccountsCliError(`Environment variable ${variable} is empty or not set.`);
+    return value;
+  }
+
+  if (!io.readStdin) throw new AccountsCliError("No input: pass --file or --env.");
+  return io.readStdin();
+}
+
+function formatTime(ms: number | undefined): string | undefined {
+  return ms && ms > 0 ? new Date(ms).toISOString() : undefined;
+}
+
+/**
+ * JSON-safe view of an account. Tokens are never printed.
+ */
+function toAccountSummary(manager: AccountManager, account: ManagedAccount, currentId: string | undefined, now: number) {
+  const rateLimitedUntil = Object.values(account.rateLimitResetTimes)
+    .filter((t): t is number => typeof t === "number" && t > now);
+
+  return {
+    number: account.index + 1,
+    id: account.id,
+    label: account.label,
+    priority: getAccountPriority(account),
+    weight: getAccountWeight(account),
+    displayName: account.displayName,
+    email: account.email,
+    userId: account.userId,
+    status: getAccountStatus(manager, account, now),
+    enabled: account.enabled,
+    current: account.id === currentId,
+    addedAt: formatTime(account.addedAt),
+    lastUsed: formatTime(account.lastUsed),
+    coolingDownUntil: manager.isAccountCoolingDown(account) ? formatTime(account.coolingDownUntil) : undefined,
+    cooldownReason: manager.isAccountCoolingDown(account) ? account.cooldownReason : undefined,
+    rateLimitedUntil: rateLimitedUntil.length > 0 ? formatTime(Math.max(...rateLimitedUntil)) : undefined,
+    quotaRemainingPercent:
+      account.cachedQuota?.kimi?.remainingFraction !== undefined
+        ? Math.round(account.cachedQuota.kimi.remainingFraction * 100)
+        : undefined,
+  };
+}
+
+/** Sessions listed by `usage`; the rest are summed into one line. */
+const MAX_USAGE_SESSIONS = 10;
+
+function parseUsageDays(args: string[]): number {
+  const flag = args.indexOf("--days");
+  if (flag === -1) return 7;
+  const days = Number(args[flag + 1]);
+  if (!Number.isInteger(days) || days < 1 || days > USAGE_RETENTION_DAYS) {
+    throw new AccountsCliError(`--days must be a whole number from 1 to ${USAGE_RETENTION_DAYS}.`);
+  }
+  return days;
+}
+
+function formatUsageTotals(totals: UsageTotals): string {
+  const cachedPercent = totals.promptTokens > 0 ? Math.round((totals.cachedTokens / totals.promptTokens) * 100) : 0;
+  return (
+    `${totals.requests} req, ${totals.promptTokens.toLocaleString("en-US")} prompt ` +
+    `(${cachedPercent}% cached), ${totals.completionTokens.toLocaleString("en-US")} completion`
+  );
+}
+
+function byTokenVolume(entries: Record<string, UsageTotals>): Array<[string, UsageTotals]> {
+  return Object.entries(entries).sort(([, a], [, b]) => b.promptTokens + b.completionTokens - (a.promptTokens + a.completionTokens));
+}
+
+/**
+ * Run a `kimicode-accounts` command.
+ *
+ * @param argv - Arguments after the executable name
+ * @returns Process exit code
+ */
+export async function runAccountsCli(argv: string[], io: AccountsCliIO = DEFAULT_IO): Promise<number> {
+  const [command, ...args] = argv;
+
+  if (!command || command === "help" || command === "--help" || command === "-h") {
+    io.stdout(usage(getAccountStore().describe()));
+    return command ? 0 : 1;
+  }
+
+  try {
+    if (command === "import") {
+      const tokens = parseRefreshTokenInput(await readImportInput(args, io));
+      if (tokens.length === 0) {
+        throw new AccountsCliError("No refresh tokens found in input.");
+      }
+
+      const results = await importRefreshTokens(tokens, { replaceAll: args.includes("--replace") });
+      for (const result of results) {
+        const prefix = `Token ${result.position} (${maskToken(result.token)})`;
+        if (result.status === "failed") {
+          io.stderr(`${prefix}: ${result.error}`);
+        } else if (result.status === "duplicate") {
+          io.stdout(`${prefix}: skipped, same account as a later token${result.userId ? ` (${result.userId})` : ""}`);
+        } else {
+          io.stdout(`${prefix}: imported${result.userId ? ` (${result.userId})` : ""}`);
+        }
+      }
+
+      const failed = results.filter((result) => result.status === "failed").length;
+      io.stdout(`Imported ${results.filter((result) => result.status === "imported").length} of ${tokens.length} token(s).`);
+      return failed > 0 ? 1 : 0;
+    }
+
+    const manager = await AccountManager.loadFromDisk();
+    const now = Date.now();
+    const currentId = manager.getCurrentAccountForFamily("kimi")?.id;
+
+    switch (command) {
+      case "list": {
+        const accounts = manager.getAccounts();
+        if (accounts.length === 0) {
+          io.stdout("No accounts saved.");
+          return 0;
+        }
+        for (const account of accounts) {
+          const status = getAccountStatus(manager, account, now);
+          const current = account.id === currentId ? " [current]" : "";
+          io.stdout(`${account.index + 1}. ${describeAccount(account)} [${status}]${current}`);
+        }
+        return 0;
+      }
+
+      case "show": {
+        const json = args.includes("--json");
+        const positional = args.filter((arg) => arg !== "--json");
+        const accounts = positional.length > 0
+          ? [resolveAccount(positional[0], manager)]
+          : manager.getAccounts();
+        const summaries = accounts.map((account) => toAccountSummary(manager, account, currentId, now));
+
+        if (json) {
+          io.stdout(JSON.stringify(positional.length > 0 ? summaries[0] : summaries, null, 2));
+          return 0;
+        }
+
+        for (const summary of summaries) {
+          io.stdout(`Account ${summary.number}${summary.current ? " (current)" : ""}`);
+          for (const [key, value] of Object.entries(summary)) {
+            if (key === "number" || key === "current" || value === undefined) continue;
+            io.stdout(`  ${key}: ${value}`);
+          }
+        }
+        return 0;
+      }
+
+      case "enable":
+      case "disable": {
+        const enabled = command === "enable";
+        const account = await AccountManager.updateOnDisk((stored) => {
+          const account = resolveAccount(args[0], stored);
+          stored.setAccountEnabled(account.id, enabled);
+          if (enabled) {
+            stored.clearAccountCooldown(account);
+          }
+          return account;
+        });
+        io.stdout(`Account ${account.index + 1} ${enabled ? "enabled" : "disabled"}.`);
+        return 0;
+      }
+
+      case "remove": {
+        const account = await AccountManager.updateOnDisk((stored) => {
+          const account = resolveAccount(args[0], stored);
+          stored.removeAccountById(account.id);
+          return account;
+        });
+        const position = account.index + 1;
+        io.stdout(`Removed account ${position} (${describeAccount(account)}).`);
+        return 0;
+      }
+
+      case "reorder": {
+        const { from, to } = await AccountManager.updateOnDisk((stored) => {
+          const account = resolveAccount(args[0], stored);
+          const from = account.index;
+          const to = parseAccountNumber(args[1], stored);
+          stored.moveAccount(account.id, to);
+          return { from, to };
+        });
+        io.stdout(`Moved account ${from + 1} to position ${to + 1}.`);
+        return 0;
+      }
+
+      case "label": {
+        const label = args.slice(1).join(" ").trim();
+        const account = await AccountManager.updateOnDisk((stored) => {
+          const account = resolveAccount(args[0], stored);
+          stored.setAccountLabel(account.id, label || undefined);
+          return account;
+        });
+        io.stdout(label ? `Account ${account.index + 1} labelled "${label}".` : `Account ${account.index + 1} label cleared.`);
+        return 0;
+      }
+
+      case "tier": {
+        const priority = Number(args[1]);
+        if (args[1] === undefined || !Number.isInteger(priority)) {
+          throw new AccountsCliError("Priority must be a whole number.");
+        }
+        const { account, weight } = await AccountManager.updateOnDisk((stored) => {
+          const account = resolveAccount(args[0], stored);
+          const weight = args[2] === undefined ? getAccountWeight(account) : Number(args[2]);
+          if (!Number.isInteger(weight) || weight < 1 || weight > MAX_ACCOUNT_WEIGHT) {
+            throw new AccountsCliError(`Weight must be a whole number from 1 to ${MAX_ACCOUNT_WEIGHT}.`);
+          }
+          stored.setAccountTier(account.id, priority, weight);
+          return { account, weight };
+        });
+        io.stdout(`Account ${account.index + 1} set to priority ${priority}, weight ${weight}.`);
+        return 0;
+      }
+
+      case "usage": {
+        const days = parseUsageDays(args);
+        const summary = summarizeUsage(await loadUsage(), days, now);
+
+        // Usage is keyed by account id (by identity before ids existed); show
+        // the account's position and label.
+        const accountNames = new Map<string, string>();
+        for (const account of manager.getAccounts()) {
+          const name = `${account.index + 1}. ${describeAccount(account)}`;
+          const identity = getAccountIdentityKey(account);
+          if (identity) accountNames.set(identity, name);
+          accountNames.set(account.id, name);
+        }
+
+        if (args.includes("--json")) {
+          io.stdout(JSON.stringify({ days, ...summary }, null, 2));
+          return 0;
+        }
+
+        if (summary.total.requests === 0) {
+          io.stdout(`No usage recorded since ${summary.since}.`);
+          return 0;
+        }
+
+        io.stdout(`Usage since ${summary.since} (UTC): ${formatUsageTotals(summary.total)}`);
+        io.stdout("Accounts:");
+        for (const [key, totals] of byTokenVolume(summary.accounts)) {
+          io.stdout(`  ${accountNames.get(key) ?? `${key} (not in pool)`}: ${formatUsageTotals(totals)}`);
+        }
+        io.stdout("Models:");
+        for (const [model, totals] of byTokenVolume(summary.models)) {
+          io.stdout(`  ${model}: ${formatUsageTotals(totals)}`);
+        }
+        const sessions = byTokenVolume(summary.sessions);
+        if (sessions.length > 0) {
+          io.stdout("Sessions:");
+          for (const [session, totals] of sessions.slice(0, MAX_USAGE_SESSIONS)) {
+            io.stdout(`  ${session}: ${formatUsageTotals(totals)}`);
+          }
+          if (sessions.length > MAX_USAGE_SESSIONS) {
+            io.stdout(`  … ${sessions.length - MAX_USAGE_SESSIONS} more`);
+          }
+        }
+        return 0;
+      }
+
+      case "clear-cooldown": {
+        const targets = await AccountManager.updateOnDisk((stored) => {
+          if (args[0] === "all" && stored.getTotalAccountCount() === 0) {
+            throw new AccountsCliError("No accounts saved.");
+          }
+          const targets = args[0] === "all"
+            ? stored.getAccounts()
+            : [resolveAccount(args[0], stored)];
+          for (const account of targets) {
+            stored.clearAccountCooldown(account);
+            account.rateLimitResetTimes = {};
+            account.consecutiveFailures = 0;
+          }
+          return targets;
+        });
+        io.stdout(`Cleared cooldowns for ${targets.length} account(s).`);
+        return 0;
+      }
+
+      default:
+        throw new AccountsCliError(`Unknown command '${command}'. Run 'kimicode-accounts help' for usage.`);
+    }
+  } catch (error) {
+    if (error instanceof AccountsCliError) {
+      io.stderr(error.message);
+      return 1;
+    }
+    io.stderr(`kimicode-accounts failed: ${error instanceof Error ? error.message : String(error)}`);
+    return 1;
+  }
+}
@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { AccountManager, calculateBackoffMs } from "./accounts";
+import { loadAccounts, saveAccountsReplace } from "./storage";
+
+function managerWithAccounts(count: number): AccountManager {
+  return new AccountManager(undefined, {
+    version: 1,
+    accounts: Array.from({ length: count }, (_, i) => ({
+      refreshToken: `refresh-${i}`,
+      addedAt: 1,
+      lastUsed: 0,
+    })),
+    activeIndex: 0,
+  });
+}
+
+describe("calculateBackoffMs", () => {
+  it("caps reason-based backoff at maxBackoffMs", () => {
+    expect(calculateBackoffMs("QUOTA_EXHAUSTED", 3)).toBe(7_200_000);
+    expect(calculateBackoffMs("QUOTA_EXHAUSTED", 3, null, 60_000)).toBe(60_000);
+    expect(calculateBackoffMs("RATE_LIMIT_EXCEEDED", 0, null, 10_000)).toBe(10_000);
+  });
+
+  it("honors an explicit retry-after even above the cap", () => {
+    expect(calculateBackoffMs("RATE_LIMIT_EXCEEDED", 0, 120_000, 60_000)).toBe(120_000);
+  });
+});
+
+describe("AccountManager.markRateLimitedWithReason", () => {
+  it("applies the configured backoff ceiling as failures accumulate", () => {
+    const manager = managerWithAccounts(1);
+    const account = manager.getAccounts()[0]!;
+
+    const backoffs = [0, 1, 2, 3].map(() =>
+      manager.markRateLimitedWithReason(account, "kimi", "kimi-cli", undefined, "QUOTA_EXHAUSTED", null, 3600_000, 90_000),
+    );
+
+    expect(backoffs).toEqual([60_000, 90_000, 90_000, 90_000]);
+    expect(account.consecutiveFailures).toBe(4);
+  });
+});
+
+describe("AccountManager.syncFromStorage", () => {
+  it("applies external additions, removals and settings but keeps rate-limit state", () => {
+    const manager = managerWithAccounts(3);
+    const [first, second, third] = manager.getAccounts();
+    manager.markSwitched(third!, "initial", "kimi");
+    manager.markRateLimitedWithReason(third!, "kimi", "kimi-cli", undefined, "QUOTA_EXHAUSTED", null);
+    const resetTimes = { ...third!.rateLimitResetTimes };
+
+    const result = manager.syncFromStorage({
+      version: 1,
+      accounts: [
+        { refreshToken: "refresh-2", addedAt: 1, lastUsed: 0, label: "work" },
+        { refreshToken: "refresh-0", addedAt: 1, lastUsed: 0, enabled: false },
+        { refreshToken: "refresh-new", addedAt: 2, lastUsed: 0 },
+      ],
+      activeIndex: 0,
+    });
+
+    expect(result).toEqual({ added: 1, removed: 1, updated: 2 });
+    expect(manager.getAccounts().map((a) => a.parts.refreshToken)).toEqual(["refresh-2", "refresh-0", "refresh-new"]);
+    expect(manager.getAccounts().includes(second!)).toBe(false);
+    expect(third).toMatchObject({ index: 0, label: "work", rateLimitResetTimes: resetTimes });
+    expect(first).toMatchObject({ index: 1, enabled: false });
+    expect(manager.getCurrentAccountForFamily("kimi")).toBe(third);
+  });
+
+  it("is a no-op when storage matches the pool", () => {
+    const manager = managerWithAccounts(2);
+    expect(manager.syncFromStorage(manager.toStorage())).toEqual({ added: 0, removed: 0, updated: 0 });
+  });
+});
+
+describe("AccountManager.saveToDisk", () => {
+  let tempDir: string;
+  let originalConfigDir: string | undefined;
+
+  beforeEach(() => {
+    originalConfigDir = process.env.OPENCODE_CONFIG_DIR;
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "kimicode-accounts-test-"));
+    process.env.OPENCODE_CONFIG_DIR = tempDir;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    if (originalConfigDir === undefined) {
+      delete process.env.OPENCODE_CONFIG_DIR;
+    } else {
+      process.env.OPENCODE_CONFIG_DIR = originalConfigDir;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("keeps removals and disables made in another terminal while a save is pending", async () => {
+    const pool = {
+      version: 1 as const,
+      accounts: ["a", "b", "c"].map((id) => ({ id, refreshToken: `refresh-${id}`, addedAt: 1, lastUsed: 0 })),
+      activeIndex: 0,
+    };
+    await saveAccountsReplace(pool);
+    const manager = await AccountManager.loadFromDisk();
+
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    manager.markAccountUsed("a");
+    manager.requestSaveToDisk();
+    await saveAccountsReplace({
+      ...pool,
+      accounts: [pool.accounts[0]!, { ...pool.accounts[2]!, enabled: false }],
+    });
+    const flushed = manager.flushSaveToDisk();
+    await vi.advanceTimersByTimeAsync(1000);
+    await flushed;
+
+    const stored = await loadAccounts();
+    expect(stored?.accounts.map((acc) => [acc.id, acc.enabled])).toEqual([["a", true], ["c", false]]);
+    expect(stored?.accounts[0]?.lastUsed).toBeGreaterThan(0);
+    expect(manager.getAccounts().map((acc) => [acc.id, acc.enabled])).toEqual([["a", true], ["c", false]]);
+  });
+
+  it("writes accounts that were never saved instead of treating them as removed", async () => {
+    const manager = await AccountManager.loadFromDisk({ type: "oauth", refresh: "refresh-auth" });
+
+    await manager.saveToDisk();
+
+    expect((await loadAccounts())?.accounts.map((acc) => acc.refreshToken)).toEqual(["refresh-auth"]);
+    expect(manager.getAccounts()).toHaveLength(1);
+  });
+});
+
+describe("AccountManager account ids", () => {
+  it("keeps the current account across removals and reorders", () => {
+    const manager = managerWithAccounts(3);
+    const [first, second, third] = manager.getAccounts();
+    manager.markSwitched(third!, "initial", "kimi");
+
+    expect(manager.removeAccountById(first!.id)).toBe(true);
+    expect(manager.moveAccount(third!.id, 0)).toBe(true);
+
+    expect(manager.getCurrentAccountForFamily("kimi")).toBe(third);
+    expect(manager.getAccounts()).toEqual([third, second]);
+    expect(manager.toStorage()).toMatchObject({ activeIndex: 0, activeAccountId: third!.id });
+    expect(new AccountManager(undefined, manager.toStorage()).getCurrentAccountForFamily("kimi")?.id).toBe(third!.id);
+  });
+});
+
+describe("AccountManager priority tiers", () => {
+  it("uses overflow accounts only while the primary is unavailable", () => {
+    const manager = managerWithAccounts(3);
+    const [overflowA, primary, overflowB] = manager.getAccounts();
+    manager.setAccountTier(primary!.id, 1, 1);
+    manager.setAccountTier(overflowB!.id, 0, 2);
+
+    expect(manager.getCurrentOrNextForFamily("kimi")).toBe(primary);
+
+    manager.markRateLimited(primary!, 60_000, "kimi");
+    const overflow = Array.from({ length: 6 }, () => manager.getCurrentOrNextForFamily("kimi", null, "round-robin"));
+    expect(overflow.filter((a) => a === overflowB)).toHaveLength(4);
+    expect(overflow.filter((a) => a === overflowA)).toHaveLength(2);
+
+    manager.clearAllRateLimitsForFamily("kimi");
+    expect(manager.getCurrentOrNextForFamily("kimi")).toBe(primary);
+    expect(manager.getCurrentOrNextForFamily("kimi", null, "hybrid")).toBe(primary);
+  });
+});
+
+describe("AccountManager.getCurrentOrNextForSession", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("spreads new sessions and forgets affinities after the TTL", () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const manager = managerWithAccounts(2);
+    const ttlMs = 60 * 60 * 1000;
+    const select = (sessionId: string) =>
+      manager.getCurrentOrNextForSession(sessionId, "kimi", null, "sticky", "kimi-cli", false, 100, 0, ttlMs)?.index;
+
+    expect(select("ses_1")).toBe(0);
+    expect(select("ses_2")).toBe(1);
+    expect(select("ses_1")).toBe(0);
+
+    vi.advanceTimersByTime(50 * 60 * 1000);
+    expect(select("ses_1")).toBe(0);
+
+    // ses_2 lapsed: it no longer holds account 2 and rejoins like a new session.
+    vi.advanceTimersByTime(20 * 60 * 1000);
+    expect(select("ses_3")).toBe(1);
+    expect(select("ses_2")).toBe(0);
+  });
+});
@@ -1,15 +1,27 @@
-import { loadAccounts, saveAccounts, type AccountStorageV4, type AccountMetadataV3, type RateLimitStateV3, type ModelFamily, type HeaderStyle, type CooldownReason } from "./storage";
+import { randomUUID } from "node:crypto";
+import { deriveAccountId, loadAccounts, saveAccountsReplace, updateAccounts, type AccountStorageV4, type AccountMetadataV3, type RateLimitStateV3, type ModelFamily, type HeaderStyle, type CooldownReason } from "./storage";
 import type { OAuthAuthDetails, RefreshParts } from "./types";
 import type { AccountSelectionStrategy } from "./config/schema";
-import { getHealthTracker, getTokenTracker, selectHybridAccount, type AccountWithMetrics } from "./rotation";
+import {
+  filterTopPriorityTier,
+  getAccountPriority,
+  getAccountWeight,
+  getHealthTracker,
+  getTokenTracker,
+  selectHybridAccount,
+  type AccountWithMetrics,
+} from "./rotation";
 import { coerceFingerprint, generateFingerprint, type Fingerprint, type FingerprintVersion, MAX_FINGERPRINT_HISTORY } from "./fingerprint";
 import { debugLogToFile } from "./debug";
+import { RequestSlots } from "./concurrency";
+import { extractKimiUserIdFromJwt, formatAccountLabel, getAccountIdentityKey, type AccountIdentity } from "./identity";
+import type { RateLimitSnapshot } from "./rate-limit-headers";
 
-/** Quota group identifier for soft quota checks (local definition — Kimi has no external quota module). */
-type QuotaGroup = string;
+/** Quota group identifier for soft quota checks ("kimi" or a model id). */
+export type QuotaGroup = string;
 
 /** Summary of a quota group's remaining capacity. */
-interface QuotaGroupSummary {
+export interface QuotaGroupSummary {
   remainingFraction?: number;
   resetTime?: string;
   modelCount: number;
@@ -99,17 +111,32 @@ export function parseRateLimitReason(
   return "UNKNOWN";
 }
 
+/**
+ * Compute how long an account should stay rate-limited.
+ *
+ * An explicit Retry-After from the server is always honored. Otherwise the
+ * reason-based backoff is used and capped at `maxBackoffMs` (max_backoff_seconds).
+ */
 export function calculateBackoffMs(
   reason: RateLimitReason,
   consecutiveFailures: number,
-  retryAfterMs?: number | null
+  retryAfterMs?: number | null,
+  maxBackoffMs?: number,
 ): number {
   // Respect explicit Retry-After header if reasonable
   if (retryAfterMs && retryAfterMs > 0) {
     // Rust uses 2s min buffer, we keep 2s
     return Math.max(retryAfterMs, MIN_BACKOFF_MS);
   }
-  
+
+  const backoffMs = reasonBackoffMs(reason, consecutiveFailures);
+  if (maxBackoffMs !== undefined && maxBackoffMs > 0) {
+    return Math.max(MIN_BACKOFF_MS, Math.min(backoffMs, maxBackoffMs));
+  }
+  return backoffMs;
+}
+
+function reasonBackoffMs(reason: RateLimitReason, consecutiveFailures: number): number {
   switch (reason) {
     case "QUOTA_EXHAUSTED": {
       const index = Math.min(consecutiveFailures, QUOTA_EXHAUSTED_BACKOFFS.length - 1);
@@ -132,11 +159,24 @@ export type BaseQuotaKey = "kimi";
 export type QuotaKey = BaseQuotaKey | `${BaseQuotaKey}:${string}`;
 
 export interface ManagedAccount {
+  /** Persistent account id (see AccountMetadata.id); use it to refer to an account */
+  id: string;
+  /** Position in the pool, for display and ordering only */
   index: number;
   email?: string;
+  label?: string;
+  /** Selection tier, see AccountMetadata.priority */
+  priority?: number;
+  /** Share within the tier, see AccountMetadata.weight */
+  weight?: number;
+  /** Kimi user id (JWT `user_id`), see identity.ts */
+  userId?: string;
+  displayName?: string;
   addedAt: number;
   lastUsed: number;
   parts: RefreshParts;
+  /** When `parts.refreshToken` last changed (see mergeAccountStorage) */
+  refreshTokenUpdatedAt?: number;
   access?: string;
   expires?: number;
   enabled: boolean;
@@ -152,9 +192,11 @@ export interface ManagedAccount {
   fingerprint?: import("./fingerprint").Fingerprint;
   /** History of previous fingerprints for this account */
   fingerprintHistory?: FingerprintVersion[];
-  /** Cached quota data from last checkAccountsQuota() call */
+  /** Cached quota data from the last checkAccountsQuota() run (see quota.ts) */
   cachedQuota?: Partial<Record<QuotaGroup, QuotaGroupSummary>>;
   cachedQuotaUpdatedAt?: number;
+  /** Rate-limit headers of the last successful response (not persisted) */
+  rateLimitHeaders?: RateLimitSnapshot & { updatedAt: number };
 }
 
 function nowMs(): number {
@@ -168,6 +210,46 @@ function clampNonNegativeInt(value: unknown, fallback: number): number {
   return value < 0 ? 0 : Math.floor(value);
 }
 
+function toManagedAccount(acc: AccountMetadataV3, index: number, baseNow: number): ManagedAccount {
+  return {
+    id: acc.id ?? deriveAccountId(acc),
+    index,
+    email: acc.email,
+    label: acc.label,
+    priority: acc.priority,
+    weight: acc.weight,
+    userId: acc.userId ?? extractKimiUserIdFromJwt(acc.refreshToken),
+    displayName: acc.displayName,
+    addedAt: clampNonNegativeInt(acc.addedAt, baseNow),
+    lastUsed: clampNonNegativeInt(acc.lastUsed, 0),
+    parts: {
+      refreshToken: acc.refreshToken,
+    },
+    refreshTokenUpdatedAt: acc.refreshTokenUpdatedAt,
+    enabled: acc.enabled !== false,
+    rateLimitResetTimes: acc.rateLimitResetTimes ?? {},
+    lastSwitchReason: acc.lastSwitchReason,
+    coolingDownUntil: acc.coolingDownUntil,
+    cooldownReason: acc.cooldownReason,
+    touchedForQuota: {},
+    fingerprint: coerceFingerprint(acc.fingerprint),
+    fingerprintHistory: acc.fingerprintHistory ?? [],
+    cachedQuota: acc.cachedQuota as Partial<Record<QuotaGroup, QuotaGroupSummary>> | undefined,
+    cachedQuotaUpdatedAt: acc.cachedQuotaUpdatedAt,
+  };
+}
+
+/** What `AccountManager.syncFromStorage` changed. */
+export interface AccountPoolSyncResult {
+  added: number;
+  removed: number;
+  updated: number;
+}
+
+function isAllowedAccount(account: ManagedAccount, allowedAccountIds: ReadonlySet<string> | null): boolean {
+  return !allowedAccountIds || allowedAccountIds.has(account.id);
+}
+
 function getQuotaKey(_family: ModelFamily, _headerStyle: HeaderStyle, model?: string | null): QuotaKey {
   if (model) {
     return `kimi:${model}`;
@@ -232,32 +314,55 @@ function isOverSoftQuotaThreshold(
   model?: string | null
 ): boolean {
   if (thresholdPercent >= 100) return false;
-  if (!account.cachedQuota) return false;
-  
-  if (account.cachedQuotaUpdatedAt == null) return false;
-  const age = nowMs() - account.cachedQuotaUpdatedAt;
-  if (age > cacheTtlMs) return false;
-  
+
   const quotaGroup = resolveQuotaGroup(family, model);
-  
-  const groupData = account.cachedQuota[quotaGroup];
-  if (groupData?.remainingFraction == null) return false;
-  
-  const remainingFraction = Math.max(0, Math.min(1, groupData.remainingFraction));
-  const usedPercent = (1 - remainingFraction) * 100;
+  let remainingFraction: number | null = null;
+  let source = quotaGroup;
+  let resetTime: string | undefined;
+
+  const age = account.cachedQuotaUpdatedAt == null ? Infinity : nowMs() - account.cachedQuotaUpdatedAt;
+  const groupData = age <= cacheTtlMs ? account.cachedQuota?.[quotaGroup] : undefined;
+  if (groupData?.remainingFraction != null) {
+    remainingFraction = groupData.remainingFraction;
+    resetTime = groupData.resetTime;
+  }
+
+  const headerFraction = getRateLimitHeaderFraction(account, cacheTtlMs);
+  if (headerFraction !== null && (remainingFraction === null || headerFraction < remainingFraction)) {
+    remainingFraction = headerFraction;
+    source = "rate limit";
+    resetTime = account.rateLimitHeaders?.resetAt ? new Date(account.rateLimitHeaders.resetAt).toISOString() : undefined;
+  }
+
+  if (remainingFraction === null) return false;
+
+  const usedPercent = (1 - Math.max(0, Math.min(1, remainingFraction))) * 100;
   const isOverThreshold = usedPercent >= thresholdPercent;
   
   if (isOverThreshold) {
-    const accountLabel = account.email || `Account ${account.index + 1}`;
+    const accountLabel = formatAccountLabel(account);
     debugLogToFile(
-      `[SoftQuota] Skipping ${accountLabel}: ${quotaGroup} usage ${usedPercent.toFixed(1)}% >= threshold ${thresholdPercent}%` +
-      (groupData.resetTime ? ` (resets: ${groupData.resetTime})` : '')
+      `[SoftQuota] Skipping ${accountLabel}: ${source} usage ${usedPercent.toFixed(1)}% >= threshold ${thresholdPercent}%` +
+      (resetTime ? ` (resets: ${resetTime})` : '')
     );
   }
   
   return isOverThreshold;
 }
 
+/**
+ * Remaining fraction from the account's last rate-limit headers, while they
+ * still apply: until their reset time, or for the soft quota cache TTL when
+ * no reset was reported.
+ */
+function getRateLimitHeaderFraction(account: ManagedAccount, cacheTtlMs: number): number | null {
+  const snapshot = account.rateLimitHeaders;
+  if (!snapshot) return null;
+  const now = nowMs();
+  const current = snapshot.resetAt !== undefined ? now < snapshot.resetAt : now - snapshot.updatedAt <= cacheTtlMs;
+  return current ? snapshot.remainingFraction : null;
+}
+
 export function computeSoftQuotaCacheTtlMs(
   ttlConfig: "auto" | number,
   refreshIntervalMinutes: number
@@ -268,27 +373,48 @@ export function computeSoftQuotaCacheTtlMs(
   return ttlConfig * 60 * 1000;
 }
 
+/** Sessions whose account is remembered; the least recently used are forgotten first. */
+const MAX_SESSION_AFFINITIES = 200;
+
+/** Default time after a session's last request before its account affinity lapses. */
+export const DEFAULT_SESSION_AFFINITY_TTL_MS = 60 * 60 * 1000;
+
+interface SessionAffinity {
+  account: ManagedAccount;
+  lastUsedAt: number;
+}
+
 /**
  * In-memory multi-account manager with sticky account selection.
  *
  * Uses the same account until it hits a rate limit (429), then switches.
  * Rate limits are tracked per quota key ("kimi" base or "kimi:<model>").
+ * Every strategy stays within the highest priority tier that has an
+ * available account (see AccountMetadata.priority).
  *
  * Source of truth for the pool is `kimicode-accounts.json`.
  */
 export class AccountManager {
   private accounts: ManagedAccount[] = [];
   private cursor = 0;
-  private currentAccountIndexByFamily: Record<ModelFamily, number> = {
-    kimi: -1,
+  private currentAccountIdByFamily: Record<ModelFamily, string | null> = {
+    kimi: null,
   };
   private sessionOffsetApplied: Record<ModelFamily, boolean> = {
     kimi: false,
   };
-  private lastToastAccountIndex = -1;
+  private lastToastAccountId: string | null = null;
   private lastToastTime = 0;
+  /** Account each OpenCode session is pinned to, least recently used first. */
+  private sessionAffinities = new Map<string, SessionAffinity>();
+  /** In-flight upstream requests per account (limit 0 = unlimited). */
+  private requestSlots = new RequestSlots<ManagedAccount>();
 
   private savePending = false;
+  /** Accounts known to be in storage; only these can be removed by a sync. */
+  private storedAccounts = new WeakSet<ManagedAccount>();
+  /** Accounts whose enabled/label/tier were changed here and not saved yet. */
+  private unsavedSettings = new Set<string>();
   private saveTimeout: ReturnType<typeof setTimeout> | null = null;
   private savePromiseResolvers: Array<() => void> = [];
 
@@ -297,6 +423,26 @@ export class AccountManager {
     return new AccountManager(authFallback, stored);
   }
 
+  /**
+   * Apply `change` to the stored pool and replace it, reading and writing
+   * under the storage lock (see updateAccounts). Nothing is written if
+   * `change` throws.
+   */
+  static async updateOnDisk<T>(change: (manager: AccountManager) => T | Promise<T>): Promise<T> {
+    let result!: T;
+    await updateAccounts(async (stored) => {
+      const manager = new AccountManager(undefined, stored);
+      try {
+        result = await change(manager);
+      } finally {
+        // The pool is written below; the debounced save a setter requested is not needed.
+        manager.cancelPendingSave();
+      }
+      return manager.toStorage();
+    });
+    return result;
+  }
+
   constructor(authFallback?: OAuthAuthDetails, stored?: AccountStorageV4 | null) {
     const authParts: RefreshParts | null = authFallback ? { refreshToken: authFallback.refresh } : null;
 
@@ -321,37 +467,22 @@ export class AccountManager {
           );
 
           return {
-            index,
-            email: acc.email,
-            addedAt: clampNonNegativeInt(acc.addedAt, baseNow),
-            lastUsed: clampNonNegativeInt(acc.lastUsed, 0),
-            parts: {
-              refreshToken: acc.refreshToken,
-            },
+            ...toManagedAccount(acc, index, baseNow),
             access: matchesFallback ? authFallback?.access : undefined,
             expires: matchesFallback ? authFallback?.expires : undefined,
-            enabled: acc.enabled !== false,
-            rateLimitResetTimes: acc.rateLimitResetTimes ?? {},
-            lastSwitchReason: acc.lastSwitchReason,
-            coolingDownUntil: acc.coolingDownUntil,
-            cooldownReason: acc.cooldownReason,
-            touchedForQuota: {},
-	            fingerprint: coerceFingerprint(acc.fingerprint),
-	            fingerprintHistory: acc.fingerprintHistory ?? [],
-            cachedQuota: acc.cachedQuota as Partial<Record<QuotaGroup, QuotaGroupSummary>> | undefined,
-            cachedQuotaUpdatedAt: acc.cachedQuotaUpdatedAt,
           };
         })
         .filter((a): a is ManagedAccount => a !== null);
+      this.markAccountsStored();
 
       this.cursor = clampNonNegativeInt(stored.activeIndex, 0);
       if (this.accounts.length > 0) {
         this.cursor = this.cursor % this.accounts.length;
-        const defaultIndex = this.cursor;
-        this.currentAccountIndexByFamily.kimi = clampNonNegativeInt(
-          stored.activeIndexByFamily?.kimi,
-          defaultIndex
-        ) % this.accounts.length;
+        // Files written before account ids only have the active position.
+        const activeId = stored.activeAccountIdByFamily?.kimi ?? stored.activeAccountId;
+        const activeIndex = clampNonNegativeInt(stored.activeIndexByFamily?.kimi, this.cursor) % this.accounts.length;
+        this.currentAccountIdByFamily.kimi =
+          this.getAccountById(activeId)?.id ?? this.accounts[activeIndex]?.id ?? null;
       }
 
       return;
@@ -364,8 +495,10 @@ export class AccountManager {
       if (!hasMatching && authParts.refreshToken) {
         const now = nowMs();
         const newAccount: ManagedAccount = {
+          id: randomUUID(),
           index: this.accounts.length,
           email: undefined,
+          userId: extractKimiUserIdFromJwt(authParts.refreshToken),
           addedAt: now,
           lastUsed: 0,
           parts: authParts,
@@ -376,8 +509,6 @@ export class AccountManager {
           touchedForQuota: {},
         };
         this.accounts.push(newAccount);
-        // Update indices to include the new account
-        this.currentAccountIndexByFamily.kimi = Math.min(this.currentAccountIndexByFamily.kimi, this.accounts.length - 1);
       }
     }
 
@@ -387,8 +518,10 @@ export class AccountManager {
         const now = nowMs();
         this.accounts = [
           {
+            id: randomUUID(),
             index: 0,
             email: undefined,
+            userId: extractKimiUserIdFromJwt(parts.refreshToken),
             addedAt: now,
             lastUsed: 0,
             parts,
@@ -400,7 +533,7 @@ export class AccountManager {
           },
         ];
         this.cursor = 0;
-        this.currentAccountIndexByFamily.kimi = 0;
+        this.currentAccountIdByFamily.kimi = this.accounts[0]?.id ?? null;
       }
     }
   }
@@ -421,40 +554,243 @@ export class AccountManager {
     return this.accounts.map((a) => ({ ...a, parts: { ...a.parts }, rateLimitResetTimes: { ...a.rateLimitResetTimes } }));
   }
 
+  getAccountById(accountId: string | null | undefined): ManagedAccount | null {
+    if (!accountId) {
+      return null;
+    }
+    return this.accounts.find((account) => account.id === accountId) ?? null;
+  }
+
   getCurrentAccountForFamily(family: ModelFamily): ManagedAccount | null {
-    const currentIndex = this.currentAccountIndexByFamily[family];
-    if (currentIndex >= 0 && currentIndex < this.accounts.length) {
-      const account = this.accounts[currentIndex] ?? null;
-      // Only return account if it's enabled - disabled accounts should not be selected
-      if (account && account.enabled !== false) {
-        return account;
-      }
+    const account = this.getAccountById(this.currentAccountIdByFamily[family]);
+    // Only return account if it's enabled - disabled accounts should not be selected
+    if (account && account.enabled !== false) {
+      return account;
     }
     return null;
   }
 
   markSwitched(account: ManagedAccount, reason: "rate-limit" | "initial" | "rotation", family: ModelFamily): void {
     account.lastSwitchReason = reason;
-    this.currentAccountIndexByFamily[family] = account.index;
+    this.currentAccountIdByFamily[family] = account.id;
   }
 
   /**
    * Check if we should show an account switch toast.
    * Debounces repeated toasts for the same account.
    */
-  shouldShowAccountToast(accountIndex: number, debounceMs = 30000): boolean {
+  shouldShowAccountToast(accountId: string, debounceMs = 30000): boolean {
     const now = nowMs();
-    if (accountIndex !== this.lastToastAccountIndex) {
+    if (accountId !== this.lastToastAccountId) {
       return true;
     }
     return now - this.lastToastTime >= debounceMs;
   }
 
-  markToastShown(accountIndex: number): void {
-    this.lastToastAccountIndex = accountIndex;
+  markToastShown(accountId: string): void {
+    this.lastToastAccountId = accountId;
     this.lastToastTime = nowMs();
   }
 
+  /**
+   * Select an account for a request from an OpenCode session.
+   *
+   * A session stays on the account it is pinned to, which keeps Kimi's prompt
+   * cache for it warm. When that account is rate-limited, over the soft quota,
+   * cooling down, disabled or gone, or the affinity has lapsed, the session
+   * moves to the available account pinned by the fewest other sessions,
+   * preferring the one the family strategy picks. The session is pinned to
+   * the returned account. `allowedAccountIds` limits the candidates (see
+   * getCurrentOrNextForFamily).
+   */
+  getCurrentOrNextForSession(
+    sessionId: string,
+    family: ModelFamily,
+    model?: string | null,
+    strategy: AccountSelectionStrategy = 'sticky',
+    headerStyle: HeaderStyle = 'kimi-cli',
+    pidOffsetEnabled: boolean = false,
+    softQuotaThresholdPercent: number = 100,
+    softQuotaCacheTtlMs: number = 10 * 60 * 1000,
+    affinityTtlMs: number = DEFAULT_SESSION_AFFINITY_TTL_MS,
+    allowedAccountIds: ReadonlySet<string> | null = null,
+  ): ManagedAccount | null {
+    this.pruneSessionAffinities(affinityTtlMs);
+    const quotaKey = getQuotaKey(family, headerStyle, model);
+
+    const pinned = this.sessionAffinities.get(sessionId)?.account;
+    if (
+      pinned &&
+      this.isAvailableForFamily(pinned, family, headerStyle, model, softQuotaThresholdPercent, softQuotaCacheTtlMs, allowedAccountIds) &&
+      !this.hasAvailableHigherTier(pinned, family, headerStyle, model, softQuotaThresholdPercent, softQuotaCacheTtlMs, allowedAccountIds)
+    ) {
+      this.markTouchedForQuota(pinned, quotaKey);
+      this.setSessionAccount(sessionId, pinned);
+      return pinned;
+    }
+
+    const preferred = this.getCurrentOrNextForFamily(
+      family,
+      model,
+      strategy,
+      headerStyle,
+      pidOffsetEnabled,
+      softQuotaThresholdPercent,
+      softQuotaCacheTtlMs,
+      allowedAccountIds,
+    );
+    if (!preferred) {
+      return null;
+    }
+
+    // Spread sessions within the preferred account's tier: count the other
+    // sessions pinned to each account, relative to its weight.
+    const sessionCounts = new Map<ManagedAccount, number>();
+    for (const [otherId, affinity] of this.sessionAffinities) {
+      if (otherId === sessionId) continue;
+      sessionCounts.set(affinity.account, (sessionCounts.get(affinity.account) ?? 0) + 1);
+    }
+    const load = (account: ManagedAccount) => (sessionCounts.get(account) ?? 0) / getAccountWeight(account);
+    let selected = preferred;
+    for (const account of this.accounts) {
+      if (
+        getAccountPriority(account) === getAccountPriority(preferred) &&
+        load(account) < load(selected) &&
+        this.isAvailableForFamily(account, family, headerStyle, model, softQuotaThresholdPercent, softQuotaCacheTtlMs, allowedAccountIds)
+      ) {
+        selected = account;
+      }
+    }
+
+    if (selected !== preferred) {
+      this.markTouchedForQuota(selected, quotaKey);
+    }
+    if (pinned && pinned !== selected) {
+      debugLogToFile(`[Account] Session ${sessionId} moved from ${formatAccountLabel(pinned)} to ${formatAccountLabel(selected)}`);
+    }
+    this.setSessionAccount(sessionId, selected);
+    return selected;
+  }
+
+  /**
+   * Pin a session to an account, e.g. the one that served its last request.
+   */
+  setSessionAccount(sessionId: string, account: ManagedAccount): void {
+    this.sessionAffinities.delete(sessionId);
+    this.sessionAffinities.set(sessionId, { account, lastUsedAt: nowMs() });
+    if (this.sessionAffinities.size > MAX_SESSION_AFFINITIES) {
+      const oldest = this.sessionAffinities.keys().next().value;
+      if (oldest !== undefined) this.sessionAffinities.delete(oldest);
+    }
+  }
+
+  /** Drop affinities that lapsed or point at accounts no longer in the pool. */
+  private pruneSessionAffinities(affinityTtlMs: number): void {
+    const cutoff = nowMs() - affinityTtlMs;
+    for (const [sessionId, affinity] of this.sessionAffinities) {
+      if (affinity.lastUsedAt <= cutoff || !this.accounts.includes(affinity.account)) {
+        this.sessionAffinities.delete(sessionId);
+      }
+    }
+  }
+
+  private isAvailableForFamily(
+    account: ManagedAccount,
+    family: ModelFamily,
+    headerStyle: HeaderStyle,
+    model: string | null | undefined,
+    softQuotaThresholdPercent: number,
+    softQuotaCacheTtlMs: number,
+    allowedAccountIds: ReadonlySet<string> | null = null,
+  ): boolean {
+    clearExpiredRateLimits(account);
+    return account.enabled !== false &&
+           isAllowedAccount(account, allowedAccountIds) &&
+           !isRateLimitedForHeaderStyle(account, family, headerStyle, model) &&
+           !isOverSoftQuotaThreshold(account, family, softQuotaThresholdPercent, softQuotaCacheTtlMs, model) &&
+           !this.isAccountCoolingDown(account) &&
+           !this.requestSlots.isFull(account);
+  }
+
+  /**
+   * Whether an account in a higher priority tier than `account` could take
+   * the request, in which case `account` should be left for overflow.
+   */
+  private hasAvailableHigherTier(
+    account: ManagedAccount,
+    family: ModelFamily,
+    headerStyle: HeaderStyle,
+    model: string | null | undefined,
+    softQuotaThresholdPercent: number,
+    softQuotaCacheTtlMs: number,
+    allowedAccountIds: ReadonlySet<string> | null = null,
+  ): boolean {
+    const priority = getAccountPriority(account);
+    return this.accounts.some((other) =>
+      getAccountPriority(other) > priority &&
+      this.isAvailableForFamily(other, family, headerStyle, model, softQuotaThresholdPercent, softQuotaCacheTtlMs, allowedAccountIds),
+    );
+  }
+
+  /**
+   * Limit concurrent upstream requests per account; 0 removes the limit.
+   * Accounts with every slot taken are skipped by account selection.
+   */
+  setMaxConcurrentRequests(limit: number): void {
+    this.requestSlots.setLimit(limit);
+  }
+
+  /**
+   * Take a request slot on an account for one upstream request.
+   *
+   * @returns A release function (safe to call more than once)
+   */
+  acquireRequestSlot(account: ManagedAccount): () => void {
+    return this.requestSlots.acquire(account);
+  }
+
+  getInFlightRequests(account: ManagedAccount): number {
+    return this.requestSlots.getInFlight(account);
+  }
+
+  /**
+   * Whether an account could take a request if it had a free slot: the only
+   * reason no account was selected is the concurrency limit.
+   */
+  isWaitingOnRequestSlots(
+    family: ModelFamily,
+    model?: string | null,
+    headerStyle: HeaderStyle = "kimi-cli",
+    allowedAccountIds: ReadonlySet<string> | null = null,
+  ): boolean {
+    return this.accounts.some((account) => {
+      if (
+        !this.requestSlots.isFull(account) ||
+        account.enabled === false ||
+        !isAllowedAccount(account, allowedAccountIds) ||
+        this.isAccountCoolingDown(account)
+      ) {
+        return false;
+      }
+      clearExpiredRateLimits(account);
+      return !isRateLimitedForHeaderStyle(account, family, headerStyle, model);
+    });
+  }
+
+  /**
+   * Wait until a request slot is released (or `timeoutMs` passes, or the
+   * signal aborts).
+   */
+  waitForRequestSlot(timeoutMs: number, signal?: AbortSignal | null): Promise<void> {
+    return this.requestSlots.waitForRelease(timeoutMs, signal);
+  }
+
+  /**
+   * Select an account for a request with the given strategy.
+   *
+   * @param allowedAccountIds - When set, only these accounts are considered
+   *   (see model-routing.ts)
+   */
   getCurrentOrNextForFamily(
     family: ModelFamily, 
     model?: string | null,
@@ -463,14 +799,15 @@ export class AccountManager {
     pidOffsetEnabled: boolean = false,
     softQuotaThresholdPercent: number = 100,
     softQuotaCacheTtlMs: number = 10 * 60 * 1000,
+    allowedAccountIds: ReadonlySet<string> | null = null,
   ): ManagedAccount | null {
     const quotaKey = getQuotaKey(family, headerStyle, model);
 
     if (strategy === 'round-robin') {
-      const next = this.getNextForFamily(family, model, headerStyle, softQuotaThresholdPercent, softQuotaCacheTtlMs);
+      const next = this.getNextForFamily(family, model, headerStyle, softQuotaThresholdPercent, softQuotaCacheTtlMs, allowedAccountIds);
       if (next) {
         this.markTouchedForQuota(next, quotaKey);
-        this.currentAccountIndexByFamily[family] = next.index;
+        this.currentAccountIdByFamily[family] = next.id;
       }
       return next;
     }
@@ -480,31 +817,31 @@ export class AccountManager {
       const tokenTracker = getTokenTracker();
       
       const accountsWithMetrics: AccountWithMetrics[] = this.accounts
-        .filter(acc => acc.enabled !== false)
+        .filter(acc => acc.enabled !== false && isAllowedAccount(acc, allowedAccountIds))
         .map(acc => {
           clearExpiredRateLimits(acc);
           return {
-            index: acc.index,
+            id: acc.id,
+            priority: getAccountPriority(acc),
+            weight: getAccountWeight(acc),
             lastUsed: acc.lastUsed,
-            healthScore: healthTracker.getScore(acc.index),
+            healthScore: healthTracker.getScore(acc.id),
             isRateLimited: isRateLimitedForFamily(acc, family, model) || 
                           isOverSoftQuotaThreshold(acc, family, softQuotaThresholdPercent, softQuotaCacheTtlMs, model),
-            isCoolingDown: this.isAccountCoolingDown(acc),
+            // An account with no free request slot is skipped like a cooling-down one.
+            isCoolingDown: this.isAccountCoolingDown(acc) || this.requestSlots.isFull(acc),
           };
         });
 
-      // Get current account index for stickiness
-      const currentIndex = this.currentAccountIndexByFamily[family] ?? null;
+      // Current account for stickiness
+      const currentId = this.currentAccountIdByFamily[family];
       
-      const selectedIndex = selectHybridAccount(accountsWithMetrics, tokenTracker, currentIndex);
-      if (selectedIndex !== null) {
-        const selected = this.accounts[selectedIndex];
-        if (selected) {
-          selected.lastUsed = nowMs();
-          this.markTouchedForQuota(selected, quotaKey);
-          this.currentAccountIndexByFamily[family] = selected.index;
-          return selected;
-        }
+      const selected = this.getAccountById(selectHybridAccount(accountsWithMetrics, tokenTracker, currentId));
+      if (selected) {
+        selected.lastUsed = nowMs();
+        this.markTouchedForQuota(selected, quotaKey);
+        this.currentAccountIdByFamily[family] = selected.id;
+        return selected;
       }
     }
 
@@ -513,12 +850,12 @@ export class AccountManager {
     // Different sessions (PIDs) will prefer different starting accounts
     if (pidOffsetEnabled && !this.sessionOffsetApplied[family] && this.accounts.length > 1) {
       const pidOffset = process.pid % this.accounts.length;
-      const baseIndex = this.currentAccountIndexByFamily[family] ?? 0;
+      const baseIndex = Math.max(0, this.getAccountById(this.currentAccountIdByFamily[family])?.index ?? 0);
       const newIndex = (baseIndex + pidOffset) % this.accounts.length;
       
       debugLogToFile(`[Account] Applying PID offset: pid=${process.pid} offset=${pidOffset} family=${family} index=${baseIndex}->${newIndex}`);
       
-      this.currentAccountIndexByFamily[family] = newIndex;
+      this.currentAccountIdByFamily[family] = this.accounts[newIndex]?.id ?? null;
       this.sessionOffsetApplied[family] = true;
     }
 
@@ -527,34 +864,46 @@ export class AccountManager {
       clearExpiredRateLimits(current);
       const isLimitedForRequestedStyle = isRateLimitedForHeaderStyle(current, family, headerStyle, model);
       const isOverThreshold = isOverSoftQuotaThreshold(current, family, softQuotaThresholdPercent, softQuotaCacheTtlMs, model);
-      if (!isLimitedForRequestedStyle && !isOverThreshold && !this.isAccountCoolingDown(current)) {
+      if (
+        isAllowedAccount(current, allowedAccountIds) &&
+        !isLimitedForRequestedStyle &&
+        !isOverThreshold &&
+        !this.isAccountCoolingDown(current) &&
+        !this.requestSlots.isFull(current) &&
+        !this.hasAvailableHigherTier(current, family, headerStyle, model, softQuotaThresholdPercent, softQuotaCacheTtlMs, allowedAccountIds)
+      ) {
         this.markTouchedForQuota(current, quotaKey);
         return current;
       }
     }
 
-    const next = this.getNextForFamily(family, model, headerStyle, softQuotaThresholdPercent, softQuotaCacheTtlMs);
+    const next = this.getNextForFamily(family, model, headerStyle, softQuotaThresholdPercent, softQuotaCacheTtlMs, allowedAccountIds);
     if (next) {
       this.markTouchedForQuota(next, quotaKey);
-      this.currentAccountIndexByFamily[family] = next.index;
+      this.currentAccountIdByFamily[family] = next.id;
     }
     return next;
   }
 
-  getNextForFamily(family: ModelFamily, model?: string | null, headerStyle: HeaderStyle = "kimi-cli", softQuotaThresholdPercent: number = 100, softQuotaCacheTtlMs: number = 10 * 60 * 1000): ManagedAccount | null {
-    const available = this.accounts.filter((a) => {
-      clearExpiredRateLimits(a);
-      return a.enabled !== false && 
-             !isRateLimitedForHeaderStyle(a, family, headerStyle, model) && 
-             !isOverSoftQuotaThreshold(a, family, softQuotaThresholdPercent, softQuotaCacheTtlMs, model) &&
-             !this.isAccountCoolingDown(a);
-    });
+  getNextForFamily(
+    family: ModelFamily,
+    model?: string | null,
+    headerStyle: HeaderStyle = "kimi-cli",
+    softQuotaThresholdPercent: number = 100,
+    softQuotaCacheTtlMs: number = 10 * 60 * 1000,
+    allowedAccountIds: ReadonlySet<string> | null = null,
+  ): ManagedAccount | null {
+    const available = filterTopPriorityTier(this.accounts.filter((a) =>
+      this.isAvailableForFamily(a, family, headerStyle, model, softQuotaThresholdPercent, softQuotaCacheTtlMs, allowedAccountIds),
+    ));
 
     if (available.length === 0) {
       return null;
     }
 
-    const account = available[this.cursor % available.length];
+    // Weighted rotation: an account with weight n gets n turns per cycle.
+    const turns = available.flatMap((a) => Array<ManagedAccount>(getAccountWeight(a)).fill(a));
+    const account = turns[this.cursor % turns.length];
     if (!account) {
       return null;
     }
@@ -580,8 +929,8 @@ export class AccountManager {
    * This updates the lastUsed timestamp for freshness calculations.
    * Should be called AFTER request completion, not during account selection.
    */
-  markAccountUsed(accountIndex: number): void {
-    const account = this.accounts.find(a => a.index === accountIndex);
+  markAccountUsed(accountId: string): void {
+    const account = this.getAccountById(accountId);
     if (account) {
       account.lastUsed = nowMs();
     }
@@ -595,6 +944,7 @@ export class AccountManager {
     reason: RateLimitReason,
     retryAfterMs?: number | null,
     failureTtlMs: number = 3600_000, // Default 1 hour TTL
+    maxBackoffMs?: number,
   ): number {
     const now = nowMs();
     
@@ -607,7 +957,7 @@ export class AccountManager {
     account.consecutiveFailures = failures;
     account.lastFailureTime = now;
     
-    const backoffMs = calculateBackoffMs(reason, failures - 1, retryAfterMs);
+    const backoffMs = calculateBackoffMs(reason, failures - 1, retryAfterMs, maxBackoffMs);
     const key = getQuotaKey(family, headerStyle, model);
     account.rateLimitResetTimes[key] = now + backoffMs;
     
@@ -702,18 +1052,18 @@ export class AccountManager {
   /**
    * Check if any OTHER account has quota available for the given family/model.
    * 
-   * @param currentAccountIndex - Index of the current account (will be excluded from check)
+   * @param currentAccountId - Id of the current account (will be excluded from check)
    * @param family - Model family ("kimi")
    * @param model - Optional model name for model-specific rate limits
    * @returns true if any other enabled, non-cooling-down account has quota available
    */
   hasOtherAccountWithQuotaAvailable(
-    currentAccountIndex: number,
+    currentAccountId: string,
     family: ModelFamily,
     model?: string | null
   ): boolean {
     return this.accounts.some(acc => {
-      if (acc.index === currentAccountIndex) return false;
+      if (acc.id === currentAccountId) return false;
       if (acc.enabled === false) return false;
       if (this.isAccountCoolingDown(acc)) return false;
       clearExpiredRateLimits(acc);
@@ -721,18 +1071,19 @@ export class AccountManager {
     });
   }
 
-  setAccountEnabled(accountIndex: number, enabled: boolean): boolean {
-    const account = this.accounts[accountIndex];
+  setAccountEnabled(accountId: string, enabled: boolean): boolean {
+    const account = this.getAccountById(accountId);
     if (!account) {
       return false;
     }
     account.enabled = enabled;
+    this.unsavedSettings.add(accountId);
 
     if (!enabled) {
-      for (const family of Object.keys(this.currentAccountIndexByFamily) as ModelFamily[]) {
-        if (this.currentAccountIndexByFamily[family] === accountIndex) {
-          const next = this.accounts.find((a, i) => i !== accountIndex && a.enabled !== false);
-          this.currentAccountIndexByFamily[family] = next?.index ?? -1;
+      for (const family of Object.keys(this.currentAccountIdByFamily) as ModelFamily[]) {
+        if (this.currentAccountIdByFamily[family] === accountId) {
+          const next = this.accounts.find((a) => a.id !== accountId && a.enabled !== false);
+          this.currentAccountIdByFamily[family] = next?.id ?? null;
         }
       }
     }
@@ -741,11 +1092,8 @@ export class AccountManager {
     return true;
   }
 
-  removeAccountByIndex(accountIndex: number): boolean {
-    if (accountIndex < 0 || accountIndex >= this.accounts.length) {
-      return false;
-    }
-    const account = this.accounts[accountIndex];
+  removeAccountById(accountId: string): boolean {
+    const account = this.getAccountById(accountId);
     if (!account) {
       return false;
     }
@@ -765,7 +1113,7 @@ export class AccountManager {
 
     if (this.accounts.length === 0) {
       this.cursor = 0;
-      this.currentAccountIndexByFamily.kimi = -1;
+      this.currentAccountIdByFamily.kimi = null;
       return true;
     }
 
@@ -775,11 +1123,8 @@ export class AccountManager {
     this.cursor = this.cursor % this.accounts.length;
 
     for (const family of ["kimi"] as ModelFamily[]) {
-      if (this.currentAccountIndexByFamily[family] > idx) {
-        this.currentAccountIndexByFamily[family] -= 1;
-      }
-      if (this.currentAccountIndexByFamily[family] >= this.accounts.length) {
-        this.currentAccountIndexByFamily[family] = -1;
+      if (this.currentAccountIdByFamily[family] === account.id) {
+        this.currentAccountIdByFamily[family] = null;
       }
     }
 
@@ -787,9 +1132,179 @@ export class AccountManager {
   }
 
   updateFromAuth(account: ManagedAccount, auth: OAuthAuthDetails): void {
+    if (auth.refresh !== account.parts.refreshToken) {
+      account.refreshTokenUpdatedAt = nowMs();
+    }
     account.parts = { refreshToken: auth.refresh };
     account.access = auth.access;
     account.expires = auth.expires;
+    account.userId = extractKimiUserIdFromJwt(auth.refresh) ?? account.userId;
+  }
+
+  /**
+   * Record profile details fetched for an account (see identity.ts).
+   * Returns true when anything changed.
+   */
+  setAccountIdentity(account: ManagedAccount, identity: AccountIdentity): boolean {
+    const next = {
+      // The JWT user id is the dedupe key; a profile id only fills a gap.
+      userId: account.userId ?? identity.userId,
+      displayName: identity.displayName ?? account.displayName,
+      email: identity.email ?? account.email,
+    };
+    if (
+      next.userId === account.userId &&
+      next.displayName === account.displayName &&
+      next.email === account.email
+    ) {
+      return false;
+    }
+    Object.assign(account, next);
+    this.requestSaveToDisk();
+    return true;
+  }
+
+  /**
+   * Adopt a refresh token another process stored for this account.
+   * The cached access token belonged to the old refresh token, so it is
+   * dropped. Returns true when the account changed.
+   */
+  adoptStoredRefreshToken(account: ManagedAccount, stored: AccountMetadataV3): boolean {
+    if (stored.refreshToken === account.parts.refreshToken) {
+      return false;
+    }
+    if ((stored.refreshTokenUpdatedAt ?? 0) < (account.refreshTokenUpdatedAt ?? 0)) {
+      return false;
+    }
+    account.parts = { refreshToken: stored.refreshToken };
+    account.refreshTokenUpdatedAt = stored.refreshTokenUpdatedAt;
+    account.access = undefined;
+    account.expires = undefined;
+    return true;
+  }
+
+  /**
+   * Merge a pool written by another process (e.g. `opencode auth login` or
+   * `kimicode-accounts` in another terminal) into this manager.
+   *
+   * Stored accounts are matched to in-memory ones by id, then by refresh
+   * token, then by identity. Added and removed accounts, the stored order, newer refresh
+   * tokens and persisted settings (enabled, label, tier, profile fields,
+   * fingerprint) come from storage; rate-limit, cooldown, failure and quota
+   * state stays as tracked here. Enabled/label/tier values changed here and
+   * not saved yet win since they are about to be written.
+   */
+  syncFromStorage(stored: AccountStorageV4): AccountPoolSyncResult {
+    const byId = new Map<string, ManagedAccount>();
+    const byToken = new Map<string, ManagedAccount>();
+    const byIdentity = new Map<string, ManagedAccount>();
+    for (const account of this.accounts) {
+      byId.set(account.id, account);
+      byToken.set(account.parts.refreshToken, account);
+      const identity = getAccountIdentityKey(account);
+      if (identity) {
+        byIdentity.set(identity, account);
+      }
+    }
+
+    const baseNow = nowMs();
+    const next: ManagedAccount[] = [];
+    const kept = new Set<ManagedAccount>();
+    let added = 0;
+    let updated = 0;
+
+    for (const acc of stored.accounts) {
+      if (!acc.refreshToken || typeof acc.refreshToken !== "string") {
+        continue;
+      }
+      const identity = getAccountIdentityKey(acc);
+      const existing =
+        (acc.id ? byId.get(acc.id) : undefined) ??
+        byToken.get(acc.refreshToken) ??
+        (identity ? byIdentity.get(identity) : undefined);
+      if (existing && kept.has(existing)) {
+        continue;
+      }
+
+      if (!existing) {
+        const account = toManagedAccount(acc, next.length, baseNow);
+        this.storedAccounts.add(account);
+        next.push(account);
+        added++;
+        continue;
+      }
+
+      kept.add(existing);
+      this.storedAccounts.add(existing);
+      const changed = this.applyStoredAccount(existing, acc, this.unsavedSettings.has(existing.id));
+      if (changed || existing.index !== next.length) {
+        updated++;
+      }
+      next.push(existing);
+    }
+
+    // Accounts never saved (e.g. from the OpenCode auth fallback) are not
+    // missing from storage but not written yet.
+    for (const account of this.accounts) {
+      if (!kept.has(account) && !this.storedAccounts.has(account)) {
+        kept.add(account);
+        next.push(account);
+      }
+    }
+
+    const removed = this.accounts.length - kept.size;
+    if (added === 0 && removed === 0 && updated === 0) {
+      return { added, removed, updated };
+    }
+
+    // Keep the selection on the same accounts where they survived.
+    const current = this.getAccountById(this.currentAccountIdByFamily.kimi);
+    const cursorAccount = this.accounts[this.cursor];
+
+    this.accounts = next;
+    this.accounts.forEach((acc, index) => {
+      acc.index = index;
+    });
+
+    this.currentAccountIdByFamily.kimi =
+      current && kept.has(current) && current.enabled !== false ? current.id : null;
+    this.cursor = cursorAccount && kept.has(cursorAccount) ? cursorAccount.index : 0;
+
+    return { added, removed, updated };
+  }
+
+  private applyStoredAccount(account: ManagedAccount, stored: AccountMetadataV3, keepLocalSettings: boolean): boolean {
+    const snapshot = (a: ManagedAccount) =>
+      JSON.stringify([a.id, a.parts.refreshToken, a.enabled, a.label, a.priority, a.weight, a.email, a.userId, a.displayName, a.fingerprint?.deviceId]);
+    const before = snapshot(account);
+
+    this.adoptStoredRefreshToken(account, stored);
+    // Another process saved this account first; its id is the one on disk.
+    if (stored.id && stored.id !== account.id) {
+      for (const family of Object.keys(this.currentAccountIdByFamily) as ModelFamily[]) {
+        if (this.currentAccountIdByFamily[family] === account.id) {
+          this.currentAccountIdByFamily[family] = stored.id;
+        }
+      }
+      account.id = stored.id;
+    }
+    if (!keepLocalSettings) {
+      account.enabled = stored.enabled !== false;
+      account.label = stored.label;
+      account.priority = stored.priority;
+      account.weight = stored.weight;
+    }
+    account.email = stored.email ?? account.email;
+    account.userId = account.userId ?? stored.userId;
+    account.displayName = stored.displayName ?? account.displayName;
+    if (stored.fingerprint) {
+      account.fingerprint = coerceFingerprint(stored.fingerprint);
+    }
+    if (stored.fingerprintHistory?.length) {
+      account.fingerprintHistory = stored.fingerprintHistory;
+    }
+
+    return snapshot(account) !== before;
   }
 
   toAuthDetails(account: ManagedAccount): OAuthAuthDetails {
@@ -806,8 +1321,10 @@ export class AccountManager {
     model?: string | null,
     _headerStyle?: HeaderStyle,
     _strict?: boolean,
+    allowedAccountIds: ReadonlySet<string> | null = null,
   ): number {
-    const available = this.accounts.filter((a) => {
+    const candidates = this.accounts.filter((a) => isAllowedAccount(a, allowedAccountIds));
+    const available = candidates.filter((a) => {
       clearExpiredRateLimits(a);
       return a.enabled !== false && !isRateLimitedForFamily(a, family, model);
     });
@@ -816,7 +1333,7 @@ export class AccountManager {
     }
 
     const waitTimes: number[] = [];
-    for (const a of this.accounts) {
+    for (const a of candidates) {
       const key = getQuotaKey(family, "kimi-cli", model);
       const t = a.rateLimitResetTimes[key];
       if (t !== undefined) waitTimes.push(Math.max(0, t - nowMs()));
@@ -829,14 +1346,81 @@ export class AccountManager {
     return [...this.accounts];
   }
 
-  async saveToDisk(): Promise<void> {
-    const kimiIndex = Math.max(0, this.currentAccountIndexByFamily.kimi);
+  /**
+   * Move an account to a new position in the pool. The current account
+   * selection is by id and is unaffected.
+   */
+  moveAccount(accountId: string, toIndex: number): boolean {
+    const account = this.getAccountById(accountId);
+    if (!account || toIndex < 0 || toIndex >= this.accounts.length) {
+      return false;
+    }
+    const fromIndex = this.accounts.indexOf(account);
+    if (fromIndex === toIndex) {
+      return true;
+    }
+
+    const cursorAccount = this.accounts[this.cursor];
+    const [moved] = this.accounts.splice(fromIndex, 1);
+    if (!moved) {
+      return false;
+    }
+    this.accounts.splice(toIndex, 0, moved);
+    this.accounts.forEach((acc, index) => {
+      acc.index = index;
+    });
+
+    this.cursor = cursorAccount ? cursorAccount.index : 0;
+    return true;
+  }
+
+  setAccountLabel(accountId: string, label: string | undefined): boolean {
+    const account = this.getAccountById(accountId);
+    if (!account) {
+      return false;
+    }
+    const trimmed = label?.trim();
+    account.label = trimmed ? trimmed : undefined;
+    this.unsavedSettings.add(accountId);
+    this.requestSaveToDisk();
+    return true;
+  }
+
+  /**
+   * Set an account's priority tier and weight within it (see
+   * AccountMetadata.priority and AccountMetadata.weight).
+   */
+  setAccountTier(accountId: string, priority: number, weight: number): boolean {
+    const account = this.getAccountById(accountId);
+    if (!account) {
+      return false;
+    }
+    account.priority = getAccountPriority({ priority });
+    account.weight = getAccountWeight({ weight });
+    this.unsavedSettings.add(accountId);
+    this.requestSaveToDisk();
+    return true;
+  }
+
+  /**
+   * Serialize the pool to the on-disk storage format.
+   */
+  toStorage(): AccountStorageV4 {
+    const current = this.getAccountById(this.currentAccountIdByFamily.kimi);
+    const kimiIndex = current ? current.index : 0;
     
-    const storage: AccountStorageV4 = {
+    return {
       version: 1,
       accounts: this.accounts.map((a) => ({
+        id: a.id,
         email: a.email,
+        label: a.label,
+        priority: a.priority,
+        weight: a.weight,
+        userId: a.userId,
+        displayName: a.displayName,
         refreshToken: a.parts.refreshToken,
+        refreshTokenUpdatedAt: a.refreshTokenUpdatedAt,
         addedAt: a.addedAt,
         lastUsed: a.lastUsed,
         enabled: a.enabled,
@@ -853,9 +1437,68 @@ export class AccountManager {
       activeIndexByFamily: {
         kimi: kimiIndex,
       },
+      activeAccountId: current?.id,
+      activeAccountIdByFamily: {
+        kimi: current?.id,
+      },
     };
+  }
+
+  /**
+   * Save the pool. The stored pool is synced in first under the storage lock
+   * (see syncFromStorage), so accounts removed, disabled or rotated by
+   * another process are not written back, and the result replaces the file.
+   */
+  async saveToDisk(): Promise<void> {
+    const saving = [...this.unsavedSettings];
+    let written: ManagedAccount[] = [];
+    await updateAccounts((stored) => {
+      if (stored) {
+        this.syncFromStorage(stored);
+      }
+      written = [...this.accounts];
+      return this.toStorage();
+    });
+    this.markAccountsStored(written);
+    for (const id of saving) {
+      this.unsavedSettings.delete(id);
+    }
+  }
+
+  /**
+   * Overwrite storage with exactly this pool (no merge), cancelling any
+   * pending debounced save. Needed when accounts were removed or state was
+   * cleared, which a merging save would bring back from disk.
+   */
+  async saveToDiskReplace(): Promise<void> {
+    this.cancelPendingSave();
+
+    try {
+      const written = [...this.accounts];
+      await saveAccountsReplace(this.toStorage());
+      this.markAccountsStored(written);
+      this.unsavedSettings.clear();
+    } finally {
+      const resolvers = this.savePromiseResolvers;
+      this.savePromiseResolvers = [];
+      for (const resolve of resolvers) {
+        resolve();
+      }
+    }
+  }
+
+  private markAccountsStored(accounts: ManagedAccount[] = this.accounts): void {
+    for (const account of accounts) {
+      this.storedAccounts.add(account);
+    }
+  }
 
-    await saveAccounts(storage);
+  private cancelPendingSave(): void {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout);
+      this.saveTimeout = null;
+    }
+    this.savePending = false;
   }
 
   requestSaveToDisk(): void {
@@ -898,11 +1541,11 @@ export class AccountManager {
 
   /**
    * Regenerate fingerprint for an account, saving the old one to history.
-   * @param accountIndex - Index of the account to regenerate fingerprint for
+   * @param accountId - Id of the account to regenerate fingerprint for
    * @returns The new fingerprint, or null if account not found
    */
-  regenerateAccountFingerprint(accountIndex: number): Fingerprint | null {
-    const account = this.accounts[accountIndex];
+  regenerateAccountFingerprint(accountId: string): Fingerprint | null {
+    const account = this.getAccountById(accountId);
     if (!account) return null;
     
     // Save current fingerprint to history if it exists
@@ -935,12 +1578,12 @@ export class AccountManager {
 
   /**
    * Restore a fingerprint from history for an account.
-   * @param accountIndex - Index of the account
+   * @param accountId - Id of the account
    * @param historyIndex - Index in the fingerprint history to restore from (0 = most recent)
    * @returns The restored fingerprint, or null if account/history not found
    */
-  restoreAccountFingerprint(accountIndex: number, historyIndex: number): Fingerprint | null {
-    const account = this.accounts[accountIndex];
+  restoreAccountFingerprint(accountId: string, historyIndex: number): Fingerprint | null {
+    const account = this.getAccountById(accountId);
     if (!account) return null;
 
     const history = account.fingerprintHistory;
@@ -977,32 +1620,60 @@ export class AccountManager {
 
   /**
    * Get fingerprint history for an account.
-   * @param accountIndex - Index of the account
+   * @param accountId - Id of the account
    * @returns Array of fingerprint versions, or empty array if not found
    */
-  getAccountFingerprintHistory(accountIndex: number): FingerprintVersion[] {
-    const account = this.accounts[accountIndex];
+  getAccountFingerprintHistory(accountId: string): FingerprintVersion[] {
+    const account = this.getAccountById(accountId);
     if (!account || !account.fingerprintHistory) {
       return [];
     }
     return [...account.fingerprintHistory];
   }
 
-  updateQuotaCache(accountIndex: number, quotaGroups: Partial<Record<QuotaGroup, QuotaGroupSummary>>): void {
-    const account = this.accounts[accountIndex];
+  updateQuotaCache(accountId: string, quotaGroups: Partial<Record<QuotaGroup, QuotaGroupSummary>>): void {
+    const account = this.getAccountById(accountId);
     if (account) {
       account.cachedQuota = quotaGroups;
       account.cachedQuotaUpdatedAt = nowMs();
     }
   }
 
+  /**
+   * Record the rate-limit headers of a successful response. A low remaining
+   * fraction counts toward the soft quota threshold until the window resets;
+   * an exhausted window rate-limits the account until then, so it is skipped
+   * before it starts answering 429.
+   *
+   * @returns Whether the account was marked rate limited
+   */
+  recordRateLimitHeaders(
+    account: ManagedAccount,
+    snapshot: RateLimitSnapshot,
+    family: ModelFamily,
+    headerStyle: HeaderStyle = "kimi-cli",
+    model?: string | null
+  ): boolean {
+    const now = nowMs();
+    account.rateLimitHeaders = { ...snapshot, updatedAt: now };
+
+    if (snapshot.exhausted && snapshot.resetAt !== undefined && snapshot.resetAt > now) {
+      this.markRateLimited(account, snapshot.resetAt - now, family, headerStyle, model);
+      return true;
+    }
+    return false;
+  }
+
   isAccountOverSoftQuota(account: ManagedAccount, family: ModelFamily, thresholdPercent: number, cacheTtlMs: number, model?: string | null): boolean {
     return isOverSoftQuotaThreshold(account, family, thresholdPercent, cacheTtlMs, model);
   }
 
   getAccountsForQuotaCheck(): AccountMetadataV3[] {
     return this.accounts.map((a) => ({
+      id: a.id,
       email: a.email,
+      userId: a.userId,
+      displayName: a.displayName,
       refreshToken: a.parts.refreshToken,
       addedAt: a.addedAt,
       lastUsed: a.lastUsed,
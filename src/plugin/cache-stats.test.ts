@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+
+import { CacheStatsTracker, cacheHitRate } from "./cache-stats";
+
+const warm = { promptTokens: 10_000, completionTokens: 100, cachedTokens: 9_000 };
+const cold = { promptTokens: 10_500, completionTokens: 100, cachedTokens: 0 };
+
+describe("CacheStatsTracker", () => {
+  it("tracks hit ratios per account and per session", () => {
+    const tracker = new CacheStatsTracker();
+    tracker.record({ account: "u-1", sessionId: "ses_1", usage: warm });
+    tracker.record({ account: "u-1", sessionId: "ses_2", usage: cold });
+
+    expect(tracker.getAccountStats("u-1")).toEqual({ requests: 2, hits: 1, promptTokens: 20_500, cachedTokens: 9_000 });
+    expect(cacheHitRate(tracker.getSessionStats("ses_1"))).toBe(0.9);
+    expect(cacheHitRate(tracker.getSessionStats("ses_2"))).toBe(0);
+    expect(cacheHitRate(tracker.getSessionStats("ses_3"))).toBe(0);
+  });
+
+  it("reports a collapse only for the first cold response after an account switch", () => {
+    const tracker = new CacheStatsTracker();
+    expect(tracker.record({ account: "u-1", sessionId: "ses_1", usage: warm })).toBeNull();
+    // A cold response on the same account is not caused by a switch.
+    expect(tracker.record({ account: "u-1", sessionId: "ses_1", usage: cold })).toBeNull();
+    expect(tracker.record({ account: "u-1", sessionId: "ses_1", usage: warm })).toBeNull();
+
+    expect(tracker.record({ account: "u-2", sessionId: "ses_1", usage: cold })).toEqual({
+      sessionId: "ses_1",
+      fromAccount: "u-1",
+      toAccount: "u-2",
+      previousRate: 0.9,
+      currentRate: 0,
+    });
+    expect(tracker.record({ account: "u-2", sessionId: "ses_1", usage: cold })).toBeNull();
+
+    // Small prompts are never cached, so a miss on them says nothing.
+    tracker.record({ account: "u-2", sessionId: "ses_1", usage: warm });
+    expect(
+      tracker.record({ account: "u-1", sessionId: "ses_1", usage: { promptTokens: 200, completionTokens: 5, cachedTokens: 0 } }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Prompt Cache Statistics
+ *
+ * Kimi caches prompts per `prompt_cache_key` and per account, so a request
+ * that moves to another account starts with a cold cache. This module keeps
+ * in-memory hit ratios from the `cached_tokens` Kimi reports:
+ *
+ * - Per account: share of prompt tokens served from the cache
+ * - Per session: the same, plus the account and hit rate of the last response
+ * - Collapse: the first response after a session changed account hit the
+ *   cache far less than the response before the switch
+ */
+
+import type { TokenUsage } from "./usage";
+
+/** Hit rate the session had before a switch for a miss to count as a collapse. */
+const COLLAPSE_PREVIOUS_RATE = 0.5;
+
+/** Hit rate at or below which the first response after a switch is a collapse. */
+const COLLAPSE_CURRENT_RATE = 0.1;
+
+/** Prompts shorter than this are too small for Kimi to cache. */
+const COLLAPSE_MIN_PROMPT_TOKENS = 1024;
+
+/** Sessions kept in memory; the least recently used are dropped first. */
+const MAX_TRACKED_SESSIONS = 200;
+
+export interface CacheHitTotals {
+  requests: number;
+  /** Responses with at least one cached prompt token */
+  hits: number;
+  promptTokens: number;
+  cachedTokens: number;
+}
+
+export interface CacheHitSample {
+  /** Account id (see AccountMetadata.id) */
+  account: string;
+  /** Key the request was cached under (OpenCode session or plugin session) */
+  sessionId: string;
+  usage: TokenUsage;
+}
+
+/** A session's cache hit rate dropped after it moved to another account. */
+export interface CacheCollapse {
+  sessionId: string;
+  fromAccount: string;
+  toAccount: string;
+  /** Hit rate (0-1) of the last response on the previous account */
+  previousRate: number;
+  /** Hit rate (0-1) of the first response on the new account */
+  currentRate: number;
+}
+
+interface SessionCacheState extends CacheHitTotals {
+  lastAccount: string;
+  lastRate: number;
+}
+
+function emptyTotals(): CacheHitTotals {
+  return { requests: 0, hits: 0, promptTokens: 0, cachedTokens: 0 };
+}
+
+function responseHitRate(usage: TokenUsage): number {
+  return usage.promptTokens > 0 ? Math.min(1, usage.cachedTokens / usage.promptTokens) : 0;
+}
+
+/** Share (0-1) of prompt tokens that were served from the cache. */
+export function cacheHitRate(totals: CacheHitTotals | undefined): number {
+  return totals && totals.promptTokens > 0 ? totals.cachedTokens / totals.promptTokens : 0;
+}
+
+function accumulate(totals: CacheHitTotals, usage: TokenUsage): void {
+  totals.requests += 1;
+  totals.hits += usage.cachedTokens > 0 ? 1 : 0;
+  totals.promptTokens += usage.promptTokens;
+  totals.cachedTokens += usage.cachedTokens;
+}
+
+/**
+ * Tracks prompt cache hit ratios per account and per session.
+ */
+export class CacheStatsTracker {
+  private readonly accounts = new Map<string, CacheHitTotals>();
+  private readonly sessions = new Map<string, SessionCacheState>();
+
+  /**
+   * Record one response's usage.
+   *
+   * @returns The collapse this response revealed, or null
+   */
+  record(sample: CacheHitSample): CacheCollapse | null {
+    const { account, sessionId, usage } = sample;
+    const rate = responseHitRate(usage);
+
+    let accountTotals = this.accounts.get(account);
+    if (!accountTotals) {
+      accountTotals = emptyTotals();
+      this.accounts.set(account, accountTotals);
+    }
+    accumulate(accountTotals, usage);
+
+    const session = this.sessions.get(sessionId);
+    let collapse: CacheCollapse | null = null;
+    if (
+      session &&
+      session.lastAccount !== account &&
+      session.lastRate >= COLLAPSE_PREVIOUS_RATE &&
+      rate <= COLLAPSE_CURRENT_RATE &&
+      usage.promptTokens >= COLLAPSE_MIN_PROMPT_TOKENS
+    ) {
+      collapse = {
+        sessionId,
+        fromAccount: session.lastAccount,
+        toAccount: account,
+        previousRate: session.lastRate,
+        currentRate: rate,
+      };
+    }
+
+    const next: SessionCacheState = session ?? { ...emptyTotals(), lastAccount: account, lastRate: rate };
+    accumulate(next, usage);
+    next.lastAccount = account;
+    next.lastRate = rate;
+
+    // Re-insert so iteration order is least recently used first.
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, next);
+    if (this.sessions.size > MAX_TRACKED_SESSIONS) {
+      const oldest = this.sessions.keys().next().value;
+      if (oldest !== undefined) this.sessions.delete(oldest);
+    }
+
+    return collapse;
+  }
+
+  getAccountStats(account: string): CacheHitTotals | undefined {
+    const totals = this.accounts.get(account);
+    return totals ? { ...totals } : undefined;
+  }
+
+  getSessionStats(sessionId: string): CacheHitTotals | undefined {
+    const state = this.sessions.get(sessionId);
+    if (!state) return undefined;
+    const { requests, hits, promptTokens, cachedTokens } = state;
+    return { requests, hits, promptTokens, cachedTokens };
+  }
+}
+
+let globalCacheStatsTracker: CacheStatsTracker | null = null;
+
+export function getCacheStatsTracker(): CacheStatsTracker {
+  if (!globalCacheStatsTracker) {
+    globalCacheStatsTracker = new CacheStatsTracker();
+  }
+  return globalCacheStatsTracker;
+}
@@ -1,6 +1,11 @@
 import { createInterface } from "node:readline/promises";
 import { stdin as input, stdout as output } from "node:process";
 import { updateOpencodeConfig } from "./config/updater";
+import { loadDiscoveredModelDefinitions } from "./config/discovery";
+import { formatAccountLabel } from "./identity";
+import { MAX_ACCOUNT_WEIGHT } from "./rotation";
+import type { KimiAuthorization, PollProgress } from "../kimi/oauth";
+import { encodeQrCode } from "../kimi/qr";
 
 // TODO: Add UI module (./ui/auth-menu) — stubbed for now
 export type AccountStatus = "active" | "rate-limited" | "cooling-down" | "disabled" | "expired";
@@ -51,10 +56,19 @@ export async function promptAddAnotherAccount(currentCount: number): Promise<boo
   }
 }
 
-export type LoginMode = "add" | "remove" | "fresh" | "configure-models" | "cancel";
+export type LoginMode = "add" | "remove" | "tier" | "fresh" | "configure-models" | "cancel";
 
 export interface ExistingAccountInfo {
+  /** Persistent account id (see AccountMetadata.id) */
+  id?: string;
   email?: string;
+  label?: string;
+  userId?: string;
+  displayName?: string;
+  /** Selection tier, see AccountMetadata.priority */
+  priority?: number;
+  /** Share within the tier, see AccountMetadata.weight */
+  weight?: number;
   index: number;
   addedAt?: number;
   lastUsed?: number;
@@ -63,6 +77,13 @@ export interface ExistingAccountInfo {
   enabled?: boolean;
 }
 
+/** Tier settings chosen in the login menu. */
+export interface AccountTierChoice {
+  id: string;
+  priority: number;
+  weight: number;
+}
+
 export interface LoginMenuResult {
   mode: LoginMode;
 }
@@ -72,15 +93,18 @@ async function promptLoginModeFallback(existingAccounts: ExistingAccountInfo[]):
   try {
     console.log(`\n${existingAccounts.length} account(s) saved:`);
     for (const acc of existingAccounts) {
-      const label = acc.email || `Account ${acc.index + 1}`;
+      const label = formatAccountLabel(acc);
       const badge = getStatusBadge(acc.status);
       const currentTag = acc.isCurrentAccount ? " \x1b[36m[current]\x1b[0m" : "";
-      console.log(`  ${acc.index + 1}. ${label}${currentTag}${badge}`);
+      const tier = acc.priority || (acc.weight ?? 1) !== 1
+        ? ` [priority ${acc.priority ?? 0}, weight ${acc.weight ?? 1}]`
+        : "";
+      console.log(`  ${acc.index + 1}. ${label}${currentTag}${badge}${tier}`);
     }
     console.log("");
 
     while (true) {
-      const answer = await rl.question("(a)dd, (r)emove, (f)resh, (m)odels config, (c)ancel? [a/r/f/m/c]: ");
+      const answer = await rl.question("(a)dd, (r)emove, (t)ier, (f)resh, (m)odels config, (c)ancel? [a/r/t/f/m/c]: ");
       const normalized = answer.trim().toLowerCase();
 
       if (normalized === "a" || normalized === "add") {
@@ -89,6 +113,9 @@ async function promptLoginModeFallback(existingAccounts: ExistingAccountInfo[]):
       if (normalized === "r" || normalized === "remove") {
         return { mode: "remove" };
       }
+      if (normalized === "t" || normalized === "tier") {
+        return { mode: "tier" };
+      }
       if (normalized === "f" || normalized === "fresh") {
         return { mode: "fresh" };
       }
@@ -99,7 +126,7 @@ async function promptLoginModeFallback(existingAccounts: ExistingAccountInfo[]):
         normalized === "configure" ||
         normalized === "configure-models"
       ) {
-        const result = await updateOpencodeConfig();
+        const result = await updateOpencodeConfig({ models: loadDiscoveredModelDefinitions() ?? undefined });
         if (result.success) {
           console.log(`\n✓ Models configured in ${result.configPath}\n`);
         } else {
@@ -111,7 +138,7 @@ async function promptLoginModeFallback(existingAccounts: ExistingAccountInfo[]):
         return { mode: "cancel" };
       }
 
-      console.log("Please enter 'a', 'r', 'f', 'm', or 'c'.");
+      console.log("Please enter 'a', 'r', 't', 'f', 'm', or 'c'.");
     }
   } finally {
     rl.close();
@@ -123,7 +150,12 @@ export async function promptLoginMode(existingAccounts: ExistingAccountInfo[]):
   return promptLoginModeFallback(existingAccounts);
 }
 
-export async function promptRemoveAccount(existingAccounts: ExistingAccountInfo[]): Promise<number | null> {
+/**
+ * Ask which account to remove.
+ *
+ * @returns The id of the chosen account, or null when cancelled
+ */
+export async function promptRemoveAccount(existingAccounts: ExistingAccountInfo[]): Promise<string | null> {
   if (!existingAccounts.length) return null;
 
   const rl = createInterface({ input, output });
@@ -138,10 +170,178 @@ export async function promptRemoveAccount(existingAccounts: ExistingAccountInfo[
       console.log(`Invalid selection. Please enter a number between 1 and ${existingAccounts.length}.`);
       return null;
     }
-    return n - 1;
+    return existingAccounts[n - 1]?.id ?? null;
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * Ask for an account's priority tier and weight. Blank answers keep the
+ * current values.
+ *
+ * @returns The chosen settings, or null when cancelled or invalid
+ */
+export async function promptAccountTier(existingAccounts: ExistingAccountInfo[]): Promise<AccountTierChoice | null> {
+  if (!existingAccounts.length) return null;
+
+  const rl = createInterface({ input, output });
+  try {
+    const answer = await rl.question(
+      `Set tier for which account? [1-${existingAccounts.length}] (blank to cancel): `,
+    );
+    const trimmed = answer.trim();
+    if (!trimmed) return null;
+    const n = Number.parseInt(trimmed, 10);
+    const account = existingAccounts[n - 1];
+    if (!Number.isFinite(n) || !account?.id) {
+      console.log(`Invalid selection. Please enter a number between 1 and ${existingAccounts.length}.`);
+      return null;
+    }
+
+    const currentPriority = account.priority ?? 0;
+    const priorityAnswer = (await rl.question(
+      `Priority (higher tiers are used first; e.g. 1 = primary, 0 = overflow) [${currentPriority}]: `,
+    )).trim();
+    const priority = priorityAnswer ? Number(priorityAnswer) : currentPriority;
+    if (!Number.isInteger(priority)) {
+      console.log("Invalid priority. Please enter a whole number.");
+      return null;
+    }
+
+    const currentWeight = account.weight ?? 1;
+    const weightAnswer = (await rl.question(`Weight within the tier (1-${MAX_ACCOUNT_WEIGHT}) [${currentWeight}]: `)).trim();
+    const weight = weightAnswer ? Number(weightAnswer) : currentWeight;
+    if (!Number.isInteger(weight) || weight < 1 || weight > MAX_ACCOUNT_WEIGHT) {
+      console.log(`Invalid weight. Please enter a whole number from 1 to ${MAX_ACCOUNT_WEIGHT}.`);
+      return null;
+    }
+
+    return { id: account.id, priority, weight };
   } finally {
     rl.close();
   }
 }
 
+// =============================================================================
+// Device authorization output
+// =============================================================================
+
+const QR_QUIET_ZONE = 2;
+
+/**
+ * Render a QR code with half-block characters (two module rows per line).
+ * Light modules are drawn as blocks, which suits the usual dark terminal
+ * background.
+ */
+export function renderQrCode(text: string): string {
+  const qr = encodeQrCode(text);
+  const span = qr.size + QR_QUIET_ZONE * 2;
+  const isLight = (x: number, y: number): boolean => {
+    const mx = x - QR_QUIET_ZONE;
+    const my = y - QR_QUIET_ZONE;
+    if (mx < 0 || my < 0 || mx >= qr.size || my >= qr.size) return true;
+    return !qr.modules[my]![mx];
+  };
+
+  const lines: string[] = [];
+  for (let y = 0; y < span; y += 2) {
+    let line = "";
+    for (let x = 0; x < span; x++) {
+      const top = isLight(x, y);
+      const bottom = y + 1 < span ? isLight(x, y + 1) : false;
+      line += top && bottom ? "█" : top ? "▀" : bottom ? "▄" : " ";
+    }
+    lines.push(line);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Format a duration as m:ss (h:mm:ss past an hour).
+ */
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+/**
+ * Print the verification URL and user code on their own lines (easy to
+ * copy), plus a QR code of the complete URL when requested.
+ */
+export function printDeviceAuthorization(
+  authorization: Pick<KimiAuthorization, "verificationUri" | "verificationUriComplete" | "userCode" | "expiresInSeconds">,
+  options: { showQrCode: boolean },
+): void {
+  console.log("\nKimi device authorization");
+  console.log(`  URL:  ${authorization.verificationUri}`);
+  console.log(`  Code: ${authorization.userCode}`);
+  console.log(`  Expires in ${formatCountdown(authorization.expiresInSeconds * 1000)}`);
+
+  if (options.showQrCode) {
+    const qrText = authorization.verificationUriComplete ?? authorization.verificationUri;
+    try {
+      console.log("\nScan to sign in from another device:\n");
+      console.log(renderQrCode(qrText));
+    } catch {
+      // URL too long for the built-in encoder; the printed URL still works.
+    }
+  }
+  console.log("");
+}
+
+export interface DeviceAuthProgress {
+  onProgress: (progress: PollProgress) => void;
+  stop: () => void;
+}
+
+const NON_TTY_PROGRESS_INTERVAL_MS = 60_000;
+
+/**
+ * Show a countdown to code expiry while polling. On a TTY the status line is
+ * redrawn every second; otherwise a line is printed at most once a minute.
+ */
+export function startDeviceAuthProgress(expiresAt: number): DeviceAuthProgress {
+  let attempts = 0;
+  let slowedDown = false;
+  let lastLoggedAt = Date.now();
+  const statusLine = () => {
+    const remaining = formatCountdown(expiresAt - Date.now());
+    const checks = attempts > 0 ? `, checked ${attempts}x${slowedDown ? " (server asked to slow down)" : ""}` : "";
+    return `Waiting for approval... ${remaining} left${checks}`;
+  };
+
+  if (!process.stdout.isTTY) {
+    return {
+      onProgress: (progress) => {
+        attempts = progress.attempt;
+        slowedDown ||= progress.status === "slow_down";
+        if (Date.now() - lastLoggedAt >= NON_TTY_PROGRESS_INTERVAL_MS) {
+          lastLoggedAt = Date.now();
+          console.log(statusLine());
+        }
+      },
+      stop: () => {},
+    };
+  }
+
+  const render = () => process.stdout.write(`\r\x1b[2K${statusLine()}`);
+  render();
+  const timer = setInterval(render, 1000);
+  return {
+    onProgress: (progress) => {
+      attempts = progress.attempt;
+      slowedDown ||= progress.status === "slow_down";
+      render();
+    },
+    stop: () => {
+      clearInterval(timer);
+      process.stdout.write("\r\x1b[2K");
+    },
+  };
+}
+
 export { isTTY };
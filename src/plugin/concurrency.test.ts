@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+
+import { RequestSlots, releaseWhenBodyDone } from "./concurrency";
+
+describe("RequestSlots", () => {
+  it("counts slots per key and wakes waiters on release", async () => {
+    const slots = new RequestSlots<string>(2);
+    const releaseFirst = slots.acquire("a");
+    slots.acquire("a");
+
+    expect(slots.isFull("a")).toBe(true);
+    expect(slots.isFull("b")).toBe(false);
+
+    const waiting = slots.waitForRelease(60_000);
+    releaseFirst();
+    releaseFirst();
+    await waiting;
+
+    expect(slots.getInFlight("a")).toBe(1);
+    expect(new RequestSlots<string>(0).isFull("a")).toBe(false);
+  });
+});
+
+describe("releaseWhenBodyDone", () => {
+  it("releases once the body is read to the end", async () => {
+    let released = 0;
+    const response = releaseWhenBodyDone(new Response("data: hi\n\n"), () => released++);
+
+    expect(released).toBe(0);
+    expect(await response.text()).toBe("data: hi\n\n");
+    expect(released).toBe(1);
+  });
+
+  it("releases when the body is cancelled or the request aborts", async () => {
+    let released = 0;
+    const cancelled = releaseWhenBodyDone(new Response("partial"), () => released++);
+    await cancelled.body?.cancel();
+    expect(released).toBe(1);
+
+    const controller = new AbortController();
+    releaseWhenBodyDone(new Response("unread"), () => released++, controller.signal);
+    controller.abort();
+    expect(released).toBe(2);
+  });
+});
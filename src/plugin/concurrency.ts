@@ -0,0 +1,148 @@
+/**
+ * Per-Account Request Concurrency
+ *
+ * Parallel sessions and subagents can all land on the same Kimi account at
+ * once, which Kimi answers with bursts of 429s. Each account gets a number of
+ * request slots:
+ *
+ * - A request holds a slot from the upstream fetch until its response body is
+ *   fully read, cancelled or errors, or the request is aborted
+ * - Account selection skips accounts with no free slot
+ * - When every usable account is full, requests wait for a slot to free up
+ */
+
+/**
+ * In-flight request counts per key with an optional limit.
+ */
+export class RequestSlots<K> {
+  private readonly inFlight = new Map<K, number>();
+  private waiters: Array<() => void> = [];
+
+  /**
+   * @param limit - Slots per key; 0 means unlimited
+   */
+  constructor(private limit: number = 0) {}
+
+  setLimit(limit: number): void {
+    this.limit = Math.max(0, Math.floor(limit));
+    this.notifyWaiters();
+  }
+
+  getLimit(): number {
+    return this.limit;
+  }
+
+  getInFlight(key: K): number {
+    return this.inFlight.get(key) ?? 0;
+  }
+
+  isFull(key: K): boolean {
+    return this.limit > 0 && this.getInFlight(key) >= this.limit;
+  }
+
+  /**
+   * Take a slot. Always succeeds (selection is what respects the limit), so a
+   * request that must stay on a full account can still go ahead.
+   *
+   * @returns A release function; calls after the first are ignored
+   */
+  acquire(key: K): () => void {
+    this.inFlight.set(key, this.getInFlight(key) + 1);
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const remaining = this.getInFlight(key) - 1;
+      if (remaining > 0) {
+        this.inFlight.set(key, remaining);
+      } else {
+        this.inFlight.delete(key);
+      }
+      this.notifyWaiters();
+    };
+  }
+
+  /**
+   * Resolve when any slot is released, after `timeoutMs`, or on abort,
+   * whichever comes first. Callers re-run selection afterwards.
+   */
+  waitForRelease(timeoutMs: number, signal?: AbortSignal | null): Promise<void> {
+    return new Promise((resolve) => {
+      if (signal?.aborted) {
+        resolve();
+        return;
+      }
+
+      const done = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener("abort", done);
+        this.waiters = this.waiters.filter((waiter) => waiter !== done);
+        resolve();
+      };
+      const timeout = setTimeout(done, timeoutMs);
+      signal?.addEventListener("abort", done, { once: true });
+      this.waiters.push(done);
+    });
+  }
+
+  private notifyWaiters(): void {
+    for (const waiter of [...this.waiters]) {
+      waiter();
+    }
+  }
+}
+
+/**
+ * Return a response whose body calls `release` once it has been read to the
+ * end, cancelled or failed, or when `signal` aborts. Responses without a body
+ * release immediately.
+ */
+export function releaseWhenBodyDone(
+  response: Response,
+  release: () => void,
+  signal?: AbortSignal | null,
+): Response {
+  if (!response.body) {
+    release();
+    return response;
+  }
+
+  const onAbort = () => finish();
+  const finish = () => {
+    signal?.removeEventListener("abort", onAbort);
+    release();
+  };
+  if (signal?.aborted) {
+    finish();
+  } else {
+    signal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          finish();
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        finish();
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      finish();
+      await reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
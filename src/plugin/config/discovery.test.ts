@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { KIMI_MODELS_ENDPOINT, KIMI_TOKEN_ENDPOINT } from "../../constants";
+import { AccountManager } from "../accounts";
+import type { PluginClient } from "../types";
+import {
+  buildModelDefinitions,
+  loadDiscoveredModelDefinitions,
+  parseKimiModelsPayload,
+  refreshDiscoveredModels,
+} from "./discovery";
+
+const MODELS_PAYLOAD = {
+  object: "list",
+  data: [
+    { id: "kimi-for-coding", context_length: 262144, supports_reasoning: true, supports_image_in: true },
+    { id: "kimi-k3-mini", display_name: "K3 Mini", context_length: "131072", supports_reasoning: false },
+    { object: "model" },
+  ],
+};
+
+describe("parseKimiModelsPayload", () => {
+  it("reads ids and capabilities and skips malformed entries", () => {
+    expect(parseKimiModelsPayload(MODELS_PAYLOAD)).toEqual([
+      { id: "kimi-for-coding", contextLength: 262144, supportsReasoning: true, supportsImageIn: true },
+      { id: "kimi-k3-mini", displayName: "K3 Mini", contextLength: 131072, supportsReasoning: false },
+    ]);
+    expect(parseKimiModelsPayload({ data: "nope" })).toEqual([]);
+  });
+});
+
+describe("buildModelDefinitions", () => {
+  it("keeps the k2.5 ids for kimi-for-coding and adds thinking variants for reasoning models", () => {
+    const definitions = buildModelDefinitions(parseKimiModelsPayload(MODELS_PAYLOAD));
+
+    expect(Object.keys(definitions).sort()).toEqual([
+      "kimicode-kimi-k2.5",
+      "kimicode-kimi-k2.5-thinking",
+      "kimicode-kimi-k2.5-thinking-high",
+      "kimicode-kimi-k2.5-thinking-low",
+      "kimicode-kimi-k2.5-thinking-medium",
+      "kimicode-kimi-k3-mini",
+    ]);
+    expect(definitions["kimicode-kimi-k2.5"]?.name).toBe("Kimi Code (K2.5)");
+    expect(definitions["kimicode-kimi-k2.5-thinking-low"]?.modalities.input).toEqual(["text", "image"]);
+    expect(definitions["kimicode-kimi-k3-mini"]).toEqual({
+      name: "Kimi Code (K3 Mini)",
+      limit: { context: 131072, output: 32000 },
+      modalities: { input: ["text"], output: ["text"] },
+    });
+  });
+});
+
+describe("refreshDiscoveredModels", () => {
+  let tempDir: string;
+  let originalConfigDir: string | undefined;
+
+  beforeEach(() => {
+    originalConfigDir = process.env.OPENCODE_CONFIG_DIR;
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "kimicode-discovery-test-"));
+    process.env.OPENCODE_CONFIG_DIR = tempDir;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    if (originalConfigDir === undefined) {
+      delete process.env.OPENCODE_CONFIG_DIR;
+    } else {
+      process.env.OPENCODE_CONFIG_DIR = originalConfigDir;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function managerWithAccount(refreshToken: string): AccountManager {
+    return new AccountManager(undefined, {
+      version: 1,
+      accounts: [{ refreshToken, addedAt: 1, lastUsed: 0 }],
+      activeIndex: 0,
+    });
+  }
+
+  function stubFetch(modelsResponse: () => Response) {
+    const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const request = input instanceof Request ? input : new Request(input, init);
+      if (request.url === KIMI_TOKEN_ENDPOINT) {
+        const refresh = new URLSearchParams(await request.text()).get("refresh_token");
+        return Response.json({ access_token: `access-${refresh}`, refresh_token: refresh, expires_in: 3600 });
+      }
+      if (request.url === KIMI_MODELS_ENDPOINT) {
+        return modelsResponse();
+      }
+      return new Response(null, { status: 404 });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    return fetchMock;
+  }
+
+  it("falls back to nothing when no cache exists and /models fails", async () => {
+    stubFetch(() => new Response("down", { status: 503 }));
+
+    const result = await refreshDiscoveredModels(managerWithAccount("discovery-fail"), {} as PluginClient, "moonshotai");
+
+    expect(result).toBeNull();
+    expect(loadDiscoveredModelDefinitions()).toBeNull();
+  });
+
+  it("caches discovered models on disk and skips fetching while the cache is fresh", async () => {
+    const fetchMock = stubFetch(() => Response.json(MODELS_PAYLOAD));
+    const manager = managerWithAccount("discovery-ok");
+
+    const discovered = await refreshDiscoveredModels(manager, {} as PluginClient, "moonshotai");
+    expect(discovered?.["kimicode-kimi-k3-mini"]).toBeDefined();
+    expect(fs.existsSync(path.join(tempDir, "kimicode-models.json"))).toBe(true);
+    expect(loadDiscoveredModelDefinitions()).toEqual(discovered);
+
+    fetchMock.mockClear();
+    expect(await refreshDiscoveredModels(manager, {} as PluginClient, "moonshotai")).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
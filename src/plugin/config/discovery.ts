@@ -0,0 +1,271 @@
+/**
+ * Dynamic model discovery.
+ *
+ * Fetches Kimi's `/models` endpoint with a pooled account, caches the result
+ * in `kimicode-models.json`, and turns it into `kimicode-*` model definitions
+ * for `updateOpencodeConfig`. When nothing has been discovered yet (offline,
+ * no accounts) callers fall back to the static OPENCODE_MODEL_DEFINITIONS.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { randomBytes } from "node:crypto";
+import { KIMI_MODELS_ENDPOINT, getKimiDeviceHeaders, getKimiUserAgent } from "../../constants";
+import type { AccountManager } from "../accounts";
+import { generateFingerprint } from "../fingerprint";
+import { createLogger } from "../logger";
+import { getConfigDir } from "../storage";
+import { resolveAccountAccessToken } from "../token";
+import type { PluginClient } from "../types";
+import {
+  KIMICODE_MODEL_PREFIX,
+  KIMI_MODEL_ALIASES,
+  OPENCODE_MODEL_DEFINITIONS,
+  type ModelModalities,
+  type OpencodeModelDefinitions,
+} from "./models";
+
+const log = createLogger("model-discovery");
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Subset of a Kimi `/models` entry used to build model definitions. */
+export interface KimiModelInfo {
+  id: string;
+  displayName?: string;
+  contextLength?: number;
+  supportsReasoning?: boolean;
+  supportsImageIn?: boolean;
+}
+
+interface ModelCacheFile {
+  version: 1;
+  fetchedAt: number;
+  models: KimiModelInfo[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MODEL_CACHE_FILENAME = "kimicode-models.json";
+
+/** Re-fetch `/models` once the cache is older than this. */
+export const MODEL_CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/** kimi-cli's default max_tokens; `/models` does not report an output limit. */
+const DEFAULT_OUTPUT_TOKENS = 32000;
+const DEFAULT_CONTEXT_TOKENS = 262144;
+
+const THINKING_VARIANTS = [
+  { suffix: "-thinking", label: "Thinking" },
+  { suffix: "-thinking-low", label: "Thinking Low" },
+  { suffix: "-thinking-medium", label: "Thinking Medium" },
+  { suffix: "-thinking-high", label: "Thinking High" },
+] as const;
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+function toPositiveInt(value: unknown): number | undefined {
+  const n = typeof value === "string" ? Number(value) : value;
+  return typeof n === "number" && Number.isFinite(n) && n > 0 ? Math.floor(n) : undefined;
+}
+
+function toOptionalBoolean(value: unknown): boolean | undefined {
+  return typeof value === "boolean" ? value : undefined;
+}
+
+/**
+ * Parse an OpenAI-style `/models` response (`{ data: [...] }`).
+ */
+export function parseKimiModelsPayload(payload: unknown): KimiModelInfo[] {
+  if (!payload || typeof payload !== "object") return [];
+  const data = (payload as { data?: unknown }).data;
+  if (!Array.isArray(data)) return [];
+
+  const models: KimiModelInfo[] = [];
+  for (const item of data) {
+    if (!item || typeof item !== "object") continue;
+    const record = item as Record<string, unknown>;
+    if (typeof record.id !== "string" || record.id.trim() === "") continue;
+
+    models.push({
+      id: record.id,
+      displayName: typeof record.display_name === "string" ? record.display_name : undefined,
+      contextLength: toPositiveInt(record.context_length),
+      supportsReasoning: toOptionalBoolean(record.supports_reasoning),
+      supportsImageIn: toOptionalBoolean(record.supports_image_in),
+    });
+  }
+  return models;
+}
+
+/**
+ * OpenCode-side base id for a Kimi API model id. Reverses KIMI_MODEL_ALIASES
+ * so `kimi-for-coding` keeps surfacing as `kimicode-kimi-k2.5`.
+ */
+function toOpencodeBaseId(kimiModelId: string): string {
+  for (const [opencodeId, kimiId] of Object.entries(KIMI_MODEL_ALIASES)) {
+    if (kimiId === kimiModelId) return opencodeId;
+  }
+  return kimiModelId;
+}
+
+/**
+ * Build `kimicode-*` definitions for discovered models.
+ *
+ * Each model gets a base entry plus thinking variants unless `/models` says
+ * it does not support reasoning. Names and modalities fall back to the static
+ * table for known ids so existing entries keep their labels.
+ */
+export function buildModelDefinitions(models: KimiModelInfo[]): OpencodeModelDefinitions {
+  const definitions: OpencodeModelDefinitions = {};
+
+  for (const model of models) {
+    const baseId = `${KIMICODE_MODEL_PREFIX}${toOpencodeBaseId(model.id)}`;
+    const known = OPENCODE_MODEL_DEFINITIONS[baseId];
+    const baseName = known?.name ?? `Kimi Code (${model.displayName ?? model.id})`;
+
+    let modalities: ModelModalities = known?.modalities ?? { input: ["text"], output: ["text"] };
+    if (model.supportsImageIn !== undefined) {
+      modalities = { input: model.supportsImageIn ? ["text", "image"] : ["text"], output: ["text"] };
+    }
+
+    const context = model.contextLength ?? known?.limit.context ?? DEFAULT_CONTEXT_TOKENS;
+    const limit = { context, output: Math.min(known?.limit.output ?? DEFAULT_OUTPUT_TOKENS, context) };
+
+    definitions[baseId] = { name: baseName, limit, modalities };
+    if (model.supportsReasoning === false) continue;
+
+    for (const variant of THINKING_VARIANTS) {
+      definitions[`${baseId}${variant.suffix}`] = {
+        name: `${baseName} ${variant.label}`,
+        limit: { ...limit },
+        modalities,
+      };
+    }
+  }
+
+  return definitions;
+}
+
+// =============================================================================
+// Cache
+// =============================================================================
+
+function getModelCachePath(): string {
+  return join(getConfigDir(), MODEL_CACHE_FILENAME);
+}
+
+function readModelCache(): ModelCacheFile | null {
+  const path = getModelCachePath();
+  if (!existsSync(path)) return null;
+
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf-8")) as Partial<ModelCacheFile>;
+    if (parsed?.version !== 1 || !Array.isArray(parsed.models) || typeof parsed.fetchedAt !== "number") {
+      return null;
+    }
+    return parsed as ModelCacheFile;
+  } catch (error) {
+    log.warn("Failed to read model cache", { error: String(error) });
+    return null;
+  }
+}
+
+function writeModelCache(models: KimiModelInfo[]): void {
+  const path = getModelCachePath();
+  const tempPath = `${path}.${randomBytes(6).toString("hex")}.tmp`;
+  const content: ModelCacheFile = { version: 1, fetchedAt: Date.now(), models };
+
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(tempPath, JSON.stringify(content, null, 2), "utf-8");
+    renameSync(tempPath, path);
+  } catch (error) {
+    log.warn("Failed to write model cache", { error: String(error) });
+  }
+}
+
+/**
+ * Model definitions from the on-disk cache, or null if nothing was discovered yet.
+ * Stale caches are still used; they are only refreshed in the background.
+ */
+export function loadDiscoveredModelDefinitions(): OpencodeModelDefinitions | null {
+  const cache = readModelCache();
+  if (!cache || cache.models.length === 0) return null;
+  const definitions = buildModelDefinitions(cache.models);
+  return Object.keys(definitions).length > 0 ? definitions : null;
+}
+
+// =============================================================================
+// Fetching
+// =============================================================================
+
+/**
+ * Fetch the model list for one account.
+ */
+export async function fetchKimiModels(accessToken: string, deviceId: string): Promise<KimiModelInfo[]> {
+  const response = await fetch(KIMI_MODELS_ENDPOINT, {
+    method: "GET",
+    headers: {
+      authorization: `Bearer ${accessToken}`,
+      "user-agent": getKimiUserAgent(),
+      ...getKimiDeviceHeaders(deviceId),
+    },
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => "");
+    throw new Error(`Kimi models request failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+
+  return parseKimiModelsPayload(await response.json());
+}
+
+/**
+ * Refresh the model cache from `/models` if it is older than `maxAgeMs`.
+ * Tries enabled accounts in order until one succeeds. Never throws.
+ *
+ * @returns Fresh definitions when the cache was updated, otherwise null
+ */
+export async function refreshDiscoveredModels(
+  accountManager: AccountManager,
+  client: PluginClient,
+  providerId: string,
+  maxAgeMs: number = MODEL_CACHE_MAX_AGE_MS,
+): Promise<OpencodeModelDefinitions | null> {
+  const cache = readModelCache();
+  if (cache && Date.now() - cache.fetchedAt < maxAgeMs) {
+    return null;
+  }
+
+  for (const account of accountManager.getEnabledAccounts()) {
+    try {
+      const accessToken = await resolveAccountAccessToken(accountManager, account, client, providerId);
+      if (!accessToken) continue;
+
+      const deviceId = account.fingerprint?.deviceId ?? generateFingerprint().deviceId;
+      const models = await fetchKimiModels(accessToken, deviceId);
+      if (models.length === 0) {
+        log.warn("Kimi /models returned no models; keeping existing definitions");
+        return null;
+      }
+
+      writeModelCache(models);
+      log.debug("Discovered Kimi models", { models: models.map((m) => m.id) });
+      return buildModelDefinitions(models);
+    } catch (error) {
+      log.debug("Model discovery failed", {
+        accountIndex: account.index,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return null;
+}
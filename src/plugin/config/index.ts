@@ -16,6 +16,7 @@ export {
   KimicodeConfigSchema,
   DEFAULT_CONFIG,
   type KimicodeConfig,
+  type ModelRoutingRule,
 } from "./schema";
 
 export {
@@ -12,7 +12,7 @@
 import { existsSync, readFileSync } from "node:fs";
 import { join } from "node:path";
 import { homedir } from "node:os";
-import { AccountSelectionStrategySchema, KimicodeConfigSchema, DEFAULT_CONFIG, type KimicodeConfig } from "./schema";
+import { AccountSelectionStrategySchema, SchedulingModeSchema, KimicodeConfigSchema, DEFAULT_CONFIG, type KimicodeConfig } from "./schema";
 import { createLogger } from "../logger";
 
 const log = createLogger("config");
@@ -164,6 +164,11 @@ function applyEnvOverrides(config: KimicodeConfig): KimicodeConfig {
         ? true
         : config.pid_offset_enabled,
 
+    // OPENCODE_KIMICODE_SCHEDULING_MODE=cache_first|balance|performance_first
+    scheduling_mode: env.OPENCODE_KIMICODE_SCHEDULING_MODE
+      ? SchedulingModeSchema.catch(config.scheduling_mode).parse(env.OPENCODE_KIMICODE_SCHEDULING_MODE)
+      : config.scheduling_mode,
+
   };
 }
 
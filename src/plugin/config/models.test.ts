@@ -9,6 +9,9 @@ describe("OPENCODE_MODEL_DEFINITIONS", () => {
     expect(modelNames).toEqual([
       "kimicode-kimi-k2.5",
       "kimicode-kimi-k2.5-thinking",
+      "kimicode-kimi-k2.5-thinking-high",
+      "kimicode-kimi-k2.5-thinking-low",
+      "kimicode-kimi-k2.5-thinking-medium",
     ])
   })
 
@@ -20,6 +20,17 @@ export interface OpencodeModelDefinition extends ProviderModel {
 
 export type OpencodeModelDefinitions = Record<string, OpencodeModelDefinition>
 
+/** Prefix that keeps Kimi Code OAuth models distinct from Moonshot API-key models. */
+export const KIMICODE_MODEL_PREFIX = "kimicode-"
+
+/**
+ * OpenCode model ids (without prefix and thinking suffix) that map to a
+ * different Kimi API model id. Anything else is sent to Kimi as-is.
+ */
+export const KIMI_MODEL_ALIASES: Record<string, string> = {
+  "kimi-k2.5": "kimi-for-coding",
+}
+
 const TEXT_ONLY: ModelModalities = {
   input: ["text"],
   output: ["text"],
@@ -34,7 +45,8 @@ export const OPENCODE_MODEL_DEFINITIONS: OpencodeModelDefinitions = {
   // Kimi Code OAuth models are additive-only under the Moonshot provider.
   // Prefix with "kimicode-" to keep them distinct from Moonshot API-key models.
   //
-  // Two modes matching the kimi-cli / web GUI: thinking off and thinking on.
+  // Thinking off, plus thinking on at kimi-cli's three effort levels.
+  // "-thinking" is kept as the high-effort id for existing configs.
   // kimi-cli default max_tokens is 32000; context reported by /models is 262144.
   "kimicode-kimi-k2.5": {
     name: "Kimi Code (K2.5)",
@@ -46,4 +58,19 @@ export const OPENCODE_MODEL_DEFINITIONS: OpencodeModelDefinitions = {
     limit: { context: 262144, output: 32000 },
     modalities: MULTIMODAL,
   },
+  "kimicode-kimi-k2.5-thinking-low": {
+    name: "Kimi Code (K2.5) Thinking Low",
+    limit: { context: 262144, output: 32000 },
+    modalities: MULTIMODAL,
+  },
+  "kimicode-kimi-k2.5-thinking-medium": {
+    name: "Kimi Code (K2.5) Thinking Medium",
+    limit: { context: 262144, output: 32000 },
+    modalities: MULTIMODAL,
+  },
+  "kimicode-kimi-k2.5-thinking-high": {
+    name: "Kimi Code (K2.5) Thinking High",
+    limit: { context: 262144, output: 32000 },
+    modalities: MULTIMODAL,
+  },
 }
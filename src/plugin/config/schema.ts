@@ -41,6 +41,23 @@ export type ToastScope = z.infer<typeof ToastScopeSchema>;
 export const SchedulingModeSchema = z.enum(['cache_first', 'balance', 'performance_first']);
 export type SchedulingMode = z.infer<typeof SchedulingModeSchema>;
 
+/**
+ * Restricts which accounts may serve some requests (see `model_routing`).
+ *
+ * - `models`: OpenCode model ids (`kimicode-kimi-k2.5-thinking`); a trailing
+ *   `*` matches by prefix. Omit to match every model.
+ * - `thinking`: Match only requests with thinking on (`true`) or off (`false`),
+ *   after any `reasoning_effort`/`thinking` in the request body is applied.
+ * - `accounts`: Accounts allowed to serve matching requests, by account id,
+ *   label, email or Kimi user id.
+ */
+export const ModelRoutingRuleSchema = z.object({
+  models: z.array(z.string().min(1)).optional(),
+  thinking: z.boolean().optional(),
+  accounts: z.array(z.string().min(1)).min(1),
+});
+export type ModelRoutingRule = z.infer<typeof ModelRoutingRuleSchema>;
+
 /**
  * Main configuration schema for the Kimi Code plugin.
  */
@@ -183,8 +200,9 @@ export const KimicodeConfigSchema = z.object({
   pid_offset_enabled: z.boolean().default(false),
    
   /**
-   * Switch to another account immediately on first rate limit (after 1s delay).
-   * When disabled, retries same account first, then switches on second rate limit.
+   * Switch to another account immediately on first rate limit.
+   * When disabled, retries the same account once (after a 1s delay), then
+   * switches on the second rate limit.
    * 
    * @default true
    */
@@ -205,10 +223,40 @@ export const KimicodeConfigSchema = z.object({
   /**
    * Maximum seconds to wait for same account in cache_first mode.
    * If the account's rate limit reset time exceeds this, switch accounts.
+   * Rate limits without a server retry hint always switch accounts.
    * 
    * @default 60
    */
   max_cache_first_wait_seconds: z.number().min(5).max(300).default(60),
+
+  /**
+   * Minutes an OpenCode session stays pinned to its account after its last request.
+   * Pinned sessions keep their prompt cache; new sessions go to the account with
+   * the fewest pinned sessions. Set to 0 to select accounts per request.
+   * Not used with round-robin selection or `performance_first`.
+   *
+   * @default 60
+   */
+  session_affinity_ttl_minutes: z.number().min(0).max(1440).default(60),
+
+  /**
+   * Maximum concurrent requests sent to one account.
+   * A request counts until its response has been fully read. When every
+   * account is at the limit, requests wait for one to finish.
+   * Set to 0 for no limit.
+   *
+   * @default 4
+   */
+  max_concurrent_requests_per_account: z.number().min(0).max(64).default(4),
+
+  /**
+   * Rules limiting which accounts serve which models, e.g. to keep heavy
+   * thinking traffic on dedicated accounts. The first rule matching a
+   * request applies; requests no rule matches may use any account.
+   *
+   * @default []
+   */
+  model_routing: z.array(ModelRoutingRuleSchema).default([]),
     
   /**
    * TTL in seconds for failure count expiration.
@@ -229,7 +277,9 @@ export const KimicodeConfigSchema = z.object({
    
   /**
    * Maximum backoff delay in seconds for exponential retry.
-   * This caps how long the exponential backoff can grow.
+   * This caps how long the exponential backoff can grow, both for capacity
+   * retries and for how long a rate-limited account is parked. An explicit
+   * Retry-After from the server is still honored as-is.
    * 
    * @default 60
    */
@@ -244,6 +294,56 @@ export const KimicodeConfigSchema = z.object({
    */
   request_jitter_max_ms: z.number().min(0).max(5000).default(0),
    
+  // =========================================================================
+  // Empty Response Retry
+  // =========================================================================
+  
+  /**
+   * Maximum attempts for a streaming request whose SSE stream errors or
+   * closes before any content is delivered. Each retry moves to another
+   * account; when attempts run out the request fails with an
+   * EmptyResponseError instead of returning an empty stream.
+   * 
+   * Set to 1 to fail on the first empty stream without retrying.
+   * 
+   * @default 3
+   */
+  empty_response_max_attempts: z.number().min(1).max(10).default(3),
+  
+  // =========================================================================
+  // Soft Quota
+  // =========================================================================
+  
+  /**
+   * Skip accounts whose Kimi usage is at or above this percentage of their
+   * limit, so selection moves off an account before it starts returning 429s.
+   * Usage is read from Kimi's /usages endpoint by the quota refresher.
+   * 
+   * If every account is over the threshold, the threshold is ignored and
+   * selection falls back to the normal rate-limit handling.
+   * 
+   * Set to 100 to disable.
+   * 
+   * @default 90
+   */
+  soft_quota_threshold_percent: z.number().min(1).max(100).default(90),
+  
+  /**
+   * Minutes between background quota refreshes.
+   * Set to 0 to disable the quota refresher (soft quota then has no data).
+   * 
+   * @default 15
+   */
+  quota_refresh_interval_minutes: z.number().min(0).max(1440).default(15),
+  
+  /**
+   * How long cached quota data is trusted, in minutes.
+   * `auto` uses twice the refresh interval (minimum 10 minutes).
+   * 
+   * @default "auto"
+   */
+  soft_quota_cache_ttl_minutes: z.union([z.literal('auto'), z.number().min(1).max(1440)]).default('auto'),
+  
   // =========================================================================
   // Health Score (used by hybrid strategy)
   // =========================================================================
@@ -268,6 +368,47 @@ export const KimicodeConfigSchema = z.object({
     initial_tokens: z.number().min(1).max(1000).default(50),
   }).optional(),
   
+  // =========================================================================
+  // Model Discovery
+  // =========================================================================
+  
+  /**
+   * Discover available models from Kimi's /models endpoint and write them to
+   * opencode.json as kimicode-* entries. The result is cached in
+   * kimicode-models.json and refreshed at most once a day; without a cache
+   * the built-in model table is used.
+   * 
+   * @default true
+   */
+  model_discovery: z.boolean().default(true),
+
+  /**
+   * Look up each account's profile (display name, email) from Kimi after
+   * login and token refresh, for menus, toasts and logs. Accounts are always
+   * identified by the user id in their token; this only adds a readable name.
+   * 
+   * @default true
+   */
+  account_profile_lookup: z.boolean().default(true),
+  
+  /**
+   * Reload the account pool when kimicode-accounts.json changes, so accounts
+   * added, disabled or removed from another terminal apply without a restart.
+   * Only applies to the default file storage backend.
+   * 
+   * @default true
+   */
+  account_pool_watch: z.boolean().default(true),
+  
+  /**
+   * Record the token usage Kimi reports for each request (per account,
+   * model and OpenCode session) in kimicode-usage.json.
+   * View it with `kimicode-accounts usage`.
+   * 
+   * @default true
+   */
+  usage_tracking: z.boolean().default(true),
+  
   // =========================================================================
   // Auto-Update
   // =========================================================================
@@ -301,10 +442,21 @@ export const DEFAULT_CONFIG: KimicodeConfig = {
   switch_on_first_rate_limit: true,
   scheduling_mode: 'cache_first',
   max_cache_first_wait_seconds: 60,
+  session_affinity_ttl_minutes: 60,
+  max_concurrent_requests_per_account: 4,
+  model_routing: [],
   failure_ttl_seconds: 3600,
   default_retry_after_seconds: 60,
   max_backoff_seconds: 60,
   request_jitter_max_ms: 0,
+  empty_response_max_attempts: 3,
+  soft_quota_threshold_percent: 90,
+  quota_refresh_interval_minutes: 15,
+  soft_quota_cache_ttl_minutes: 'auto',
+  model_discovery: true,
+  account_profile_lookup: true,
+  account_pool_watch: true,
+  usage_tracking: true,
   auto_update: true,
   health_score: {
     initial: 70,
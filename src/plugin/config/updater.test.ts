@@ -44,6 +44,22 @@ describe("updateOpencodeConfig", () => {
     expect(writtenConfig.provider?.moonshotai?.models).toBeDefined();
   });
 
+  test("writes the provided model definitions instead of the static table", async () => {
+    const models = {
+      "kimicode-kimi-k3": {
+        name: "Kimi Code (kimi-k3)",
+        limit: { context: 524288, output: 32000 },
+        modalities: { input: ["text" as const], output: ["text" as const] },
+      },
+    };
+
+    const result = await updateOpencodeConfig({ configPath, models });
+
+    expect(result.success).toBe(true);
+    const writtenConfig = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+    expect(writtenConfig.provider.moonshotai.models).toEqual(models);
+  });
+
   test("merges plugin models into existing moonshotai models (additive)", async () => {
     const existingConfig = {
       $schema: "https://opencode.ai/config.json",
@@ -7,7 +7,7 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { homedir } from "node:os";
-import { OPENCODE_MODEL_DEFINITIONS } from "./models";
+import { OPENCODE_MODEL_DEFINITIONS, type OpencodeModelDefinitions } from "./models";
 
 // =============================================================================
 // Types
@@ -35,6 +35,8 @@ export interface OpencodeConfig {
 export interface UpdateConfigOptions {
   /** Override the config file path (for testing) */
   configPath?: string;
+  /** Model definitions to write (defaults to the static OPENCODE_MODEL_DEFINITIONS) */
+  models?: OpencodeModelDefinitions;
 }
 
 // =============================================================================
@@ -105,7 +107,7 @@ export function getOpencodeConfigPath(): string {
  *
  * This function:
  * 1. Reads existing opencode.json/opencode.jsonc (or creates default structure)
- * 2. Replaces `provider.moonshotai.models` with plugin models
+ * 2. Merges plugin models (discovered or static) into `provider.moonshotai.models`
  * 3. Writes back to disk with proper formatting
  *
  * Preserves:
@@ -191,7 +193,7 @@ export async function updateOpencodeConfig(
 
     config.provider.moonshotai.models = {
       ...cleanedModels,
-      ...OPENCODE_MODEL_DEFINITIONS,
+      ...(options.models ?? OPENCODE_MODEL_DEFINITIONS),
     };
 
     // Ensure config directory exists
@@ -3,6 +3,7 @@ import { join } from "node:path";
 import { homedir } from "node:os";
 import { env } from "node:process";
 import type { KimicodeConfig } from "./config";
+import { formatAccountLabel } from "./identity";
 import { ensureGitignoreSync } from "./storage";
 
 const MAX_BODY_PREVIEW_CHARS = 12000;
@@ -330,6 +331,9 @@ function formatError(error: unknown): string {
 export interface AccountDebugInfo {
   index: number;
   email?: string;
+  label?: string;
+  displayName?: string;
+  userId?: string;
   family: string;
   totalAccounts: number;
   rateLimitState?: { kimi?: number };
@@ -338,11 +342,7 @@ export interface AccountDebugInfo {
 export function logAccountContext(label: string, info: AccountDebugInfo): void {
   if (!getDebugState().debugEnabled) return;
 
-  const accountLabel = info.email
-    ? info.email
-    : info.index >= 0
-      ? `Account ${info.index + 1}`
-      : "All accounts";
+  const accountLabel = info.index >= 0 || info.email ? formatAccountLabel(info) : "All accounts";
 
   const indexLabel = info.index >= 0 ? `${info.index + 1}/${info.totalAccounts}` : `-/${info.totalAccounts}`;
 
@@ -366,14 +366,14 @@ export function logAccountContext(label: string, info: AccountDebugInfo): void {
 
 export function logRateLimitEvent(
   accountIndex: number,
-  email: string | undefined,
+  accountName: string | undefined,
   family: string,
   status: number,
   retryAfterMs: number,
   bodyInfo: { message?: string; quotaResetTime?: string; retryDelayMs?: number | null; reason?: string },
 ): void {
   if (!getDebugState().debugEnabled) return;
-  const accountLabel = email || `Account ${accountIndex + 1}`;
+  const accountLabel = accountName || `Account ${accountIndex + 1}`;
   logDebug(`[RateLimit] ${status} on ${accountLabel} family=${family} retryAfterMs=${retryAfterMs}`);
   if (bodyInfo.message) {
     logDebug(`[RateLimit] message: ${bodyInfo.message}`);
@@ -391,12 +391,19 @@ export function logRateLimitEvent(
 
 export function logRateLimitSnapshot(
   family: string,
-  accounts: Array<{ index: number; email?: string; rateLimitResetTimes?: { kimi?: number } }>,
+  accounts: Array<{
+    index: number;
+    email?: string;
+    label?: string;
+    displayName?: string;
+    userId?: string;
+    rateLimitResetTimes?: { kimi?: number };
+  }>,
 ): void {
   if (!getDebugState().debugEnabled) return;
   const now = Date.now();
   const entries = accounts.map((account) => {
-    const label = account.email ? account.email : `Account ${account.index + 1}`;
+    const label = formatAccountLabel(account);
     const reset = account.rateLimitResetTimes?.[family as "kimi"];
     if (typeof reset !== "number") {
       return `${label}=ready`;
@@ -479,26 +486,44 @@ export function logCacheStats(
   cacheReadTokens: number,
   cacheWriteTokens: number,
   totalInputTokens: number,
+  scope?: { account: string; sessionId: string; accountHitRate: number; sessionHitRate: number },
 ): void {
   if (!getDebugState().debugEnabled) return;
   const cacheHitRate = totalInputTokens > 0 
     ? Math.round((cacheReadTokens / totalInputTokens) * 100) 
     : 0;
   const status = cacheReadTokens > 0 ? "HIT" : (cacheWriteTokens > 0 ? "WRITE" : "MISS");
-  logDebug(`[Cache] ${status} model=${model} read=${cacheReadTokens} write=${cacheWriteTokens} total=${totalInputTokens} hitRate=${cacheHitRate}%`);
+  const scopeInfo = scope
+    ? ` account=${scope.account} accountHitRate=${Math.round(scope.accountHitRate * 100)}% session=${scope.sessionId} sessionHitRate=${Math.round(scope.sessionHitRate * 100)}%`
+    : "";
+  logDebug(`[Cache] ${status} model=${model} read=${cacheReadTokens} write=${cacheWriteTokens} total=${totalInputTokens} hitRate=${cacheHitRate}%${scopeInfo}`);
+}
+
+/**
+ * Logs the token usage reported for one completed request.
+ */
+export function logUsage(
+  account: string,
+  model: string,
+  sessionId: string | undefined,
+  usage: { promptTokens: number; completionTokens: number; cachedTokens: number },
+): void {
+  if (!getDebugState().debugEnabled) return;
+  const sessionInfo = sessionId ? ` session=${sessionId}` : "";
+  logDebug(`[Usage] account=${account} model=${model}${sessionInfo} prompt=${usage.promptTokens} completion=${usage.completionTokens} cached=${usage.cachedTokens}`);
 }
 
 /**
  * Logs quota status for an account.
  */
 export function logQuotaStatus(
-  accountEmail: string | undefined,
+  accountName: string | undefined,
   accountIndex: number,
   quotaPercent: number,
   family?: string,
 ): void {
   if (!getDebugState().debugEnabled) return;
-  const accountLabel = accountEmail || `Account ${accountIndex + 1}`;
+  const accountLabel = accountName || `Account ${accountIndex + 1}`;
   const familyInfo = family ? ` family=${family}` : "";
   const status = quotaPercent <= 0 ? "EXHAUSTED" : quotaPercent < 20 ? "LOW" : "OK";
   logDebug(`[Quota] ${accountLabel} remaining=${quotaPercent.toFixed(1)}% status=${status}${familyInfo}`);
@@ -0,0 +1,82 @@
+/**
+ * File-backed store for an in-flight device authorization.
+ *
+ * The pending device code is written to kimicode-device-auth.json when a
+ * login starts, so a login restarted after Ctrl-C or a crash can resume
+ * polling the same code (the user may already have approved it) instead of
+ * issuing a new one.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { randomBytes } from "node:crypto";
+import type { DeviceAuthorizationStore, PendingDeviceAuthorization } from "../kimi/oauth";
+import { createLogger } from "./logger";
+import { ensureGitignoreSync, getConfigDir } from "./storage";
+
+const log = createLogger("device-auth-store");
+
+const DEVICE_AUTH_FILENAME = "kimicode-device-auth.json";
+
+function getDeviceAuthPath(): string {
+  return join(getConfigDir(), DEVICE_AUTH_FILENAME);
+}
+
+function isPendingDeviceAuthorization(value: unknown): value is PendingDeviceAuthorization {
+  if (!value || typeof value !== "object") return false;
+  const record = value as Record<string, unknown>;
+  return (
+    typeof record.deviceCode === "string" &&
+    typeof record.userCode === "string" &&
+    typeof record.verificationUri === "string" &&
+    typeof record.intervalSeconds === "number" &&
+    typeof record.expiresAt === "number"
+  );
+}
+
+/**
+ * Create a store backed by kimicode-device-auth.json in the config dir.
+ * Expired codes are discarded on load; I/O errors are logged, never thrown.
+ */
+export function createFileDeviceAuthorizationStore(): DeviceAuthorizationStore {
+  return {
+    load() {
+      const path = getDeviceAuthPath();
+      if (!existsSync(path)) return null;
+      try {
+        const parsed: unknown = JSON.parse(readFileSync(path, "utf-8"));
+        if (isPendingDeviceAuthorization(parsed) && parsed.expiresAt > Date.now()) {
+          return parsed;
+        }
+      } catch (error) {
+        log.debug("Ignoring unreadable device authorization file", { error: String(error) });
+      }
+      this.clear();
+      return null;
+    },
+
+    save(pending) {
+      const path = getDeviceAuthPath();
+      const configDir = getConfigDir();
+      try {
+        mkdirSync(configDir, { recursive: true });
+        ensureGitignoreSync(configDir);
+        const tempPath = `${path}.${randomBytes(6).toString("hex")}.tmp`;
+        writeFileSync(tempPath, JSON.stringify(pending, null, 2), { encoding: "utf-8", mode: 0o600 });
+        renameSync(tempPath, path);
+      } catch (error) {
+        log.warn("Failed to save pending device authorization", { error: String(error) });
+      }
+    },
+
+    clear() {
+      try {
+        unlinkSync(getDeviceAuthPath());
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+          log.warn("Failed to remove pending device authorization", { error: String(error) });
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import {
+  extractKimiUserIdFromJwt,
+  formatAccountLabel,
+  parseKimiUserInfoPayload,
+} from "./identity";
+import { deduplicateAccountsByIdentity } from "./storage";
+import { AccountManager } from "./accounts";
+
+function fakeJwt(payload: Record<string, unknown>): string {
+  return `eyJhbGciOiJub25lIn0.${Buffer.from(JSON.stringify(payload)).toString("base64url")}.sig`;
+}
+
+describe("account identity", () => {
+  it("extracts the user id from a JWT payload", () => {
+    expect(extractKimiUserIdFromJwt(fakeJwt({ user_id: "u-123" }))).toBe("u-123");
+    expect(extractKimiUserIdFromJwt(fakeJwt({ sub: "x" }))).toBeUndefined();
+    expect(extractKimiUserIdFromJwt("opaque-token")).toBeUndefined();
+  });
+
+  it("parses profile payloads at the top level or nested", () => {
+    expect(parseKimiUserInfoPayload({ id: 42, name: "Ada", email: "ada@example.com" })).toEqual({
+      userId: "42",
+      displayName: "Ada",
+      email: "ada@example.com",
+    });
+    expect(parseKimiUserInfoPayload({ data: { user_id: "u-1", nickname: "ada", email: "+86 138" } })).toEqual({
+      userId: "u-1",
+      displayName: "ada",
+      email: undefined,
+    });
+    expect(parseKimiUserInfoPayload("nope")).toEqual({});
+  });
+
+  it("formats labels from the most specific name available", () => {
+    expect(formatAccountLabel({ index: 0, label: "work", displayName: "Ada", userId: "u-1" })).toBe("work");
+    expect(formatAccountLabel({ index: 0, displayName: "Ada", email: "ada@example.com" })).toBe("Ada");
+    expect(formatAccountLabel({ index: 1, userId: "u-1" })).toBe("u-1");
+    expect(formatAccountLabel({ index: 2 })).toBe("Account 3");
+  });
+
+  it("dedupes by user id, falling back to email", () => {
+    const accounts = [
+      { refreshToken: "old", userId: "u-1", lastUsed: 1 },
+      { refreshToken: "legacy", email: "u-1", lastUsed: 3 },
+      { refreshToken: "other", userId: "u-2", lastUsed: 2 },
+      { refreshToken: "anonymous", lastUsed: 0 },
+    ];
+
+    expect(deduplicateAccountsByIdentity(accounts).map((a) => a.refreshToken)).toEqual([
+      "legacy",
+      "other",
+      "anonymous",
+    ]);
+  });
+
+  it("derives user ids for stored accounts and keeps them across refreshes", async () => {
+    const originalConfigDir = process.env.OPENCODE_CONFIG_DIR;
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "kimicode-identity-test-"));
+    process.env.OPENCODE_CONFIG_DIR = tempDir;
+
+    const manager = new AccountManager(undefined, {
+      version: 1,
+      accounts: [{ refreshToken: fakeJwt({ user_id: "u-7" }), addedAt: 1, lastUsed: 0 }],
+      activeIndex: 0,
+    });
+    const account = manager.getAccounts()[0]!;
+    expect(account.userId).toBe("u-7");
+
+    manager.updateFromAuth(account, { type: "oauth", refresh: "opaque-rotated", access: "a", expires: 1 });
+    expect(account.userId).toBe("u-7");
+
+    expect(manager.setAccountIdentity(account, { userId: "profile-id", displayName: "Ada" })).toBe(true);
+    expect(account).toMatchObject({ userId: "u-7", displayName: "Ada" });
+    expect(manager.toStorage().accounts[0]).toMatchObject({ userId: "u-7", displayName: "Ada" });
+    expect(manager.setAccountIdentity(account, { displayName: "Ada" })).toBe(false);
+
+    await manager.saveToDiskReplace();
+    expect(JSON.parse(fs.readFileSync(path.join(tempDir, "kimicode-accounts.json"), "utf-8")).accounts[0].displayName).toBe("Ada");
+
+    if (originalConfigDir === undefined) {
+      delete process.env.OPENCODE_CONFIG_DIR;
+    } else {
+      process.env.OPENCODE_CONFIG_DIR = originalConfigDir;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+});
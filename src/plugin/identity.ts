@@ -0,0 +1,135 @@
+/**
+ * Account identity.
+ *
+ * Every Kimi token carries the account's `user_id` in its JWT payload, which
+ * is the stable key used to dedupe the pool (a rotated refresh token still
+ * maps to the same account). When available, the profile endpoint adds a
+ * display name and email so menus, toasts and logs can show who an account
+ * belongs to instead of "Account 3".
+ */
+
+import { KIMI_USER_INFO_ENDPOINT, getKimiDeviceHeaders, getKimiUserAgent } from "../constants";
+import { createLogger } from "./logger";
+
+const log = createLogger("identity");
+
+const USER_INFO_TIMEOUT_MS = 5000;
+
+export interface AccountIdentity {
+  userId?: string;
+  displayName?: string;
+  email?: string;
+}
+
+/**
+ * Extract the Kimi user id from a JWT refresh/access token payload.
+ */
+export function extractKimiUserIdFromJwt(token: string): string | undefined {
+  const parts = token.split(".");
+  if (parts.length < 2) return undefined;
+  try {
+    const payloadJson = Buffer.from(parts[1]!, "base64url").toString("utf8");
+    const payload = JSON.parse(payloadJson) as { user_id?: unknown };
+    if (typeof payload.user_id === "string" && payload.user_id.length > 0) {
+      return payload.user_id;
+    }
+  } catch {
+    // ignore
+  }
+  return undefined;
+}
+
+function firstString(record: Record<string, unknown>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "string" && value.trim()) return value.trim();
+    if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  }
+  return undefined;
+}
+
+/**
+ * Parse a profile payload. Accepts the fields at the top level or nested
+ * under `user` / `data`.
+ */
+export function parseKimiUserInfoPayload(payload: unknown): AccountIdentity {
+  if (!payload || typeof payload !== "object") return {};
+  const root = payload as Record<string, unknown>;
+  const nested = [root.user, root.data].find(
+    (value): value is Record<string, unknown> => !!value && typeof value === "object" && !Array.isArray(value),
+  );
+  const record = nested ?? root;
+
+  const email = firstString(record, ["email"]);
+  return {
+    userId: firstString(record, ["user_id", "id"]),
+    displayName: firstString(record, ["display_name", "nickname", "name"]),
+    email: email?.includes("@") ? email : undefined,
+  };
+}
+
+/**
+ * Fetch the account profile. Never throws; returns null when the endpoint
+ * is unavailable.
+ */
+export async function fetchKimiUserInfo(accessToken: string, deviceId: string): Promise<AccountIdentity | null> {
+  try {
+    const response = await fetch(KIMI_USER_INFO_ENDPOINT, {
+      method: "GET",
+      headers: {
+        authorization: `Bearer ${accessToken}`,
+        "user-agent": getKimiUserAgent(),
+        ...getKimiDeviceHeaders(deviceId),
+      },
+      signal: AbortSignal.timeout(USER_INFO_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      log.debug("User info request failed", { status: response.status });
+      return null;
+    }
+    return parseKimiUserInfoPayload(await response.json());
+  } catch (error) {
+    log.debug("User info request failed", { error: String(error) });
+    return null;
+  }
+}
+
+/**
+ * Identity for a freshly issued token pair: the JWT user id plus the profile
+ * when `lookupProfile` is set.
+ */
+export async function resolveAccountIdentity(
+  tokens: { access?: string; refresh: string },
+  deviceId: string,
+  lookupProfile: boolean,
+): Promise<AccountIdentity> {
+  const userId = extractKimiUserIdFromJwt(tokens.refresh) ?? (tokens.access ? extractKimiUserIdFromJwt(tokens.access) : undefined);
+  const profile = lookupProfile && tokens.access ? await fetchKimiUserInfo(tokens.access, deviceId) : null;
+  return {
+    userId: userId ?? profile?.userId,
+    displayName: profile?.displayName,
+    email: profile?.email,
+  };
+}
+
+/**
+ * Key used to dedupe accounts: the user id, falling back to email for
+ * entries saved before user ids were stored.
+ */
+export function getAccountIdentityKey(account: { userId?: string; email?: string }): string | undefined {
+  return account.userId || account.email || undefined;
+}
+
+/**
+ * Human-readable account name for menus, toasts and logs:
+ * label > display name > email > user id > "Account N".
+ */
+export function formatAccountLabel(account: {
+  index: number;
+  label?: string;
+  displayName?: string;
+  email?: string;
+  userId?: string;
+}): string {
+  return account.label || account.displayName || account.email || account.userId || `Account ${account.index + 1}`;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+
+import { AccountManager } from "./accounts";
+import { findModelRoutingRule, resolveAllowedAccountIds } from "./model-routing";
+
+describe("findModelRoutingRule", () => {
+  it("returns the first rule matching the model and thinking mode", () => {
+    const rules = [
+      { models: ["kimicode-kimi-k2.5"], thinking: false, accounts: ["light"] },
+      { thinking: true, accounts: ["heavy"] },
+      { models: ["kimicode-kimi-*"], accounts: ["any-kimi"] },
+    ];
+
+    expect(findModelRoutingRule(rules, "kimicode-kimi-k2.5", false)?.accounts).toEqual(["light"]);
+    expect(findModelRoutingRule(rules, "kimicode-kimi-k2.5-thinking", true)?.accounts).toEqual(["heavy"]);
+    expect(findModelRoutingRule(rules, "kimicode-kimi-k2-turbo", false)?.accounts).toEqual(["any-kimi"]);
+    expect(findModelRoutingRule(rules, "kimicode-other", false)).toBeNull();
+  });
+});
+
+describe("model routing in account selection", () => {
+  it("only selects accounts the rule allows", () => {
+    const manager = new AccountManager(undefined, {
+      version: 1,
+      accounts: [
+        { refreshToken: "r-0", email: "Main@example.com", addedAt: 1, lastUsed: 0 },
+        { refreshToken: "r-1", label: "heavy-1", addedAt: 1, lastUsed: 0 },
+        { refreshToken: "r-2", label: "heavy-2", addedAt: 1, lastUsed: 0 },
+      ],
+      activeIndex: 0,
+    });
+    const [main, heavy1, heavy2] = manager.getAccounts();
+
+    const heavy = resolveAllowedAccountIds({ accounts: ["heavy-1", "heavy-2"] }, manager.getAccounts());
+    expect(resolveAllowedAccountIds({ accounts: ["main@example.com"] }, manager.getAccounts())).toEqual(new Set([main!.id]));
+
+    expect(manager.getCurrentOrNextForFamily("kimi")).toBe(main);
+    expect(manager.getCurrentOrNextForFamily("kimi", null, "sticky", "kimi-cli", false, 100, 0, heavy)).toBe(heavy1);
+
+    manager.markRateLimited(heavy1!, 60_000, "kimi");
+    expect(manager.getCurrentOrNextForFamily("kimi", null, "hybrid", "kimi-cli", false, 100, 0, heavy)).toBe(heavy2);
+
+    manager.markRateLimited(heavy2!, 30_000, "kimi");
+    expect(manager.getCurrentOrNextForFamily("kimi", null, "round-robin", "kimi-cli", false, 100, 0, heavy)).toBeNull();
+    expect(manager.getMinWaitTimeForFamily("kimi", null, "kimi-cli", true, heavy)).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Model Routing
+ *
+ * Applies the `model_routing` config: rules that limit which accounts may
+ * serve requests for some models, e.g. to keep heavy thinking traffic on
+ * dedicated accounts so it cannot exhaust the quota interactive sessions use.
+ *
+ * - The first rule whose `models` and `thinking` match a request applies
+ * - Accounts are referenced by id, label, email or Kimi user id
+ * - Account selection only considers the allowed accounts (see
+ *   AccountManager.getCurrentOrNextForFamily)
+ */
+
+import type { ModelRoutingRule } from "./config/schema";
+
+/**
+ * Whether an OpenCode model id matches a rule's model pattern. A trailing `*`
+ * matches by prefix.
+ */
+function matchesModelPattern(modelId: string, pattern: string): boolean {
+  return pattern.endsWith("*") ? modelId.startsWith(pattern.slice(0, -1)) : modelId === pattern;
+}
+
+/**
+ * First rule that applies to a request.
+ *
+ * @param modelId - OpenCode model id (`kimicode-kimi-k2.5-thinking`)
+ * @param thinking - Whether the request has thinking enabled
+ */
+export function findModelRoutingRule(
+  rules: readonly ModelRoutingRule[],
+  modelId: string,
+  thinking: boolean,
+): ModelRoutingRule | null {
+  return (
+    rules.find(
+      (rule) =>
+        (rule.thinking === undefined || rule.thinking === thinking) &&
+        (!rule.models || rule.models.some((pattern) => matchesModelPattern(modelId, pattern))),
+    ) ?? null
+  );
+}
+
+/**
+ * Whether a rule's account reference names this account.
+ */
+function matchesAccountReference(
+  account: { id: string; label?: string; email?: string; userId?: string },
+  reference: string,
+): boolean {
+  const ref = reference.trim();
+  return (
+    ref === account.id ||
+    ref === account.label ||
+    ref === account.userId ||
+    (!!account.email && ref.toLowerCase() === account.email.toLowerCase())
+  );
+}
+
+/**
+ * Ids of the accounts a rule allows.
+ */
+export function resolveAllowedAccountIds(
+  rule: ModelRoutingRule,
+  accounts: ReadonlyArray<{ id: string; label?: string; email?: string; userId?: string }>,
+): Set<string> {
+  return new Set(
+    accounts
+      .filter((account) => rule.accounts.some((reference) => matchesAccountReference(account, reference)))
+      .map((account) => account.id),
+  );
+}
@@ -0,0 +1,29 @@
+/**
+ * OpenCode session ids for outgoing requests.
+ *
+ * OpenCode does not tell a provider's fetch which session a request belongs
+ * to. The plugin's `chat.params` hook adds the session id to the provider
+ * options of every kimicode-* message; the AI SDK sends provider options as
+ * body fields, and the fetch wrapper takes the field back out before the
+ * request goes to Kimi. OpenCode's own session header is used when present.
+ */
+
+/** Body field carrying the session id from `chat.params` to the fetch wrapper. */
+export const SESSION_ID_BODY_FIELD = "kimicode_session_id";
+
+/** Header OpenCode sets with the session id for some providers. */
+export const SESSION_ID_HEADER = "x-opencode-session";
+
+/**
+ * Read the session id of a chat request and remove the body field so it is
+ * never sent upstream.
+ */
+export function takeRequestSessionId(body: Record<string, unknown>, headers: Headers): string | undefined {
+  const fromBody = body[SESSION_ID_BODY_FIELD];
+  delete body[SESSION_ID_BODY_FIELD];
+
+  if (typeof fromBody === "string" && fromBody.length > 0) {
+    return fromBody;
+  }
+  return headers.get(SESSION_ID_HEADER) || undefined;
+}
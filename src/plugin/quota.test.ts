@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { KIMI_TOKEN_ENDPOINT, KIMI_USAGES_ENDPOINT } from "../constants";
+import { AccountManager } from "./accounts";
+import { checkAccountsQuota, parseKimiUsagePayload } from "./quota";
+import { saveAccountsReplace } from "./storage";
+import type { PluginClient } from "./types";
+
+const NOW = Date.parse("2026-01-01T00:00:00.000Z");
+
+/** Pool saved to the test config dir, as token refreshes persist into it. */
+async function managerWithAccounts(count: number): Promise<AccountManager> {
+  await saveAccountsReplace({
+    version: 1,
+    accounts: Array.from({ length: count }, (_, i) => ({
+      refreshToken: `quota-refresh-${i}`,
+      addedAt: 1,
+      lastUsed: 0,
+    })),
+    activeIndex: 0,
+  });
+  return AccountManager.loadFromDisk();
+}
+
+describe("parseKimiUsagePayload", () => {
+  it("uses the most constrained of the summary and window limits", () => {
+    const groups = parseKimiUsagePayload(
+      {
+        usage: { limit: "1000", used: "100", resetTime: "2026-01-07T00:00:00Z" },
+        limits: [
+          { window: { duration: 300, timeUnit: "TIME_UNIT_MINUTE" }, detail: { limit: 100, remaining: 5, reset_in: 600 } },
+        ],
+      },
+      NOW,
+    );
+
+    expect(groups.kimi?.remainingFraction).toBeCloseTo(0.05);
+    expect(groups.kimi?.resetTime).toBe(new Date(NOW + 600_000).toISOString());
+  });
+
+  it("returns no groups for payloads without usable limits", () => {
+    expect(parseKimiUsagePayload({})).toEqual({});
+    expect(parseKimiUsagePayload({ usage: { used: 3 } })).toEqual({});
+    expect(parseKimiUsagePayload("nope")).toEqual({});
+  });
+});
+
+describe("checkAccountsQuota", () => {
+  let tempDir: string;
+  let originalConfigDir: string | undefined;
+
+  beforeEach(() => {
+    originalConfigDir = process.env.OPENCODE_CONFIG_DIR;
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "kimicode-quota-test-"));
+    process.env.OPENCODE_CONFIG_DIR = tempDir;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    if (originalConfigDir === undefined) {
+      delete process.env.OPENCODE_CONFIG_DIR;
+    } else {
+      process.env.OPENCODE_CONFIG_DIR = originalConfigDir;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("caches usage per account and lets selection skip accounts over the soft threshold", async () => {
+    const usedByToken: Record<string, number> = {
+      "access-quota-refresh-0": 95,
+      "access-quota-refresh-1": 10,
+    };
+    vi.stubGlobal("fetch", vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const request = input instanceof Request ? input : new Request(input, init);
+      if (request.url === KIMI_TOKEN_ENDPOINT) {
+        const refresh = new URLSearchParams(await request.text()).get("refresh_token");
+        return Response.json({ access_token: `access-${refresh}`, refresh_token: refresh, expires_in: 3600 });
+      }
+      if (request.url === KIMI_USAGES_ENDPOINT) {
+        const token = request.headers.get("authorization")?.replace("Bearer ", "") ?? "";
+        return Response.json({ usage: { limit: 100, used: usedByToken[token] ?? 0 } });
+      }
+      return new Response(null, { status: 404 });
+    }));
+
+    const manager = await managerWithAccounts(2);
+    const updated = await checkAccountsQuota(manager, {} as PluginClient, "moonshotai");
+
+    expect(updated).toBe(2);
+    const [first, second] = manager.getAccounts();
+    expect(first?.cachedQuota?.kimi?.remainingFraction).toBeCloseTo(0.05);
+    expect(second?.cachedQuota?.kimi?.remainingFraction).toBeCloseTo(0.9);
+
+    const selected = manager.getCurrentOrNextForFamily("kimi", undefined, "sticky", "kimi-cli", false, 90, 60_000);
+    expect(selected?.index).toBe(1);
+    expect(manager.areAllAccountsOverSoftQuota("kimi", 90, 60_000)).toBe(false);
+  });
+
+  it("keeps going when one account's usage request fails", async () => {
+    vi.stubGlobal("fetch", vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const request = input instanceof Request ? input : new Request(input, init);
+      if (request.url === KIMI_TOKEN_ENDPOINT) {
+        const refresh = new URLSearchParams(await request.text()).get("refresh_token");
+        return Response.json({ access_token: `access-${refresh}`, refresh_token: refresh, expires_in: 3600 });
+      }
+      if (request.headers.get("authorization") === "Bearer access-quota-refresh-0") {
+        return new Response("boom", { status: 500 });
+      }
+      return Response.json({ usage: { limit: 100, used: 50 } });
+    }));
+
+    const manager = await managerWithAccounts(2);
+    const updated = await checkAccountsQuota(manager, {} as PluginClient, "moonshotai");
+
+    expect(updated).toBe(1);
+    expect(manager.getAccounts()[0]?.cachedQuota).toBeUndefined();
+    expect(manager.getAccounts()[1]?.cachedQuota?.kimi?.remainingFraction).toBeCloseTo(0.5);
+  });
+});
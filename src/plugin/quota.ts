@@ -0,0 +1,319 @@
+/**
+ * Soft Quota Refresher
+ *
+ * Periodically fetches per-account usage from Kimi's `/usages` endpoint
+ * (the same source kimi-cli's `/usage` command reads) and stores it on each
+ * account as `cachedQuota` / `cachedQuotaUpdatedAt`.
+ *
+ * Account selection uses the cached data (see `isOverSoftQuotaThreshold` in
+ * accounts.ts) to skip accounts whose usage is above
+ * `soft_quota_threshold_percent` before they start returning 429s.
+ *
+ * Features:
+ * - Background refresh on a configurable interval (quota_refresh_interval_minutes)
+ * - Serialized per-account fetches (no request storms)
+ * - Refreshes expired access tokens through the normal OAuth refresh path
+ * - Silent operation: uses the structured logger and debug log only
+ */
+
+import { KIMI_USAGES_ENDPOINT, getKimiDeviceHeaders, getKimiUserAgent } from "../constants";
+import type { AccountManager, QuotaGroup, QuotaGroupSummary } from "./accounts";
+import { logQuotaFetch, logQuotaStatus } from "./debug";
+import { generateFingerprint } from "./fingerprint";
+import { formatAccountLabel } from "./identity";
+import { createLogger } from "./logger";
+import { resolveAccountAccessToken } from "./token";
+import type { PluginClient } from "./types";
+
+const log = createLogger("quota");
+
+/** Quota group used for account-wide Kimi Code limits. */
+export const KIMI_QUOTA_GROUP: QuotaGroup = "kimi";
+
+/** Configuration for the quota refresher */
+export interface QuotaRefreshConfig {
+  /** Minutes between background quota checks (0 disables the refresher) */
+  refreshIntervalMinutes: number;
+}
+
+export const DEFAULT_QUOTA_REFRESH_CONFIG: QuotaRefreshConfig = {
+  refreshIntervalMinutes: 15,
+};
+
+// =============================================================================
+// Payload Parsing
+// =============================================================================
+
+interface UsageRow {
+  limit: number;
+  used: number;
+  resetTime?: string;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Normalize the various reset hints Kimi may send into an ISO timestamp.
+ * Accepts absolute times (`reset_at`, `resetTime`, ...) as ISO strings or
+ * epoch seconds/ms, and relative times (`reset_in`, `ttl`) in seconds.
+ */
+function parseResetTime(data: Record<string, unknown>, now: number): string | undefined {
+  for (const key of ["reset_at", "resetAt", "reset_time", "resetTime"]) {
+    const value = data[key];
+    if (typeof value === "string" && value.trim() !== "" && Number.isNaN(Number(value))) {
+      const parsed = Date.parse(value);
+      if (Number.isFinite(parsed)) return new Date(parsed).toISOString();
+    }
+    const numeric = toNumber(value);
+    if (numeric !== undefined && numeric > 0) {
+      // Heuristic: epoch seconds vs epoch milliseconds.
+      const ms = numeric < 1e12 ? numeric * 1000 : numeric;
+      return new Date(ms).toISOString();
+    }
+  }
+
+  for (const key of ["reset_in", "resetIn", "ttl"]) {
+    const seconds = toNumber(data[key]);
+    if (seconds !== undefined && seconds > 0) {
+      return new Date(now + seconds * 1000).toISOString();
+    }
+  }
+
+  return undefined;
+}
+
+function toUsageRow(data: unknown, now: number): UsageRow | null {
+  if (!data || typeof data !== "object") return null;
+  const record = data as Record<string, unknown>;
+
+  const limit = toNumber(record.limit);
+  if (limit === undefined || limit <= 0) return null;
+
+  let used = toNumber(record.used);
+  if (used === undefined) {
+    const remaining = toNumber(record.remaining);
+    if (remaining === undefined) return null;
+    used = limit - remaining;
+  }
+
+  return { limit, used: Math.max(0, used), resetTime: parseResetTime(record, now) };
+}
+
+/**
+ * Parse a Kimi `/usages` response into soft quota groups.
+ *
+ * The payload carries an overall `usage` row plus per-window `limits`
+ * (e.g. a 5-hour window inside a weekly limit). Selection only needs to know
+ * how close the account is to *any* limit, so the most constrained row wins.
+ */
+export function parseKimiUsagePayload(
+  payload: unknown,
+  now: number = Date.now(),
+): Partial<Record<QuotaGroup, QuotaGroupSummary>> {
+  if (!payload || typeof payload !== "object") return {};
+  const data = payload as { usage?: unknown; limits?: unknown };
+
+  const rows: UsageRow[] = [];
+  const summary = toUsageRow(data.usage, now);
+  if (summary) rows.push(summary);
+
+  if (Array.isArray(data.limits)) {
+    for (const item of data.limits) {
+      if (!item || typeof item !== "object") continue;
+      const detail = (item as { detail?: unknown }).detail;
+      const row = toUsageRow(detail && typeof detail === "object" ? detail : item, now);
+      if (row) rows.push(row);
+    }
+  }
+
+  let tightest: { remainingFraction: number; resetTime?: string } | null = null;
+  for (const row of rows) {
+    const remainingFraction = Math.max(0, Math.min(1, 1 - row.used / row.limit));
+    if (!tightest || remainingFraction < tightest.remainingFraction) {
+      tightest = { remainingFraction, resetTime: row.resetTime };
+    }
+  }
+
+  if (!tightest) return {};
+  return {
+    [KIMI_QUOTA_GROUP]: {
+      remainingFraction: tightest.remainingFraction,
+      resetTime: tightest.resetTime,
+      modelCount: 1,
+    },
+  };
+}
+
+// =============================================================================
+// Fetching
+// =============================================================================
+
+/**
+ * Fetch the current usage for one account.
+ */
+export async function fetchKimiQuota(
+  accessToken: string,
+  deviceId: string,
+): Promise<Partial<Record<QuotaGroup, QuotaGroupSummary>>> {
+  const response = await fetch(KIMI_USAGES_ENDPOINT, {
+    method: "GET",
+    headers: {
+      authorization: `Bearer ${accessToken}`,
+      "user-agent": getKimiUserAgent(),
+      ...getKimiDeviceHeaders(deviceId),
+    },
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => "");
+    throw new Error(`Kimi usage request failed (${response.status}): ${text.slice(0, 200)}`);
+  }
+
+  return parseKimiUsagePayload(await response.json());
+}
+
+/**
+ * Refresh the cached quota for every enabled account.
+ * Failures are logged per account and never thrown.
+ *
+ * @returns Number of accounts whose quota cache was updated
+ */
+export async function checkAccountsQuota(
+  accountManager: AccountManager,
+  client: PluginClient,
+  providerId: string,
+): Promise<number> {
+  const accounts = accountManager.getEnabledAccounts();
+  if (accounts.length === 0) return 0;
+
+  logQuotaFetch("start", accounts.length);
+  let updated = 0;
+
+  for (const account of accounts) {
+    try {
+      const accessToken = await resolveAccountAccessToken(accountManager, account, client, providerId);
+      if (!accessToken) continue;
+
+      const deviceId = account.fingerprint?.deviceId ?? generateFingerprint().deviceId;
+      const groups = await fetchKimiQuota(accessToken, deviceId);
+      const group = groups[KIMI_QUOTA_GROUP];
+      if (!group) continue;
+
+      accountManager.updateQuotaCache(account.id, groups);
+      updated++;
+      if (group.remainingFraction != null) {
+        logQuotaStatus(formatAccountLabel(account), account.index, group.remainingFraction * 100, KIMI_QUOTA_GROUP);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logQuotaFetch("error", undefined, `account=${account.index} ${message}`);
+      log.debug("Quota fetch failed", { accountIndex: account.index, error: message });
+    }
+  }
+
+  logQuotaFetch("complete", accounts.length, `updated=${updated}`);
+  if (updated > 0) {
+    accountManager.requestSaveToDisk();
+  }
+  return updated;
+}
+
+// =============================================================================
+// Background Refresher
+// =============================================================================
+
+/**
+ * Runs checkAccountsQuota() in the background on a fixed interval.
+ */
+export class QuotaRefresher {
+  private readonly config: QuotaRefreshConfig;
+  private readonly client: PluginClient;
+  private readonly providerId: string;
+  private accountManager: AccountManager | null = null;
+  private intervalHandle: ReturnType<typeof setInterval> | null = null;
+  private isChecking = false;
+
+  constructor(client: PluginClient, providerId: string, config?: Partial<QuotaRefreshConfig>) {
+    this.client = client;
+    this.providerId = providerId;
+    this.config = { ...DEFAULT_QUOTA_REFRESH_CONFIG, ...config };
+  }
+
+  /**
+   * Set the account manager to refresh quota for.
+   * Must be called before start().
+   */
+  setAccountManager(manager: AccountManager): void {
+    this.accountManager = manager;
+  }
+
+  /**
+   * Run one quota check now. Skipped if a check is already in flight.
+   */
+  async runCheck(): Promise<void> {
+    if (this.isChecking || !this.accountManager) return;
+    this.isChecking = true;
+    try {
+      await checkAccountsQuota(this.accountManager, this.client, this.providerId);
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  /**
+   * Start background refresh. Runs an initial check shortly after start.
+   */
+  start(): void {
+    if (this.intervalHandle || this.config.refreshIntervalMinutes <= 0) {
+      return;
+    }
+
+    const intervalMs = this.config.refreshIntervalMinutes * 60 * 1000;
+    const run = () => {
+      this.runCheck().catch((error) => {
+        log.error("Quota check failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    };
+
+    setTimeout(() => {
+      if (this.intervalHandle) run();
+    }, 5000);
+    this.intervalHandle = setInterval(run, intervalMs);
+
+    log.debug("Started quota refresher", { refreshIntervalMinutes: this.config.refreshIntervalMinutes });
+  }
+
+  /**
+   * Stop background refresh.
+   */
+  stop(): void {
+    if (this.intervalHandle) {
+      clearInterval(this.intervalHandle);
+      this.intervalHandle = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.intervalHandle !== null;
+  }
+}
+
+/**
+ * Create a quota refresher instance.
+ */
+export function createQuotaRefresher(
+  client: PluginClient,
+  providerId: string,
+  config?: Partial<QuotaRefreshConfig>,
+): QuotaRefresher {
+  return new QuotaRefresher(client, providerId, config);
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+
+import { AccountManager } from "./accounts";
+import { parseRateLimitHeaders, parseRateLimitReset } from "./rate-limit-headers";
+import { TokenBucketTracker } from "./rotation";
+
+describe("parseRateLimitHeaders", () => {
+  const now = 1_700_000_000_000;
+
+  it("reports the most constrained dimension", () => {
+    const snapshot = parseRateLimitHeaders(
+      new Headers({
+        "x-ratelimit-limit-requests": "100",
+        "x-ratelimit-remaining-requests": "80",
+        "x-ratelimit-reset-requests": "1s",
+        "x-ratelimit-limit-tokens": "10000",
+        "x-ratelimit-remaining-tokens": "500",
+        "x-ratelimit-reset-tokens": "6m0s",
+      }),
+      now,
+    );
+
+    expect(snapshot).toEqual({ remainingFraction: 0.05, resetAt: now + 360_000, exhausted: false });
+    expect(parseRateLimitHeaders(new Headers({ "content-type": "application/json" }), now)).toBeNull();
+  });
+
+  it("understands the reset formats servers send", () => {
+    expect(parseRateLimitReset("20ms", now)).toBe(now + 20);
+    expect(parseRateLimitReset("1m30.5s", now)).toBe(now + 90_500);
+    expect(parseRateLimitReset("30", now)).toBe(now + 30_000);
+    expect(parseRateLimitReset("1700000060", now)).toBe(1_700_000_060_000);
+    expect(parseRateLimitReset("soon", now)).toBeNull();
+
+    expect(
+      parseRateLimitHeaders(new Headers({ "ratelimit-remaining": "0", "ratelimit-reset": "12" }), now),
+    ).toEqual({ remainingFraction: 0, resetAt: now + 12_000, exhausted: true });
+  });
+});
+
+describe("rate-limit headers in account selection", () => {
+  it("routes away from accounts that are close to or at their limit", () => {
+    const manager = new AccountManager(undefined, {
+      version: 1,
+      accounts: [
+        { refreshToken: "r-0", addedAt: 1, lastUsed: 0 },
+        { refreshToken: "r-1", addedAt: 1, lastUsed: 0 },
+      ],
+      activeIndex: 0,
+    });
+    const [first, second] = manager.getAccounts();
+    const now = Date.now();
+
+    manager.recordRateLimitHeaders(first!, { remainingFraction: 0.05, resetAt: now + 60_000, exhausted: false }, "kimi");
+    expect(manager.isAccountOverSoftQuota(first!, "kimi", 90, 60_000)).toBe(true);
+    expect(manager.getCurrentOrNextForFamily("kimi", null, "sticky", "kimi-cli", false, 90, 60_000)).toBe(second);
+
+    const marked = manager.recordRateLimitHeaders(second!, { remainingFraction: 0, resetAt: now + 30_000, exhausted: true }, "kimi");
+    expect(marked).toBe(true);
+    expect(manager.isRateLimitedForHeaderStyle(second!, "kimi", "kimi-cli")).toBe(true);
+
+    manager.recordRateLimitHeaders(first!, { remainingFraction: 0.05, resetAt: now - 1, exhausted: false }, "kimi");
+    expect(manager.isAccountOverSoftQuota(first!, "kimi", 90, 60_000)).toBe(false);
+  });
+
+  it("only ever lowers the token bucket", () => {
+    const tracker = new TokenBucketTracker({ maxTokens: 50, initialTokens: 50 });
+    tracker.clampTokens("acct", 10);
+    expect(Math.round(tracker.getTokens("acct"))).toBe(10);
+    tracker.clampTokens("acct", 40);
+    expect(Math.round(tracker.getTokens("acct"))).toBe(10);
+  });
+});
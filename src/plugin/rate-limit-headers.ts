@@ -0,0 +1,100 @@
+/**
+ * Rate-Limit Headers
+ *
+ * Reads the rate-limit headers of a response into a snapshot of how much of
+ * the account's current window is left, so the plugin can route away from an
+ * account before it starts answering 429.
+ *
+ * - OpenAI style: `x-ratelimit-{limit,remaining,reset}-{requests,tokens}`
+ * - Plain `x-ratelimit-{limit,remaining,reset}` and IETF `ratelimit-{limit,remaining,reset}`
+ * - Resets may be durations (`1s`, `6m0s`, `20ms`), seconds, epoch seconds or HTTP dates
+ * - The most constrained dimension wins
+ */
+
+/** Rate-limit state reported by one response. */
+export interface RateLimitSnapshot {
+  /** Smallest remaining / limit across the reported dimensions (0..1) */
+  remainingFraction: number;
+  /** When the most constrained dimension resets (epoch ms), if reported */
+  resetAt?: number;
+  /** A dimension has nothing left */
+  exhausted: boolean;
+}
+
+/** Header name prefixes, each a separately limited dimension. */
+const RATE_LIMIT_DIMENSIONS: ReadonlyArray<{ limit: string; remaining: string; reset: string }> = [
+  { limit: "x-ratelimit-limit-requests", remaining: "x-ratelimit-remaining-requests", reset: "x-ratelimit-reset-requests" },
+  { limit: "x-ratelimit-limit-tokens", remaining: "x-ratelimit-remaining-tokens", reset: "x-ratelimit-reset-tokens" },
+  { limit: "x-ratelimit-limit", remaining: "x-ratelimit-remaining", reset: "x-ratelimit-reset" },
+  { limit: "ratelimit-limit", remaining: "ratelimit-remaining", reset: "ratelimit-reset" },
+];
+
+/** Plain numbers above this are epoch seconds rather than a delay. */
+const EPOCH_SECONDS_THRESHOLD = 1e9;
+
+const DURATION_UNIT_MS: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1000, ms: 1 };
+
+function parseNumberHeader(value: string | null): number | null {
+  if (value === null || value.trim() === "") return null;
+  // IETF headers may carry parameters (`100;w=60`); the first item is the value.
+  const parsed = Number(value.split(/[;,]/)[0]!.trim());
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Parse a reset header into an absolute time.
+ *
+ * @returns Epoch ms, or null when the value is not understood
+ */
+export function parseRateLimitReset(value: string | null, now: number = Date.now()): number | null {
+  if (value === null) return null;
+  const trimmed = value.split(/[;,]/)[0]!.trim();
+  if (trimmed === "") return null;
+
+  const seconds = Number(trimmed);
+  if (Number.isFinite(seconds)) {
+    if (seconds < 0) return null;
+    return seconds > EPOCH_SECONDS_THRESHOLD ? seconds * 1000 : now + seconds * 1000;
+  }
+
+  const parts = [...trimmed.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+  if (parts.length > 0 && parts.map((part) => part[0]).join("") === trimmed) {
+    const ms = parts.reduce((total, part) => total + Number(part[1]) * DURATION_UNIT_MS[part[2]!]!, 0);
+    return now + ms;
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : date;
+}
+
+/**
+ * Read the rate-limit headers of a response.
+ *
+ * @returns null when the response carries no usable rate-limit headers
+ */
+export function parseRateLimitHeaders(headers: Headers, now: number = Date.now()): RateLimitSnapshot | null {
+  let snapshot: RateLimitSnapshot | null = null;
+
+  for (const dimension of RATE_LIMIT_DIMENSIONS) {
+    const remaining = parseNumberHeader(headers.get(dimension.remaining));
+    if (remaining === null) continue;
+
+    const limit = parseNumberHeader(headers.get(dimension.limit));
+    const exhausted = remaining <= 0;
+    // Without a limit only an empty dimension says anything about the fraction left.
+    if (!exhausted && (limit === null || limit <= 0)) continue;
+
+    const remainingFraction = exhausted ? 0 : Math.min(1, remaining / limit!);
+    const resetAt = parseRateLimitReset(headers.get(dimension.reset), now) ?? undefined;
+
+    const moreConstrained =
+      !snapshot ||
+      remainingFraction < snapshot.remainingFraction ||
+      (remainingFraction === snapshot.remainingFraction && (resetAt ?? 0) > (snapshot.resetAt ?? 0));
+    if (moreConstrained) {
+      snapshot = { remainingFraction, resetAt, exhausted };
+    }
+  }
+
+  return snapshot;
+}
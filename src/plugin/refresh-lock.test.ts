@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { AccountManager } from "./accounts";
+import { loadAccounts, saveAccountsReplace } from "./storage";
+import { refreshAccountToken } from "./token";
+
+/**
+ * Token endpoint that rotates the refresh token on every grant and rejects
+ * any token but the latest, like Kimi does.
+ */
+function stubRotatingTokenEndpoint() {
+  const server = { current: "rt-0", grants: 0, rejected: 0 };
+  vi.stubGlobal("fetch", async (_url: unknown, init?: { body?: unknown }) => {
+    const token = new URLSearchParams(String(init?.body)).get("refresh_token");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    if (token !== server.current) {
+      server.rejected++;
+      return new Response(JSON.stringify({ error: "invalid_grant" }), { status: 400, statusText: "Bad Request" });
+    }
+    server.grants++;
+    server.current = `rt-${server.grants}`;
+    return new Response(
+      JSON.stringify({ access_token: `at-${server.grants}`, expires_in: 3600, refresh_token: server.current }),
+      { status: 200 },
+    );
+  });
+  return server;
+}
+
+async function loadManager(): Promise<AccountManager> {
+  return new AccountManager(undefined, await loadAccounts());
+}
+
+describe("cross-process token refresh", () => {
+  let tempDir: string;
+  let originalConfigDir: string | undefined;
+
+  beforeEach(async () => {
+    originalConfigDir = process.env.OPENCODE_CONFIG_DIR;
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "kimicode-refresh-lock-test-"));
+    process.env.OPENCODE_CONFIG_DIR = tempDir;
+    await saveAccountsReplace({
+      version: 1,
+      accounts: [{ refreshToken: "rt-0", userId: "u-1", addedAt: 1, lastUsed: 0 }],
+      activeIndex: 0,
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    if (originalConfigDir === undefined) {
+      delete process.env.OPENCODE_CONFIG_DIR;
+    } else {
+      process.env.OPENCODE_CONFIG_DIR = originalConfigDir;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("serializes refreshes from two managers sharing one pool", async () => {
+    const server = stubRotatingTokenEndpoint();
+    const first = await loadManager();
+    const second = await loadManager();
+
+    const results = await Promise.all([
+      refreshAccountToken(first, first.getAccounts()[0]!),
+      refreshAccountToken(second, second.getAccounts()[0]!),
+    ]);
+
+    expect(results.map((r) => r?.access).sort()).toEqual(["at-1", "at-2"]);
+    expect(server.rejected).toBe(0);
+    expect((await loadAccounts())?.accounts.map((a) => a.refreshToken)).toEqual([server.current]);
+  });
+
+  it("picks up a token rotated by another manager instead of the revoked one", async () => {
+    const server = stubRotatingTokenEndpoint();
+    const first = await loadManager();
+    const stale = await loadManager();
+
+    await refreshAccountToken(first, first.getAccounts()[0]!);
+
+    // A stale writer must not put the revoked token back.
+    await stale.saveToDisk();
+    expect((await loadAccounts())?.accounts.map((a) => a.refreshToken)).toEqual(["rt-1"]);
+
+    const refreshed = await refreshAccountToken(stale, stale.getAccounts()[0]!);
+    expect(refreshed?.access).toBe("at-2");
+    expect(server.rejected).toBe(0);
+    expect(stale.getAccounts()[0]?.parts.refreshToken).toBe("rt-2");
+  });
+
+  it("refreshes with the account's own token when another account shares its device id", async () => {
+    const fingerprint = { deviceId: "0123456789abcdef0123456789abcdef", createdAt: 1 };
+    await saveAccountsReplace({
+      version: 1,
+      accounts: [
+        { id: "acct-a", refreshToken: "rt-a", fingerprint, addedAt: 1, lastUsed: 0 },
+        { id: "acct-b", refreshToken: "rt-b", fingerprint, addedAt: 1, lastUsed: 0 },
+      ],
+      activeIndex: 0,
+    });
+    const granted: string[] = [];
+    vi.stubGlobal("fetch", async (_url: unknown, init?: { body?: unknown }) => {
+      const token = new URLSearchParams(String(init?.body)).get("refresh_token") ?? "";
+      granted.push(token);
+      return new Response(JSON.stringify({ access_token: `at-${token}`, expires_in: 3600, refresh_token: token }), {
+        status: 200,
+      });
+    });
+    const manager = await loadManager();
+
+    await refreshAccountToken(manager, manager.getAccountById("acct-b")!);
+
+    expect(granted).toEqual(["rt-b"]);
+  });
+
+  it("shares one refresh between concurrent callers in the same process", async () => {
+    const server = stubRotatingTokenEndpoint();
+    const manager = await loadManager();
+    const account = manager.getAccounts()[0]!;
+
+    const [a, b] = await Promise.all([refreshAccountToken(manager, account), refreshAccountToken(manager, account)]);
+
+    expect(a).toBe(b);
+    expect(server.grants).toBe(1);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Cross-process lock around refresh-token rotation.
+ *
+ * Kimi may rotate the refresh token on every refresh grant and revoke the old
+ * one. Two OpenCode processes sharing an account pool would otherwise both
+ * refresh with the same stored token, and whichever loses the race keeps a
+ * revoked token. Refreshes for one account are serialized through a lock in
+ * `kimicode-refresh-locks/` under the config dir, keyed on the persistent
+ * account id; the holder re-reads the pool before refreshing (see
+ * `refreshAccountToken` in token.ts).
+ */
+
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import lockfile from "proper-lockfile";
+import { createLogger } from "./logger";
+import { getConfigDir } from "./storage";
+
+const log = createLogger("refresh-lock");
+
+const REFRESH_LOCK_DIRNAME = "kimicode-refresh-locks";
+
+const REFRESH_LOCK_OPTIONS = {
+  // The lock is kept fresh while held, so `stale` only matters for crashed holders.
+  stale: 30000,
+  // Lock targets are names, not files: nothing to resolve.
+  realpath: false,
+  // A refresh is a single token request; wait up to ~20s for another process to finish one.
+  retries: {
+    retries: 25,
+    minTimeout: 100,
+    maxTimeout: 1000,
+    factor: 1.5,
+  },
+};
+
+/**
+ * Run `fn` while holding the refresh lock for `key` (an account id).
+ *
+ * If the lock cannot be acquired (another holder hung, or the config dir is
+ * not writable) `fn` still runs: a refresh race is recoverable, a request
+ * that never gets a token is not.
+ */
+export async function withAccountRefreshLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const dir = join(getConfigDir(), REFRESH_LOCK_DIRNAME);
+  let release: (() => Promise<void>) | null = null;
+  try {
+    await fs.mkdir(dir, { recursive: true });
+    // Ids come from the pool file; hash them so no id can name a path outside `dir`.
+    const name = createHash("sha256").update(key).digest("hex").slice(0, 32);
+    release = await lockfile.lock(join(dir, name), REFRESH_LOCK_OPTIONS);
+  } catch (error) {
+    log.warn("Could not acquire refresh lock, refreshing without it", { error: String(error) });
+  }
+
+  try {
+    return await fn();
+  } finally {
+    if (release) {
+      try {
+        await release();
+      } catch (unlockError) {
+        log.warn("Failed to release refresh lock", { error: String(unlockError) });
+      }
+    }
+  }
+}
@@ -13,13 +13,15 @@
  * - Configurable check interval (default: 5 minutes)
  * - Serialized refresh to prevent concurrent refresh storms
  * - Integrates with existing AccountManager and token refresh logic
+ * - Shares the per-account cross-process refresh lock with the request path
  * - Silent operation: no console output, uses structured logger
  */
 
 import type { AccountManager, ManagedAccount } from "./accounts";
 import type { PluginClient, OAuthAuthDetails } from "./types";
-import { refreshAccessToken } from "./token";
+import { refreshAccountToken } from "./token";
 import { createLogger } from "./logger";
+import { formatAccountLabel } from "./identity";
 
 const log = createLogger("refresh-queue");
 
@@ -178,20 +180,13 @@ export class ProactiveRefreshQueue {
         }
 
         try {
-          const auth = this.accountManager.toAuthDetails(account);
-          const refreshed = await this.refreshToken(auth, account);
+          // Updates the account and persists the rotated token under the
+          // cross-process refresh lock.
+          const refreshed = await this.refreshToken(account);
 
           if (refreshed) {
-            this.accountManager.updateFromAuth(account, refreshed);
             this.state.refreshCount++;
             this.state.lastRefreshTime = Date.now();
-
-            // Persist the refreshed token
-            try {
-              await this.accountManager.saveToDisk();
-            } catch {
-              // Non-fatal - token is refreshed in memory
-            }
           }
         } catch (error) {
           this.state.errorCount++;
@@ -210,21 +205,22 @@ export class ProactiveRefreshQueue {
   /**
    * Refresh a single token.
    */
-  private async refreshToken(
-    auth: OAuthAuthDetails,
-    account: ManagedAccount,
-  ): Promise<OAuthAuthDetails | undefined> {
+  private async refreshToken(account: ManagedAccount): Promise<OAuthAuthDetails | undefined> {
+    if (!this.accountManager) {
+      return undefined;
+    }
+
     const minutesUntilExpiry = account.expires
       ? Math.round((account.expires - Date.now()) / 60000)
       : "unknown";
 
     log.debug("Proactively refreshing token", {
       accountIndex: account.index,
-      email: account.email ?? "unknown",
+      account: formatAccountLabel(account),
       minutesUntilExpiry,
     });
 
-    return refreshAccessToken(auth, this.client, this.providerId);
+    return refreshAccountToken(this.accountManager, account, this.client, this.providerId);
   }
 
   /**
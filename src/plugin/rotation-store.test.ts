@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { HealthScoreTracker, TokenBucketTracker } from "./rotation";
+import { getRotationStatePath, persistRotationState, syncRotationState } from "./rotation-store";
+
+describe("rotation state persistence", () => {
+  let tempDir: string;
+  let originalConfigDir: string | undefined;
+
+  beforeEach(() => {
+    originalConfigDir = process.env.OPENCODE_CONFIG_DIR;
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "kimicode-rotation-test-"));
+    process.env.OPENCODE_CONFIG_DIR = tempDir;
+  });
+
+  afterEach(() => {
+    if (originalConfigDir === undefined) {
+      delete process.env.OPENCODE_CONFIG_DIR;
+    } else {
+      process.env.OPENCODE_CONFIG_DIR = originalConfigDir;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("restores scores with recovery for the time since they were saved and drops stale ones", async () => {
+    const hour = 60 * 60 * 1000;
+    const now = Date.now();
+    fs.writeFileSync(
+      getRotationStatePath(),
+      JSON.stringify({
+        version: 1,
+        health: {
+          failing: { score: 40, lastUpdated: now - 10 * hour, lastSuccess: 0, consecutiveFailures: 3 },
+          ancient: { score: 0, lastUpdated: now - 30 * 24 * hour, lastSuccess: 0, consecutiveFailures: 9 },
+        },
+        tokens: { failing: { tokens: 0, lastUpdated: now - 60_000 } },
+      }),
+    );
+
+    const health = new HealthScoreTracker();
+    const tokens = new TokenBucketTracker();
+    const stop = await persistRotationState(health, tokens);
+
+    expect(health.getScore("failing")).toBe(60);
+    expect(health.getConsecutiveFailures("failing")).toBe(3);
+    expect(Math.round(tokens.getTokens("failing"))).toBe(6);
+
+    health.recordSuccess("other");
+    await stop();
+
+    const saved = JSON.parse(fs.readFileSync(getRotationStatePath(), "utf-8"));
+    expect(Object.keys(saved.health).sort()).toEqual(["failing", "other"]);
+  });
+
+  it("shares the most recent state per account between processes", async () => {
+    const first = { health: new HealthScoreTracker(), tokens: new TokenBucketTracker() };
+    const second = { health: new HealthScoreTracker(), tokens: new TokenBucketTracker() };
+
+    first.health.recordFailure("acct");
+    first.health.recordSuccess("elsewhere");
+    await syncRotationState(first.health, first.tokens);
+
+    await syncRotationState(second.health, second.tokens);
+    expect(second.health.getScore("acct")).toBe(50);
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    second.health.recordSuccess("acct");
+    await syncRotationState(second.health, second.tokens);
+    await syncRotationState(first.health, first.tokens);
+
+    expect(first.health.getScore("acct")).toBe(51);
+    expect(first.health.getConsecutiveFailures("acct")).toBe(0);
+    expect(second.health.getScore("elsewhere")).toBe(71);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Rotation State Persistence
+ *
+ * Saves the hybrid strategy's health scores and token buckets to
+ * `kimicode-rotation.json` next to the account file, so an account that has
+ * been failing is still remembered after a restart and by other OpenCode
+ * processes sharing the pool.
+ *
+ * - States carry their `lastUpdated` time, so health recovery and token
+ *   regeneration for the time in between apply as soon as they are read
+ * - Writes merge with the file under a lock; per account the most recently
+ *   updated state wins, and states newer on disk are adopted in memory
+ * - States not updated for ROTATION_STATE_MAX_AGE_MS are dropped (they have
+ *   fully recovered by then)
+ */
+
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { randomBytes } from "node:crypto";
+import lockfile from "proper-lockfile";
+import { createLogger } from "./logger";
+import { ensureGitignore, getConfigDir } from "./storage";
+import type { HealthScoreState, HealthScoreTracker, TokenBucketState, TokenBucketTracker } from "./rotation";
+
+const log = createLogger("rotation-store");
+
+const ROTATION_STATE_FILENAME = "kimicode-rotation.json";
+
+/** States older than this are dropped when the file is written. */
+export const ROTATION_STATE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Delay before tracker changes are written. */
+const ROTATION_STATE_SAVE_DELAY_MS = 2000;
+
+const ROTATION_STATE_LOCK_OPTIONS = {
+  stale: 10000,
+  realpath: false,
+  retries: {
+    retries: 5,
+    minTimeout: 100,
+    maxTimeout: 1000,
+    factor: 2,
+  },
+};
+
+export interface RotationStateFile {
+  version: 1;
+  /** Keyed by account id */
+  health: Record<string, HealthScoreState>;
+  /** Keyed by account id */
+  tokens: Record<string, TokenBucketState>;
+}
+
+export function getRotationStatePath(): string {
+  return join(getConfigDir(), ROTATION_STATE_FILENAME);
+}
+
+/**
+ * Read kimicode-rotation.json. A missing or malformed file reads as empty.
+ */
+export async function loadRotationState(): Promise<RotationStateFile> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(getRotationStatePath(), "utf-8")) as RotationStateFile;
+    if (parsed?.version === 1) {
+      return {
+        version: 1,
+        health: parsed.health && typeof parsed.health === "object" ? parsed.health : {},
+        tokens: parsed.tokens && typeof parsed.tokens === "object" ? parsed.tokens : {},
+      };
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      log.debug("Ignoring unreadable rotation state", { error: String(error) });
+    }
+  }
+  return { version: 1, health: {}, tokens: {} };
+}
+
+function dropStale<T extends { lastUpdated: number }>(states: Record<string, T>, now: number): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(states).filter(([, state]) => now - state.lastUpdated < ROTATION_STATE_MAX_AGE_MS),
+  );
+}
+
+/**
+ * Merge the file into the trackers and write the merged state back.
+ */
+export async function syncRotationState(health: HealthScoreTracker, tokens: TokenBucketTracker): Promise<void> {
+  const path = getRotationStatePath();
+  const configDir = getConfigDir();
+  await fs.mkdir(configDir, { recursive: true });
+  await ensureGitignore(configDir);
+
+  const release = await lockfile.lock(path, ROTATION_STATE_LOCK_OPTIONS);
+  try {
+    const stored = await loadRotationState();
+    health.mergeStates(stored.health);
+    tokens.mergeStates(stored.tokens);
+
+    const now = Date.now();
+    const file: RotationStateFile = {
+      version: 1,
+      health: dropStale(health.getStates(), now),
+      tokens: dropStale(tokens.getStates(), now),
+    };
+    const tempPath = `${path}.${randomBytes(6).toString("hex")}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(file, null, 2), { encoding: "utf-8", mode: 0o600 });
+    await fs.rename(tempPath, path);
+  } finally {
+    await release().catch(() => {});
+  }
+}
+
+/**
+ * Load persisted states into the trackers and save them after changes.
+ *
+ * @returns A function that stops saving (pending changes are written first)
+ */
+export async function persistRotationState(
+  health: HealthScoreTracker,
+  tokens: TokenBucketTracker,
+): Promise<() => Promise<void>> {
+  const stored = await loadRotationState();
+  health.mergeStates(stored.health);
+  tokens.mergeStates(stored.tokens);
+
+  let saveTimeout: ReturnType<typeof setTimeout> | null = null;
+  let saving: Promise<void> = Promise.resolve();
+
+  const save = () => {
+    saving = saving
+      .then(() => syncRotationState(health, tokens))
+      .catch((error) => {
+        log.warn("Failed to save rotation state", { error: String(error) });
+      });
+    return saving;
+  };
+
+  const scheduleSave = () => {
+    if (saveTimeout) return;
+    saveTimeout = setTimeout(() => {
+      saveTimeout = null;
+      void save();
+    }, ROTATION_STATE_SAVE_DELAY_MS);
+    // Pending state must not keep a finished CLI run alive.
+    saveTimeout.unref?.();
+  };
+
+  health.setChangeListener(scheduleSave);
+  tokens.setChangeListener(scheduleSave);
+
+  return async () => {
+    health.setChangeListener(null);
+    tokens.setChangeListener(null);
+    if (saveTimeout) {
+      clearTimeout(saveTimeout);
+      saveTimeout = null;
+      await save();
+    }
+    await saving;
+  };
+}
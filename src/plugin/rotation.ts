@@ -6,7 +6,13 @@
  * - LRU Selection: Prefer accounts with longest rest periods
  * - Jitter: Add random variance to break predictable patterns
  * 
+ * - Tiers: accounts with a higher `priority` are used while any of them is
+ *   available; `weight` sets an account's share within its tier
+ * 
  * Used by 'hybrid' strategy for improved ban prevention and load distribution.
+ * Health scores and token buckets are keyed by account id, so they
+ * follow an account across removals and reorders; rotation-store.ts persists
+ * them between runs and processes.
  */
 
 // ============================================================================
@@ -40,7 +46,7 @@ export const DEFAULT_HEALTH_SCORE_CONFIG: HealthScoreConfig = {
   maxScore: 100,
 };
 
-interface HealthScoreState {
+export interface HealthScoreState {
   score: number;
   lastUpdated: number;
   lastSuccess: number;
@@ -48,22 +54,67 @@ interface HealthScoreState {
 }
 
 /**
- * Tracks health scores for accounts.
+ * Copy states into `target`, keeping whichever state per account was updated last.
+ */
+function mergeNewerStates<T extends { lastUpdated: number }>(
+  target: Map<string, T>,
+  states: Record<string, T>,
+): void {
+  for (const [key, state] of Object.entries(states)) {
+    if (!state || typeof state.lastUpdated !== "number") continue;
+    const existing = target.get(key);
+    if (!existing || state.lastUpdated > existing.lastUpdated) {
+      target.set(key, { ...state });
+    }
+  }
+}
+
+/**
+ * Tracks health scores for accounts, keyed by account id.
  * Higher score = healthier account = preferred for selection.
  */
 export class HealthScoreTracker {
-  private readonly scores = new Map<number, HealthScoreState>();
+  private readonly scores = new Map<string, HealthScoreState>();
   private readonly config: HealthScoreConfig;
+  private changeListener: (() => void) | null = null;
 
   constructor(config: Partial<HealthScoreConfig> = {}) {
     this.config = { ...DEFAULT_HEALTH_SCORE_CONFIG, ...config };
   }
 
+  /**
+   * Register a callback that runs after every score change (used to persist scores).
+   */
+  setChangeListener(listener: (() => void) | null): void {
+    this.changeListener = listener;
+  }
+
+  /**
+   * Raw per-account states. Scores are stored as of `lastUpdated`;
+   * recovery since then is applied when they are read.
+   */
+  getStates(): Record<string, HealthScoreState> {
+    return Object.fromEntries([...this.scores].map(([key, state]) => [key, { ...state }]));
+  }
+
+  /**
+   * Adopt states recorded by another process or a previous run.
+   * For each account the most recently updated state wins.
+   */
+  mergeStates(states: Record<string, HealthScoreState>): void {
+    mergeNewerStates(this.scores, states);
+  }
+
+  private setState(accountKey: string, state: HealthScoreState): void {
+    this.scores.set(accountKey, state);
+    this.changeListener?.();
+  }
+
   /**
    * Get current health score for an account, applying time-based recovery.
    */
-  getScore(accountIndex: number): number {
-    const state = this.scores.get(accountIndex);
+  getScore(accountKey: string): number {
+    const state = this.scores.get(accountKey);
     if (!state) {
       return this.config.initial;
     }
@@ -82,11 +133,11 @@ export class HealthScoreTracker {
   /**
    * Record a successful request - improves health score.
    */
-  recordSuccess(accountIndex: number): void {
+  recordSuccess(accountKey: string): void {
     const now = Date.now();
-    const current = this.getScore(accountIndex);
+    const current = this.getScore(accountKey);
     
-    this.scores.set(accountIndex, {
+    this.setState(accountKey, {
       score: Math.min(this.config.maxScore, current + this.config.successReward),
       lastUpdated: now,
       lastSuccess: now,
@@ -97,12 +148,12 @@ export class HealthScoreTracker {
   /**
    * Record a rate limit hit - moderate penalty.
    */
-  recordRateLimit(accountIndex: number): void {
+  recordRateLimit(accountKey: string): void {
     const now = Date.now();
-    const state = this.scores.get(accountIndex);
-    const current = this.getScore(accountIndex);
+    const state = this.scores.get(accountKey);
+    const current = this.getScore(accountKey);
     
-    this.scores.set(accountIndex, {
+    this.setState(accountKey, {
       score: Math.max(0, current + this.config.rateLimitPenalty),
       lastUpdated: now,
       lastSuccess: state?.lastSuccess ?? 0,
@@ -113,12 +164,12 @@ export class HealthScoreTracker {
   /**
    * Record a failure (auth, network, etc.) - larger penalty.
    */
-  recordFailure(accountIndex: number): void {
+  recordFailure(accountKey: string): void {
     const now = Date.now();
-    const state = this.scores.get(accountIndex);
-    const current = this.getScore(accountIndex);
+    const state = this.scores.get(accountKey);
+    const current = this.getScore(accountKey);
     
-    this.scores.set(accountIndex, {
+    this.setState(accountKey, {
       score: Math.max(0, current + this.config.failurePenalty),
       lastUpdated: now,
       lastSuccess: state?.lastSuccess ?? 0,
@@ -129,33 +180,35 @@ export class HealthScoreTracker {
   /**
    * Check if account is healthy enough to use.
    */
-  isUsable(accountIndex: number): boolean {
-    return this.getScore(accountIndex) >= this.config.minUsable;
+  isUsable(accountKey: string): boolean {
+    return this.getScore(accountKey) >= this.config.minUsable;
   }
 
   /**
    * Get consecutive failure count for an account.
    */
-  getConsecutiveFailures(accountIndex: number): number {
-    return this.scores.get(accountIndex)?.consecutiveFailures ?? 0;
+  getConsecutiveFailures(accountKey: string): number {
+    return this.scores.get(accountKey)?.consecutiveFailures ?? 0;
   }
 
   /**
    * Reset health state for an account (e.g., after removal).
    */
-  reset(accountIndex: number): void {
-    this.scores.delete(accountIndex);
+  reset(accountKey: string): void {
+    if (this.scores.delete(accountKey)) {
+      this.changeListener?.();
+    }
   }
 
   /**
    * Get all scores for debugging/logging.
    */
-  getSnapshot(): Map<number, { score: number; consecutiveFailures: number }> {
-    const result = new Map<number, { score: number; consecutiveFailures: number }>();
-    for (const [index] of this.scores) {
-      result.set(index, {
-        score: this.getScore(index),
-        consecutiveFailures: this.getConsecutiveFailures(index),
+  getSnapshot(): Map<string, { score: number; consecutiveFailures: number }> {
+    const result = new Map<string, { score: number; consecutiveFailures: number }>();
+    for (const [key] of this.scores) {
+      result.set(key, {
+        score: this.getScore(key),
+        consecutiveFailures: this.getConsecutiveFailures(key),
       });
     }
     return result;
@@ -191,12 +244,55 @@ export function randomDelay(minMs: number, maxMs: number): number {
   return Math.round(minMs + Math.random() * (maxMs - minMs));
 }
 
+// ============================================================================
+// ACCOUNT TIERS
+// ============================================================================
+
+/** Largest accepted account weight. */
+export const MAX_ACCOUNT_WEIGHT = 100;
+
+/**
+ * Selection tier of an account (default 0). Higher tiers are used first;
+ * lower ones only while no higher-tier account is available.
+ */
+export function getAccountPriority(account: { priority?: number }): number {
+  const priority = account.priority;
+  return typeof priority === "number" && Number.isFinite(priority) ? Math.round(priority) : 0;
+}
+
+/**
+ * Relative share of requests an account gets within its tier (default 1).
+ */
+export function getAccountWeight(account: { weight?: number }): number {
+  const weight = account.weight;
+  if (typeof weight !== "number" || !Number.isFinite(weight)) {
+    return 1;
+  }
+  return Math.min(MAX_ACCOUNT_WEIGHT, Math.max(1, Math.round(weight)));
+}
+
+/**
+ * Keep only the accounts in the highest priority tier present.
+ */
+export function filterTopPriorityTier<T extends { priority?: number }>(accounts: T[]): T[] {
+  if (accounts.length === 0) {
+    return accounts;
+  }
+  const top = Math.max(...accounts.map(getAccountPriority));
+  return accounts.filter(acc => getAccountPriority(acc) === top);
+}
+
 // ============================================================================
 // LRU SELECTION
 // ============================================================================
 
 export interface AccountWithMetrics {
-  index: number;
+  /** Account id, also the key the health and token trackers use */
+  id: string;
+  /** Selection tier (see getAccountPriority) */
+  priority: number;
+  /** Share within the tier (see getAccountWeight) */
+  weight: number;
   lastUsed: number;
   healthScore: number;
   isRateLimited: boolean;
@@ -209,18 +305,24 @@ export interface AccountWithMetrics {
  * Priority:
  * 1. Filter out rate-limited and cooling-down accounts
  * 2. Filter out unhealthy accounts (score < minUsable)
- * 3. Sort by lastUsed ascending (oldest first = most rested)
- * 4. Tiebreaker: higher health score wins
+ * 3. Sort by priority tier descending
+ * 4. Sort by rest time scaled by weight (longest first = most rested)
+ * 5. Tiebreaker: higher health score wins
  */
 export function sortByLruWithHealth(
   accounts: AccountWithMetrics[],
   minHealthScore: number = 50,
 ): AccountWithMetrics[] {
+  const now = Date.now();
   return accounts
     .filter(acc => !acc.isRateLimited && !acc.isCoolingDown && acc.healthScore >= minHealthScore)
     .sort((a, b) => {
-      // Primary: LRU (oldest lastUsed first)
-      const lruDiff = a.lastUsed - b.lastUsed;
+      // Primary: higher tier first
+      const tierDiff = b.priority - a.priority;
+      if (tierDiff !== 0) return tierDiff;
+
+      // Then LRU (oldest lastUsed first); a heavier account counts as more rested
+      const lruDiff = (now - b.lastUsed) * b.weight - (now - a.lastUsed) * a.weight;
       if (lruDiff !== 0) return lruDiff;
       
       // Tiebreaker: higher health score wins
@@ -237,32 +339,33 @@ const SWITCH_THRESHOLD = 100;
 /**
  * Select account using hybrid strategy with stickiness:
  * 1. Filter available accounts (not rate-limited, not cooling down, healthy, has tokens)
- * 2. Calculate priority score: health (2x) + tokens (5x) + freshness (0.1x)
- * 3. Apply stickiness bonus to current account
- * 4. Only switch if another account beats current by SWITCH_THRESHOLD
+ * 2. Keep only the highest priority tier among them
+ * 3. Calculate priority score: health (2x) + tokens (5x) + freshness (0.1x), times weight
+ * 4. Apply stickiness bonus to current account
+ * 5. Only switch if another account beats current by SWITCH_THRESHOLD
  * 
  * @param accounts - All accounts with their metrics
  * @param tokenTracker - Token bucket tracker for token balances
- * @param currentAccountIndex - Currently active account index (for stickiness)
+ * @param currentAccountId - Currently active account id (for stickiness)
  * @param minHealthScore - Minimum health score to be considered
- * @returns Best account index, or null if none available
+ * @returns Best account id, or null if none available
  */
 export function selectHybridAccount(
   accounts: AccountWithMetrics[],
   tokenTracker: TokenBucketTracker,
-  currentAccountIndex: number | null = null,
+  currentAccountId: string | null = null,
   minHealthScore: number = 50,
-): number | null {
-  const candidates = accounts
-    .filter(acc => 
-      !acc.isRateLimited && 
-      !acc.isCoolingDown && 
-      acc.healthScore >= minHealthScore &&
-      tokenTracker.hasTokens(acc.index)
-    )
+): string | null {
+  const available = accounts.filter(acc =>
+    !acc.isRateLimited &&
+    !acc.isCoolingDown &&
+    acc.healthScore >= minHealthScore &&
+    tokenTracker.hasTokens(acc.id)
+  );
+  const candidates = filterTopPriorityTier(available)
     .map(acc => ({
       ...acc,
-      tokens: tokenTracker.getTokens(acc.index)
+      tokens: tokenTracker.getTokens(acc.id)
     }));
 
   if (candidates.length === 0) {
@@ -272,14 +375,14 @@ export function selectHybridAccount(
   const maxTokens = tokenTracker.getMaxTokens();
   const scored = candidates
     .map(acc => {
-      const baseScore = calculateHybridScore(acc, maxTokens);
+      const baseScore = calculateHybridScore(acc, maxTokens) * acc.weight;
       // Apply stickiness bonus to current account
-      const stickinessBonus = acc.index === currentAccountIndex ? STICKINESS_BONUS : 0;
+      const stickinessBonus = acc.id === currentAccountId ? STICKINESS_BONUS : 0;
       return {
-        index: acc.index,
+        id: acc.id,
         baseScore,
         score: baseScore + stickinessBonus,
-        isCurrent: acc.index === currentAccountIndex
+        isCurrent: acc.id === currentAccountId
       };
     })
     .sort((a, b) => b.score - a.score);
@@ -296,11 +399,11 @@ export function selectHybridAccount(
     // (compare base scores to avoid circular stickiness bonus comparison)
     const advantage = best.baseScore - currentCandidate.baseScore;
     if (advantage < SWITCH_THRESHOLD) {
-      return currentCandidate.index;
+      return currentCandidate.id;
     }
   }
 
-  return best.index;
+  return best.id;
 }
 
 interface AccountWithTokens extends AccountWithMetrics {
@@ -337,7 +440,7 @@ export const DEFAULT_TOKEN_BUCKET_CONFIG: TokenBucketConfig = {
   initialTokens: 50,
 };
 
-interface TokenBucketState {
+export interface TokenBucketState {
   tokens: number;
   lastUpdated: number;
 }
@@ -345,20 +448,50 @@ interface TokenBucketState {
 /**
  * Client-side rate limiting using Token Bucket algorithm.
  * Helps prevent hitting server 429s by tracking "cost" of requests.
+ * Buckets are keyed by account id.
  */
 export class TokenBucketTracker {
-  private readonly buckets = new Map<number, TokenBucketState>();
+  private readonly buckets = new Map<string, TokenBucketState>();
   private readonly config: TokenBucketConfig;
+  private changeListener: (() => void) | null = null;
 
   constructor(config: Partial<TokenBucketConfig> = {}) {
     this.config = { ...DEFAULT_TOKEN_BUCKET_CONFIG, ...config };
   }
 
+  /**
+   * Register a callback that runs after every bucket change (used to persist buckets).
+   */
+  setChangeListener(listener: (() => void) | null): void {
+    this.changeListener = listener;
+  }
+
+  /**
+   * Raw per-account buckets. Balances are stored as of `lastUpdated`;
+   * regeneration since then is applied when they are read.
+   */
+  getStates(): Record<string, TokenBucketState> {
+    return Object.fromEntries([...this.buckets].map(([key, state]) => [key, { ...state }]));
+  }
+
+  /**
+   * Adopt buckets recorded by another process or a previous run.
+   * For each account the most recently updated bucket wins.
+   */
+  mergeStates(states: Record<string, TokenBucketState>): void {
+    mergeNewerStates(this.buckets, states);
+  }
+
+  private setState(accountKey: string, state: TokenBucketState): void {
+    this.buckets.set(accountKey, state);
+    this.changeListener?.();
+  }
+
   /**
    * Get current token balance for an account, applying regeneration.
    */
-  getTokens(accountIndex: number): number {
-    const state = this.buckets.get(accountIndex);
+  getTokens(accountKey: string): number {
+    const state = this.buckets.get(accountKey);
     if (!state) {
       return this.config.initialTokens;
     }
@@ -377,21 +510,21 @@ export class TokenBucketTracker {
    * Check if account has enough tokens for a request.
    * @param cost Cost of the request (default: 1)
    */
-  hasTokens(accountIndex: number, cost: number = 1): boolean {
-    return this.getTokens(accountIndex) >= cost;
+  hasTokens(accountKey: string, cost: number = 1): boolean {
+    return this.getTokens(accountKey) >= cost;
   }
 
   /**
    * Consume tokens for a request.
    * @returns true if tokens were consumed, false if insufficient
    */
-  consume(accountIndex: number, cost: number = 1): boolean {
-    const current = this.getTokens(accountIndex);
+  consume(accountKey: string, cost: number = 1): boolean {
+    const current = this.getTokens(accountKey);
     if (current < cost) {
       return false;
     }
 
-    this.buckets.set(accountIndex, {
+    this.setState(accountKey, {
       tokens: current - cost,
       lastUpdated: Date.now(),
     });
@@ -401,14 +534,30 @@ export class TokenBucketTracker {
   /**
    * Refund tokens (e.g., if request wasn't actually sent).
    */
-  refund(accountIndex: number, amount: number = 1): void {
-    const current = this.getTokens(accountIndex);
-    this.buckets.set(accountIndex, {
+  refund(accountKey: string, amount: number = 1): void {
+    const current = this.getTokens(accountKey);
+    this.setState(accountKey, {
       tokens: Math.min(this.config.maxTokens, current + amount),
       lastUpdated: Date.now(),
     });
   }
 
+  /**
+   * Lower an account's balance to at most `maxBalance` (e.g. when the server
+   * reports that little of its rate limit is left). Never raises it.
+   */
+  clampTokens(accountKey: string, maxBalance: number): void {
+    const current = this.getTokens(accountKey);
+    const clamped = Math.max(0, maxBalance);
+    if (current <= clamped) {
+      return;
+    }
+    this.setState(accountKey, {
+      tokens: clamped,
+      lastUpdated: Date.now(),
+    });
+  }
+
   getMaxTokens(): number {
     return this.config.maxTokens;
   }
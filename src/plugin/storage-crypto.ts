@@ -0,0 +1,164 @@
+/**
+ * Encryption at rest for kimicode-accounts.json.
+ *
+ * Opt-in via environment:
+ * - OPENCODE_KIMICODE_STORAGE_PASSPHRASE: passphrase used to derive the key
+ * - OPENCODE_KIMICODE_STORAGE_KEYFILE: path to a file whose contents are the secret
+ *
+ * The key is derived with scrypt (per-file random salt) and the serialized
+ * pool is sealed with AES-256-GCM. The encrypted file is a small JSON envelope
+ * so it can still be recognized (and refused, rather than overwritten) when
+ * no key is configured.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "node:crypto";
+import { readFileSync } from "node:fs";
+
+export const STORAGE_PASSPHRASE_ENV = "OPENCODE_KIMICODE_STORAGE_PASSPHRASE";
+export const STORAGE_KEYFILE_ENV = "OPENCODE_KIMICODE_STORAGE_KEYFILE";
+
+const ENVELOPE_MARKER = "kimicode-encrypted-storage";
+const CIPHER = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 } as const;
+
+export type StorageKeySource = "passphrase" | "keyfile";
+
+export interface StorageSecret {
+  source: StorageKeySource;
+  secret: Buffer;
+}
+
+interface EncryptedEnvelope {
+  format: typeof ENVELOPE_MARKER;
+  version: 1;
+  cipher: typeof CIPHER;
+  kdf: { name: "scrypt"; salt: string; N: number; r: number; p: number };
+  keySource: StorageKeySource;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Thrown when the stored pool is encrypted but cannot be decrypted
+ * (no key configured, wrong key, or tampered file).
+ */
+export class StorageDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageDecryptionError";
+  }
+}
+
+/**
+ * Resolve the configured storage secret, or null when encryption is off.
+ * A passphrase takes precedence over a keyfile.
+ */
+export function getStorageSecret(): StorageSecret | null {
+  const passphrase = process.env[STORAGE_PASSPHRASE_ENV];
+  if (passphrase) {
+    return { source: "passphrase", secret: Buffer.from(passphrase, "utf8") };
+  }
+
+  const keyfile = process.env[STORAGE_KEYFILE_ENV];
+  if (keyfile) {
+    let contents: Buffer;
+    try {
+      contents = readFileSync(keyfile);
+    } catch (error) {
+      throw new StorageDecryptionError(
+        `Cannot read storage keyfile ${keyfile}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    const trimmed = Buffer.from(contents.toString("utf8").trim(), "utf8");
+    if (trimmed.length === 0) {
+      throw new StorageDecryptionError(`Storage keyfile ${keyfile} is empty`);
+    }
+    return { source: "keyfile", secret: trimmed };
+  }
+
+  return null;
+}
+
+// scrypt is deliberately slow; cache derived keys per (secret, salt) so the
+// debounced saves do not pay for it every time.
+const derivedKeyCache = new Map<string, Buffer>();
+let sessionSalt: Buffer | null = null;
+
+function deriveKey(secret: Buffer, salt: Buffer, params: { N: number; r: number; p: number }): Buffer {
+  const cacheKey = `${secret.toString("base64")}:${salt.toString("base64")}:${params.N}:${params.r}:${params.p}`;
+  const cached = derivedKeyCache.get(cacheKey);
+  if (cached) return cached;
+
+  const key = scryptSync(secret, salt, KEY_LENGTH, { ...params, maxmem: 64 * 1024 * 1024 });
+  derivedKeyCache.set(cacheKey, key);
+  return key;
+}
+
+/**
+ * Whether parsed file contents are an encrypted envelope.
+ */
+export function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    (value as { format?: unknown }).format === ENVELOPE_MARKER
+  );
+}
+
+/**
+ * Encrypt serialized storage and return the envelope as JSON text.
+ */
+export function encryptStorageContent(plaintext: string, secret: StorageSecret): string {
+  sessionSalt ??= randomBytes(SALT_LENGTH);
+  const key = deriveKey(secret.secret, sessionSalt, SCRYPT_PARAMS);
+  const iv = randomBytes(IV_LENGTH);
+
+  const cipher = createCipheriv(CIPHER, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  const envelope: EncryptedEnvelope = {
+    format: ENVELOPE_MARKER,
+    version: 1,
+    cipher: CIPHER,
+    kdf: { name: "scrypt", salt: sessionSalt.toString("base64"), ...SCRYPT_PARAMS },
+    keySource: secret.source,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+  return JSON.stringify(envelope, null, 2);
+}
+
+/**
+ * Decrypt an envelope back to the serialized storage JSON.
+ *
+ * @throws StorageDecryptionError if no secret is configured or authentication fails
+ */
+export function decryptStorageContent(envelope: EncryptedEnvelope, secret: StorageSecret | null): string {
+  if (!secret) {
+    throw new StorageDecryptionError(
+      `Account storage is encrypted (${envelope.keySource}). ` +
+      `Set ${envelope.keySource === "keyfile" ? STORAGE_KEYFILE_ENV : STORAGE_PASSPHRASE_ENV} to unlock it.`,
+    );
+  }
+
+  try {
+    const salt = Buffer.from(envelope.kdf.salt, "base64");
+    const key = deriveKey(secret.secret, salt, envelope.kdf);
+    const decipher = createDecipheriv(CIPHER, key, Buffer.from(envelope.iv, "base64"));
+    decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(envelope.data, "base64")),
+      decipher.final(),
+    ]);
+    return plaintext.toString("utf8");
+  } catch {
+    throw new StorageDecryptionError(
+      "Failed to decrypt account storage: wrong passphrase/keyfile or the file was modified.",
+    );
+  }
+}
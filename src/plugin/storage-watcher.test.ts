@@ -0,0 +1,34 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { watchStorageFile } from "./storage-watcher";
+
+describe("watchStorageFile", () => {
+  let tempDir: string | undefined;
+  let stop: (() => void) | undefined;
+
+  afterEach(() => {
+    stop?.();
+    if (tempDir) fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("reports writes that replace the file through a rename", async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "kimicode-watch-test-"));
+    const file = path.join(tempDir, "kimicode-accounts.json");
+    fs.writeFileSync(file, "{}");
+
+    const onChange = vi.fn();
+    stop = watchStorageFile(file, onChange, { intervalMs: 20, debounceMs: 20 });
+
+    const temp = `${file}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify({ version: 1, accounts: [], activeIndex: 0 }));
+    fs.renameSync(temp, file);
+
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(1), { timeout: 2000 });
+
+    fs.rmSync(file);
+    await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(2), { timeout: 2000 });
+  });
+});
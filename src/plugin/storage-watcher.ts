@@ -0,0 +1,80 @@
+/**
+ * Watches kimicode-accounts.json for writes from other processes.
+ *
+ * The pool is rewritten through a temp file and rename, which replaces the
+ * inode and silently ends an `fs.watch` on the old file. `fs.watchFile`
+ * polls the path instead, so it survives renames, deletion and re-creation.
+ * Bursts of changes (a save is lock + write + rename) are debounced into one
+ * callback.
+ */
+
+import { unwatchFile, watchFile, type Stats } from "node:fs";
+import { createLogger } from "./logger";
+
+const log = createLogger("storage-watcher");
+
+export interface StorageWatcherOptions {
+  /** Poll interval for the file's stat (default: 2000ms) */
+  intervalMs?: number;
+  /** Quiet period before the callback runs (default: 250ms) */
+  debounceMs?: number;
+}
+
+/**
+ * Call `onChange` after `path` is modified, created or deleted.
+ * The watcher never keeps the process alive. Callback errors are logged.
+ *
+ * @returns A function that stops watching
+ */
+export function watchStorageFile(
+  path: string,
+  onChange: () => Promise<void> | void,
+  options: StorageWatcherOptions = {},
+): () => void {
+  const debounceMs = options.debounceMs ?? 250;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running: Promise<void> | null = null;
+  let rerun = false;
+
+  const run = async (): Promise<void> => {
+    if (running) {
+      // Coalesce changes that land while the callback is still running.
+      rerun = true;
+      return;
+    }
+    do {
+      rerun = false;
+      running = Promise.resolve()
+        .then(onChange)
+        .catch((error) => {
+          log.warn("Account storage change handler failed", { error: String(error) });
+        });
+      await running;
+      running = null;
+    } while (rerun);
+  };
+
+  const listener = (curr: Stats, prev: Stats): void => {
+    if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size && curr.ino === prev.ino) {
+      return;
+    }
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = null;
+      void run();
+    }, debounceMs);
+  };
+
+  watchFile(path, { interval: options.intervalMs ?? 2000, persistent: false }, listener);
+  log.debug("Watching account storage", { path });
+
+  return () => {
+    unwatchFile(path, listener);
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+}
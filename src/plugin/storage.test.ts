@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import { loadAccounts, saveAccounts, saveAccountsReplace, type AccountStorage } from "./storage";
+import { STORAGE_KEYFILE_ENV, STORAGE_PASSPHRASE_ENV, StorageDecryptionError } from "./storage-crypto";
+
+const POOL: AccountStorage = {
+  version: 1,
+  accounts: [{ refreshToken: "secret-refresh-token", email: "a@example.com", addedAt: 1, lastUsed: 2 }],
+  activeIndex: 0,
+};
+
+describe("encrypted account storage", () => {
+  let tempDir: string;
+  let storagePath: string;
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    for (const key of ["OPENCODE_CONFIG_DIR", STORAGE_PASSPHRASE_ENV, STORAGE_KEYFILE_ENV]) {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "kimicode-storage-test-"));
+    process.env.OPENCODE_CONFIG_DIR = tempDir;
+    storagePath = path.join(tempDir, "kimicode-accounts.json");
+  });
+
+  afterEach(() => {
+    for (const [key, value] of Object.entries(savedEnv)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("keeps plaintext storage when no key is configured", async () => {
+    await saveAccounts(POOL);
+
+    expect(JSON.parse(fs.readFileSync(storagePath, "utf-8")).accounts[0].refreshToken).toBe("secret-refresh-token");
+  });
+
+  it("encrypts a plaintext pool on load once a passphrase is set", async () => {
+    fs.writeFileSync(storagePath, JSON.stringify(POOL));
+    process.env[STORAGE_PASSPHRASE_ENV] = "correct horse";
+
+    const loaded = await loadAccounts();
+
+    expect(loaded?.accounts[0]?.refreshToken).toBe("secret-refresh-token");
+    const raw = fs.readFileSync(storagePath, "utf-8");
+    expect(raw).not.toContain("secret-refresh-token");
+    expect(JSON.parse(raw).format).toBe("kimicode-encrypted-storage");
+    expect((await loadAccounts())?.accounts[0]?.email).toBe("a@example.com");
+  });
+
+  it("merges saves into an encrypted pool", async () => {
+    process.env[STORAGE_PASSPHRASE_ENV] = "correct horse";
+    await saveAccountsReplace(POOL);
+    await saveAccounts({
+      version: 1,
+      accounts: [{ refreshToken: "second-token", addedAt: 3, lastUsed: 0 }],
+      activeIndex: 0,
+    });
+
+    const loaded = await loadAccounts();
+    expect(loaded?.accounts.map((a) => a.refreshToken)).toEqual(["secret-refresh-token", "second-token"]);
+    expect(fs.readFileSync(storagePath, "utf-8")).not.toContain("second-token");
+  });
+
+  it("refuses to read or overwrite the pool without the right key", async () => {
+    process.env[STORAGE_PASSPHRASE_ENV] = "correct horse";
+    await saveAccountsReplace(POOL);
+    const encrypted = fs.readFileSync(storagePath, "utf-8");
+
+    process.env[STORAGE_PASSPHRASE_ENV] = "wrong horse";
+    expect(await loadAccounts()).toBeNull();
+    await expect(saveAccounts(POOL)).rejects.toBeInstanceOf(StorageDecryptionError);
+
+    delete process.env[STORAGE_PASSPHRASE_ENV];
+    expect(await loadAccounts()).toBeNull();
+    await expect(saveAccountsReplace(POOL)).rejects.toBeInstanceOf(StorageDecryptionError);
+
+    expect(fs.readFileSync(storagePath, "utf-8")).toBe(encrypted);
+  });
+
+  it("derives the key from a keyfile", async () => {
+    const keyfile = path.join(tempDir, "storage.key");
+    fs.writeFileSync(keyfile, "0123456789abcdef0123456789abcdef\n");
+    process.env[STORAGE_KEYFILE_ENV] = keyfile;
+
+    await saveAccountsReplace(POOL);
+
+    expect(JSON.parse(fs.readFileSync(storagePath, "utf-8")).keySource).toBe("keyfile");
+    expect((await loadAccounts())?.accounts[0]?.refreshToken).toBe("secret-refresh-token");
+  });
+
+  it("assigns persistent ids to accounts saved without them", async () => {
+    fs.writeFileSync(storagePath, JSON.stringify(POOL));
+
+    const loaded = await loadAccounts();
+    const id = loaded?.accounts[0]?.id;
+
+    expect(id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(JSON.parse(fs.readFileSync(storagePath, "utf-8")).accounts[0].id).toBe(id);
+    expect((await loadAccounts())?.accounts[0]?.id).toBe(id);
+
+    // A writer that added the same account under another id does not replace it.
+    await saveAccounts({ ...POOL, accounts: [{ ...POOL.accounts[0]!, id: "other-id", label: "work" }] });
+    expect((await loadAccounts())?.accounts).toEqual([expect.objectContaining({ id, label: "work" })]);
+  });
+});
@@ -11,9 +11,24 @@ import {
 } from "node:fs";
 import { dirname, join } from "node:path";
 import { homedir } from "node:os";
-import { randomBytes } from "node:crypto";
+import { createHash, randomBytes } from "node:crypto";
 import lockfile from "proper-lockfile";
 import { createLogger } from "./logger";
+import { extractKimiUserIdFromJwt, getAccountIdentityKey } from "./identity";
+import {
+  ACCOUNT_STORE_COMMAND_ENV,
+  CommandAccountStore,
+  EnvAccountStore,
+  resolveAccountStoreKind,
+  type AccountStore,
+} from "./account-store";
+import {
+  StorageDecryptionError,
+  decryptStorageContent,
+  encryptStorageContent,
+  getStorageSecret,
+  isEncryptedEnvelope,
+} from "./storage-crypto";
 
 const log = createLogger("storage");
 
@@ -25,6 +40,15 @@ export const GITIGNORE_ENTRIES = [
   ".gitignore",
   "kimicode-accounts.json",
   "kimicode-accounts.json.*.tmp",
+  "kimicode-models.json",
+  "kimicode-models.json.*.tmp",
+  "kimicode-device-auth.json",
+  "kimicode-device-auth.json.*.tmp",
+  "kimicode-refresh-locks/",
+  "kimicode-usage.json",
+  "kimicode-usage.json.*.tmp",
+  "kimicode-rotation.json",
+  "kimicode-rotation.json.*.tmp",
   "kimicode-logs/",
 ];
 
@@ -141,8 +165,28 @@ export interface RateLimitState {
 export type CooldownReason = "auth-failure" | "network-error" | "project-error" | "validation-required";
 
 export interface AccountMetadata {
+  /**
+   * Persistent account id (UUID). Identifies the account across processes,
+   * removals and reorders; assigned on first load of older files.
+   */
+  id?: string;
   email?: string;
+  /** Kimi user id from the token JWT; the key used to dedupe accounts */
+  userId?: string;
+  /** Profile name from Kimi's user-info endpoint, when available */
+  displayName?: string;
+  /** User-assigned name shown instead of the email (set via kimicode-accounts label) */
+  label?: string;
+  /**
+   * Selection tier (default 0): accounts with a higher priority are used while
+   * any of them is available, e.g. 1 for a paid primary account
+   */
+  priority?: number;
+  /** Relative share of requests within the account's tier (default 1) */
+  weight?: number;
   refreshToken: string;
+  /** When `refreshToken` was last rotated; decides which copy wins a merge */
+  refreshTokenUpdatedAt?: number;
   addedAt: number;
   lastUsed: number;
   enabled?: boolean;
@@ -161,10 +205,16 @@ export interface AccountMetadata {
 export interface AccountStorage {
   version: 1;
   accounts: AccountMetadata[];
+  /** Position of the active account; kept for older plugin versions */
   activeIndex: number;
   activeIndexByFamily?: {
     kimi?: number;
   };
+  /** Id of the active account; takes precedence over `activeIndex` */
+  activeAccountId?: string;
+  activeAccountIdByFamily?: {
+    kimi?: string;
+  };
 }
 
 /**
@@ -327,6 +377,47 @@ async function ensureFileExists(path: string): Promise<void> {
   }
 }
 
+/**
+ * Parse the raw storage file, decrypting it when it is an encrypted envelope.
+ *
+ * @throws StorageDecryptionError if the file is encrypted and cannot be decrypted
+ */
+function decodeStorageFile(content: string): { data: unknown; encrypted: boolean } {
+  const parsed = JSON.parse(content) as unknown;
+  if (!isEncryptedEnvelope(parsed)) {
+    return { data: parsed, encrypted: false };
+  }
+  return { data: JSON.parse(decryptStorageContent(parsed, getStorageSecret())), encrypted: true };
+}
+
+/**
+ * Serialize storage for disk, encrypting it when a storage secret is configured.
+ */
+function encodeStorageFile(storage: AccountStorage): string {
+  const content = JSON.stringify(storage, null, 2);
+  const secret = getStorageSecret();
+  return secret ? encryptStorageContent(content, secret) : content;
+}
+
+/**
+ * Refuse to overwrite an encrypted pool we cannot read; replacing it would
+ * silently drop every stored account.
+ */
+async function assertExistingStorageReadable(store: AccountStore): Promise<void> {
+  let content: string | null;
+  try {
+    content = await store.read();
+  } catch {
+    return;
+  }
+  if (!content) return;
+  try {
+    decodeStorageFile(content);
+  } catch (error) {
+    if (error instanceof StorageDecryptionError) throw error;
+  }
+}
+
 async function withFileLock<T>(path: string, fn: () => Promise<T>): Promise<T> {
   await ensureFileExists(path);
   let release: (() => Promise<void>) | null = null;
@@ -344,69 +435,208 @@ async function withFileLock<T>(path: string, fn: () => Promise<T>): Promise<T> {
   }
 }
 
+// =============================================================================
+// Account Store Backends
+// =============================================================================
+
+/**
+ * Default backend: kimicode-accounts.json in the config directory, guarded by
+ * a proper-lockfile lock and written atomically (temp file + rename).
+ */
+export class FileAccountStore implements AccountStore {
+  readonly kind = "file" as const;
+
+  constructor(private readonly path: string = getStoragePath()) {}
+
+  async read(): Promise<string | null> {
+    await ensureSecurePermissions(this.path);
+    try {
+      return await fs.readFile(this.path, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async write(content: string): Promise<void> {
+    const configDir = dirname(this.path);
+    await fs.mkdir(configDir, { recursive: true });
+    await ensureGitignore(configDir);
+
+    const tempPath = `${this.path}.${randomBytes(6).toString("hex")}.tmp`;
+    try {
+      await fs.writeFile(tempPath, content, { encoding: "utf-8", mode: 0o600 });
+      await fs.rename(tempPath, this.path);
+    } catch (error) {
+      try {
+        await fs.unlink(tempPath);
+      } catch {
+        // Ignore cleanup errors (file may not exist)
+      }
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await fs.unlink(this.path);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+  }
+
+  withLock<T>(fn: () => Promise<T>): Promise<T> {
+    return withFileLock(this.path, fn);
+  }
+
+  describe(): string {
+    return this.path;
+  }
+}
+
+let cachedStore: { key: string; store: AccountStore } | null = null;
+
+/**
+ * Get the configured account store (see account-store.ts for selection).
+ * Instances are reused while the configuration is unchanged so in-process
+ * locks are shared.
+ */
+export function getAccountStore(): AccountStore {
+  const kind = resolveAccountStoreKind();
+  const command = process.env[ACCOUNT_STORE_COMMAND_ENV]?.trim();
+  const key = kind === "file" ? `file:${getStoragePath()}` : kind === "command" ? `command:${command}` : "env";
+  if (cachedStore?.key === key) {
+    return cachedStore.store;
+  }
+
+  let store: AccountStore;
+  if (kind === "command" && command) {
+    store = new CommandAccountStore(command);
+  } else if (kind === "env") {
+    store = new EnvAccountStore();
+  } else {
+    if (kind === "command") {
+      log.warn(`Account store 'command' requires ${ACCOUNT_STORE_COMMAND_ENV}; using file`);
+    }
+    store = new FileAccountStore();
+  }
+
+  cachedStore = { key, store };
+  return store;
+}
+
 function mergeAccountStorage(
   existing: AccountStorage,
   incoming: AccountStorage,
 ): AccountStorage {
-  const accountMap = new Map<string, AccountMetadata>();
+  const accounts: AccountMetadata[] = [];
+  const indexById = new Map<string, number>();
+  const indexByToken = new Map<string, number>();
+  const indexByIdentity = new Map<string, number>();
+
+  const track = (acc: AccountMetadata, index: number) => {
+    if (acc.id) {
+      indexById.set(acc.id, index);
+    }
+    indexByToken.set(acc.refreshToken, index);
+    const identity = getAccountIdentityKey(acc);
+    if (identity) {
+      indexByIdentity.set(identity, index);
+    }
+  };
 
   for (const acc of existing.accounts) {
-    if (acc.refreshToken) {
-      accountMap.set(acc.refreshToken, acc);
+    if (acc.refreshToken && !indexByToken.has(acc.refreshToken)) {
+      accounts.push(acc);
+      track(acc, accounts.length - 1);
     }
   }
 
   for (const acc of incoming.accounts) {
-    if (acc.refreshToken) {
-      const existingAcc = accountMap.get(acc.refreshToken);
-      if (existingAcc) {
-        accountMap.set(acc.refreshToken, {
-          ...existingAcc,
-          ...acc,
-          rateLimitResetTimes: {
-            ...existingAcc.rateLimitResetTimes,
-            ...acc.rateLimitResetTimes,
-          },
-          lastUsed: Math.max(existingAcc.lastUsed || 0, acc.lastUsed || 0),
-        });
-      } else {
-        accountMap.set(acc.refreshToken, acc);
-      }
+    if (!acc.refreshToken) continue;
+
+    // Same account under a different refresh token means a token rotation
+    // (by this or another process), so match by identity as well.
+    const identity = getAccountIdentityKey(acc);
+    const index =
+      (acc.id ? indexById.get(acc.id) : undefined) ??
+      indexByToken.get(acc.refreshToken) ??
+      (identity ? indexByIdentity.get(identity) : undefined);
+    const existingAcc = index !== undefined ? accounts[index] : undefined;
+
+    if (index === undefined || !existingAcc) {
+      accounts.push(acc);
+      track(acc, accounts.length - 1);
+      continue;
     }
+
+    // Keep the newer token so a stale writer cannot bring back a token the
+    // server has already rotated away.
+    const keepExistingToken =
+      existingAcc.refreshToken !== acc.refreshToken &&
+      (existingAcc.refreshTokenUpdatedAt ?? 0) > (acc.refreshTokenUpdatedAt ?? 0);
+    const tokenSource = keepExistingToken ? existingAcc : acc;
+
+    indexByToken.delete(existingAcc.refreshToken);
+    accounts[index] = {
+      ...existingAcc,
+      ...acc,
+      // The stored id wins when the same account was added with a different one.
+      id: existingAcc.id ?? acc.id,
+      refreshToken: tokenSource.refreshToken,
+      refreshTokenUpdatedAt: tokenSource.refreshTokenUpdatedAt,
+      rateLimitResetTimes: {
+        ...existingAcc.rateLimitResetTimes,
+        ...acc.rateLimitResetTimes,
+      },
+      lastUsed: Math.max(existingAcc.lastUsed || 0, acc.lastUsed || 0),
+    };
+    track(accounts[index]!, index);
   }
 
   return {
     version: 1,
-    accounts: Array.from(accountMap.values()),
+    accounts,
     activeIndex: incoming.activeIndex,
     activeIndexByFamily: incoming.activeIndexByFamily,
+    activeAccountId: incoming.activeAccountId,
+    activeAccountIdByFamily: incoming.activeAccountIdByFamily,
   };
 }
 
-export function deduplicateAccountsByEmail<
-  T extends { email?: string; lastUsed?: number; addedAt?: number },
+/**
+ * Keep only the most recently used entry per account identity (user id, or
+ * email for entries saved before user ids were stored).
+ */
+export function deduplicateAccountsByIdentity<
+  T extends { userId?: string; email?: string; lastUsed?: number; addedAt?: number },
 >(accounts: T[]): T[] {
-  const emailToNewestIndex = new Map<string, number>();
+  const keyToNewestIndex = new Map<string, number>();
   const indicesToKeep = new Set<number>();
 
   for (let i = 0; i < accounts.length; i++) {
     const acc = accounts[i];
     if (!acc) continue;
 
-    if (!acc.email) {
+    const key = getAccountIdentityKey(acc);
+    if (!key) {
       indicesToKeep.add(i);
       continue;
     }
 
-    const existingIndex = emailToNewestIndex.get(acc.email);
+    const existingIndex = keyToNewestIndex.get(key);
     if (existingIndex === undefined) {
-      emailToNewestIndex.set(acc.email, i);
+      keyToNewestIndex.set(key, i);
       continue;
     }
 
     const existing = accounts[existingIndex];
     if (!existing) {
-      emailToNewestIndex.set(acc.email, i);
+      keyToNewestIndex.set(key, i);
       continue;
     }
 
@@ -420,11 +650,11 @@ export function deduplicateAccountsByEmail<
       (currLastUsed === existLastUsed && currAddedAt > existAddedAt);
 
     if (isNewer) {
-      emailToNewestIndex.set(acc.email, i);
+      keyToNewestIndex.set(key, i);
     }
   }
 
-  for (const idx of emailToNewestIndex.values()) {
+  for (const idx of keyToNewestIndex.values()) {
     indicesToKeep.add(idx);
   }
 
@@ -443,11 +673,13 @@ export function deduplicateAccountsByEmail<
 
 export async function loadAccounts(): Promise<AccountStorage | null> {
   try {
-    const path = getStoragePath();
-    await ensureSecurePermissions(path);
+    const content = await getAccountStore().read();
+    if (content === null) {
+      return null;
+    }
 
-    const content = await fs.readFile(path, "utf-8");
-    const data = JSON.parse(content) as AccountStorage;
+    const decoded = decodeStorageFile(content);
+    const data = decoded.data as AccountStorage;
 
     if (!Array.isArray(data.accounts)) {
       log.warn("Invalid storage format, ignoring");
@@ -471,7 +703,18 @@ export async function loadAccounts(): Promise<AccountStorage | null> {
       },
     );
 
-    const deduplicatedAccounts = deduplicateAccountsByEmail(validAccounts);
+    let deduplicatedAccounts = deduplicateAccountsByIdentity(validAccounts);
+
+    // Transparent migration: give accounts from older files a persistent id.
+    if (deduplicatedAccounts.some((acc) => !acc.id)) {
+      const ids = await assignAccountIds().catch((error) => {
+        log.warn("Failed to save account ids", { error: String(error) });
+        return new Map<string, string>();
+      });
+      deduplicatedAccounts = deduplicatedAccounts.map((acc) =>
+        acc.id ? acc : { ...acc, id: ids.get(acc.refreshToken) ?? deriveAccountId(acc) },
+      );
+    }
 
     let activeIndex =
       typeof data.activeIndex === "number" &&
@@ -485,46 +728,87 @@ export async function loadAccounts(): Promise<AccountStorage | null> {
       activeIndex = 0;
     }
 
-    return {
+    const result: AccountStorage = {
       version: 1,
       accounts: deduplicatedAccounts,
       activeIndex,
       activeIndexByFamily: data.activeIndexByFamily,
+      activeAccountId: data.activeAccountId,
+      activeAccountIdByFamily: data.activeAccountIdByFamily,
     };
+
+    // Transparent migration: encrypt a plaintext pool as soon as a key is configured.
+    if (!decoded.encrypted && getStorageSecret()) {
+      await saveAccountsReplace(result).then(
+        () => log.info("Encrypted account storage at rest"),
+        (error) => log.warn("Failed to encrypt account storage", { error: String(error) }),
+      );
+    }
+
+    return result;
   } catch (error) {
     const code = (error as NodeJS.ErrnoException).code;
     if (code === "ENOENT") {
       return null;
     }
+    if (error instanceof StorageDecryptionError) {
+      log.error("Account storage is encrypted and could not be decrypted", { error: error.message });
+      return null;
+    }
     log.error("Failed to load account storage", { error: String(error) });
     return null;
   }
 }
 
-export async function saveAccounts(storage: AccountStorage): Promise<void> {
-  const path = getStoragePath();
-  const configDir = dirname(path);
-  await fs.mkdir(configDir, { recursive: true });
-  await ensureGitignore(configDir);
+/**
+ * Id for a stored account that has none, derived from its Kimi user id (else
+ * its refresh token). Backends that cannot persist the id (env, a read-only
+ * command) thereby give the account the same id in every process, so state
+ * keyed by id and `model_routing` references carry over between runs.
+ */
+export function deriveAccountId(acc: { refreshToken: string; userId?: string }): string {
+  const userId = acc.userId ?? extractKimiUserIdFromJwt(acc.refreshToken);
+  const source = userId ? `user:${userId}` : `token:${acc.refreshToken}`;
+  const hash = createHash("sha256").update(source).digest("hex");
+  return [hash.slice(0, 8), hash.slice(8, 12), hash.slice(12, 16), hash.slice(16, 20), hash.slice(20, 32)].join("-");
+}
 
-  await withFileLock(path, async () => {
-    const existing = await loadAccountsUnsafe();
-    const merged = existing ? mergeAccountStorage(existing, storage) : storage;
+/**
+ * Give every stored account without an id a new one. Runs under the storage
+ * lock on a fresh read, so processes migrating the same file agree on ids.
+ *
+ * @returns Ids by refresh token
+ */
+async function assignAccountIds(): Promise<Map<string, string>> {
+  const store = getAccountStore();
 
-    const tempPath = `${path}.${randomBytes(6).toString("hex")}.tmp`;
-    const content = JSON.stringify(merged, null, 2);
+  return store.withLock(async () => {
+    const ids = new Map<string, string>();
+    const existing = await loadAccountsUnsafe(store);
+    if (!existing) {
+      return ids;
+    }
 
-    try {
-      await fs.writeFile(tempPath, content, { encoding: "utf-8", mode: 0o600 });
-      await fs.rename(tempPath, path);
-    } catch (error) {
-      try {
-        await fs.unlink(tempPath);
-      } catch {
-        // Ignore cleanup errors (file may not exist)
-      }
-      throw error;
+    const accounts = existing.accounts.map((acc) => {
+      const id = acc.id ?? deriveAccountId(acc);
+      ids.set(acc.refreshToken, id);
+      return { ...acc, id };
+    });
+    if (existing.accounts.some((acc) => !acc.id)) {
+      await store.write(encodeStorageFile({ ...existing, accounts }));
+      log.info("Assigned ids to stored accounts");
     }
+    return ids;
+  });
+}
+
+export async function saveAccounts(storage: AccountStorage): Promise<void> {
+  const store = getAccountStore();
+
+  await store.withLock(async () => {
+    const existing = await loadAccountsUnsafe(store);
+    const merged = existing ? mergeAccountStorage(existing, storage) : storage;
+    await store.write(encodeStorageFile(merged));
   });
 }
 
@@ -534,36 +818,39 @@ export async function saveAccounts(storage: AccountStorage): Promise<void> {
  * remove accounts that would otherwise be merged back from existing storage.
  */
 export async function saveAccountsReplace(storage: AccountStorage): Promise<void> {
-  const path = getStoragePath();
-  const configDir = dirname(path);
-  await fs.mkdir(configDir, { recursive: true });
-  await ensureGitignore(configDir);
+  const store = getAccountStore();
 
-  await withFileLock(path, async () => {
-    const tempPath = `${path}.${randomBytes(6).toString("hex")}.tmp`;
-    const content = JSON.stringify(storage, null, 2);
+  await store.withLock(async () => {
+    await assertExistingStorageReadable(store);
+    await store.write(encodeStorageFile(storage));
+  });
+}
 
-    try {
-      await fs.writeFile(tempPath, content, { encoding: "utf-8", mode: 0o600 });
-      await fs.rename(tempPath, path);
-    } catch (error) {
-      try {
-        await fs.unlink(tempPath);
-      } catch {
-        // Ignore cleanup errors
-      }
-      throw error;
-    }
+/**
+ * Read, change and replace the stored pool under one lock, so a refresh token
+ * another process rotates in the meantime is not overwritten with a stale one.
+ *
+ * @param update - Receives the stored pool (null if there is none) and returns the pool to write
+ */
+export async function updateAccounts(
+  update: (existing: AccountStorage | null) => Promise<AccountStorage> | AccountStorage,
+): Promise<void> {
+  const store = getAccountStore();
+
+  await store.withLock(async () => {
+    const existing = await loadAccountsUnsafe(store);
+    await store.write(encodeStorageFile(await update(existing)));
   });
 }
 
-async function loadAccountsUnsafe(): Promise<AccountStorage | null> {
+async function loadAccountsUnsafe(store: AccountStore): Promise<AccountStorage | null> {
   try {
-    const path = getStoragePath();
-    await ensureSecurePermissions(path);
+    const content = await store.read();
+    if (content === null) {
+      return null;
+    }
 
-    const content = await fs.readFile(path, "utf-8");
-    const parsed = JSON.parse(content) as AccountStorage;
+    const parsed = decodeStorageFile(content).data as AccountStorage;
 
     if (parsed.version !== 1 || !Array.isArray(parsed.accounts)) {
       return null;
@@ -571,9 +858,13 @@ async function loadAccountsUnsafe(): Promise<AccountStorage | null> {
 
     return {
       ...parsed,
-      accounts: deduplicateAccountsByEmail(parsed.accounts),
+      accounts: deduplicateAccountsByIdentity(parsed.accounts),
     };
   } catch (error) {
+    if (error instanceof StorageDecryptionError) {
+      // Never merge into (and overwrite) an encrypted pool we cannot read.
+      throw error;
+    }
     const code = (error as NodeJS.ErrnoException).code;
     if (code === "ENOENT") {
       return null;
@@ -584,12 +875,8 @@ async function loadAccountsUnsafe(): Promise<AccountStorage | null> {
 
 export async function clearAccounts(): Promise<void> {
   try {
-    const path = getStoragePath();
-    await fs.unlink(path);
+    await getAccountStore().clear();
   } catch (error) {
-    const code = (error as NodeJS.ErrnoException).code;
-    if (code !== "ENOENT") {
-      log.error("Failed to clear account storage", { error: String(error) });
-    }
+    log.error("Failed to clear account storage", { error: String(error) });
   }
 }
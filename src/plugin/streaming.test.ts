@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+
+import { isEventStreamResponse, peekSseStream } from "./streaming";
+
+function sseResponse(chunks: string[], options: { failAfter?: boolean } = {}): Response {
+  const encoder = new TextEncoder();
+  let index = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const chunk = chunks[index++];
+      if (chunk !== undefined) {
+        controller.enqueue(encoder.encode(chunk));
+        return;
+      }
+      if (options.failAfter) {
+        controller.error(new Error("socket hang up"));
+        return;
+      }
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200, headers: { "content-type": "text/event-stream" } });
+}
+
+function delta(payload: Record<string, unknown>): string {
+  return `data: ${JSON.stringify({ choices: [{ index: 0, delta: payload }] })}\n\n`;
+}
+
+describe("peekSseStream", () => {
+  it("replays the full stream once content arrives", async () => {
+    const chunks = [delta({ role: "assistant" }), delta({ content: "Hel" }), delta({ content: "lo" }), "data: [DONE]\n\n"];
+    const result = await peekSseStream(sseResponse(chunks));
+
+    expect(result.type).toBe("content");
+    if (result.type !== "content") return;
+    expect(isEventStreamResponse(result.response)).toBe(true);
+    expect(await result.response.text()).toBe(chunks.join(""));
+  });
+
+  it("treats reasoning and tool call deltas as content", async () => {
+    const reasoning = await peekSseStream(sseResponse([delta({ reasoning_content: "hmm" })]));
+    const toolCall = await peekSseStream(sseResponse([delta({ tool_calls: [{ index: 0, id: "call_1" }] })]));
+
+    expect(reasoning.type).toBe("content");
+    expect(toolCall.type).toBe("content");
+  });
+
+  it("handles events split across chunks and CRLF line endings", async () => {
+    const event = delta({ content: "hi" }).replace(/\n/g, "\r\n");
+    const result = await peekSseStream(sseResponse([event.slice(0, 10), event.slice(10, event.length - 1), event.slice(-1)]));
+
+    expect(result.type).toBe("content");
+  });
+
+  it("reports streams that finish without content as empty", async () => {
+    const result = await peekSseStream(sseResponse([delta({ role: "assistant" }), "data: [DONE]\n\n"]));
+    const closed = await peekSseStream(sseResponse([]));
+
+    expect(result).toEqual({ type: "empty" });
+    expect(closed).toEqual({ type: "empty" });
+  });
+
+  it("reports error events and read failures before content", async () => {
+    const errorEvent = await peekSseStream(
+      sseResponse(['event: error\ndata: {"error":{"message":"engine overloaded"}}\n\n']),
+    );
+    const readFailure = await peekSseStream(sseResponse([delta({ role: "assistant" })], { failAfter: true }));
+
+    expect(errorEvent).toEqual({ type: "error", message: "engine overloaded" });
+    expect(readFailure).toEqual({ type: "error", message: "socket hang up" });
+  });
+});
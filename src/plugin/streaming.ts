@@ -0,0 +1,214 @@
+/**
+ * SSE Stream Peeking
+ *
+ * Kimi can answer a streaming chat completion with `200 OK` and then fail
+ * inside the stream: an `error` event, a transport error, or a stream that
+ * closes without ever producing a chunk. Once such a response is handed to
+ * OpenCode the request is lost, so the fetch wrapper peeks at the first SSE
+ * events and only commits to the response once real content shows up.
+ *
+ * Everything read while peeking is buffered and replayed, so the caller
+ * receives a byte-identical stream.
+ */
+
+/** Stop peeking (and pass the stream through) after this many buffered bytes. */
+const MAX_PEEK_BYTES = 256 * 1024;
+
+export type SsePeekResult =
+  | { type: "content"; response: Response }
+  | { type: "error"; message: string }
+  | { type: "empty" };
+
+/**
+ * Whether the response is an SSE stream worth peeking at.
+ */
+export function isEventStreamResponse(response: Response): boolean {
+  const contentType = response.headers.get("content-type") ?? "";
+  return contentType.includes("text/event-stream") && response.body !== null;
+}
+
+type SseEventKind = "content" | "error" | "done" | "other";
+
+interface ClassifiedEvent {
+  kind: SseEventKind;
+  message?: string;
+}
+
+function hasText(value: unknown): boolean {
+  return typeof value === "string" && value.length > 0;
+}
+
+/**
+ * Classify one SSE event block (the lines between two blank lines).
+ */
+function classifySseEvent(block: string): ClassifiedEvent {
+  let eventName: string | undefined;
+  const dataLines: string[] = [];
+
+  for (const rawLine of block.split("\n")) {
+    const line = rawLine.endsWith("\r") ? rawLine.slice(0, -1) : rawLine;
+    if (line.startsWith("event:")) {
+      eventName = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).replace(/^ /, ""));
+    }
+  }
+
+  const data = dataLines.join("\n");
+  if (data.trim() === "[DONE]") {
+    return { kind: "done" };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = data ? JSON.parse(data) : undefined;
+  } catch {
+    parsed = undefined;
+  }
+  const payload = (parsed && typeof parsed === "object" ? parsed : {}) as { error?: unknown; choices?: unknown };
+
+  if (eventName === "error" || payload.error) {
+    const error = payload.error;
+    const errorMessage =
+      error && typeof error === "object" ? (error as { message?: unknown }).message : undefined;
+    const message =
+      (typeof error === "string" ? error : errorMessage) ??
+      (data || "Stream returned an error event");
+    return { kind: "error", message: String(message) };
+  }
+
+  const choices: unknown[] = Array.isArray(payload.choices) ? payload.choices : [];
+  for (const choice of choices) {
+    const entry = (choice ?? {}) as { delta?: unknown; message?: unknown };
+    const delta = (entry.delta ?? entry.message) as
+      | { content?: unknown; reasoning_content?: unknown; tool_calls?: unknown }
+      | null
+      | undefined;
+    if (!delta || typeof delta !== "object") continue;
+    if (hasText(delta.content) || hasText(delta.reasoning_content)) {
+      return { kind: "content" };
+    }
+    if (Array.isArray(delta.tool_calls) && delta.tool_calls.length > 0) {
+      return { kind: "content" };
+    }
+  }
+
+  return { kind: "other" };
+}
+
+/**
+ * Build a response that replays the buffered prefix and then continues with
+ * the rest of the original stream.
+ */
+function replayResponse(
+  response: Response,
+  prefix: Uint8Array[],
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+): Response {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of prefix) {
+        controller.enqueue(chunk);
+      }
+    },
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * Read SSE events from a streaming response until the first content delta.
+ *
+ * - `content`: the stream produced content; `response` replays it in full.
+ * - `error`: the stream failed (error event or read error) before any content.
+ * - `empty`: the stream ended before any content.
+ *
+ * Streams that send more than MAX_PEEK_BYTES without content are passed
+ * through as `content` rather than buffered indefinitely.
+ */
+export async function peekSseStream(response: Response): Promise<SsePeekResult> {
+  if (!response.body) {
+    return { type: "empty" };
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const prefix: Uint8Array[] = [];
+  let bufferedBytes = 0;
+  let pending = "";
+
+  const fail = async (result: SsePeekResult): Promise<SsePeekResult> => {
+    await reader.cancel().catch(() => {});
+    return result;
+  };
+
+  while (true) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch (error) {
+      return fail({
+        type: "error",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (chunk.done) {
+      pending += decoder.decode();
+      const last = pending.trim() ? classifySseEvent(pending) : { kind: "other" as const };
+      if (last.kind === "content") {
+        return { type: "content", response: replayResponse(response, prefix, reader) };
+      }
+      if (last.kind === "error") {
+        return { type: "error", message: last.message ?? "Stream returned an error event" };
+      }
+      return { type: "empty" };
+    }
+
+    prefix.push(chunk.value);
+    bufferedBytes += chunk.value.byteLength;
+    pending = (pending + decoder.decode(chunk.value, { stream: true })).replace(/\r\n/g, "\n");
+
+    let boundary = pending.indexOf("\n\n");
+    while (boundary !== -1) {
+      const block = pending.slice(0, boundary);
+      pending = pending.slice(boundary + 2);
+
+      const event = classifySseEvent(block);
+      if (event.kind === "content") {
+        return { type: "content", response: replayResponse(response, prefix, reader) };
+      }
+      if (event.kind === "error") {
+        return fail({ type: "error", message: event.message ?? "Stream returned an error event" });
+      }
+      if (event.kind === "done") {
+        return fail({ type: "empty" });
+      }
+
+      boundary = pending.indexOf("\n\n");
+    }
+
+    if (bufferedBytes > MAX_PEEK_BYTES) {
+      return { type: "content", response: replayResponse(response, prefix, reader) };
+    }
+  }
+}
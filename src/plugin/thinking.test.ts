@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  applyThinkingSetting,
+  getModelThinkingSetting,
+  resolveThinkingSetting,
+  stripThinkingSuffix,
+} from "./thinking";
+
+describe("getModelThinkingSetting", () => {
+  it("maps model suffixes to effort levels", () => {
+    expect(getModelThinkingSetting("kimicode-kimi-k2.5")).toBe("off");
+    expect(getModelThinkingSetting("kimicode-kimi-k2.5-thinking")).toBe("high");
+    expect(getModelThinkingSetting("kimicode-kimi-k2.5-thinking-low")).toBe("low");
+    expect(getModelThinkingSetting("kimicode-kimi-k2.5-thinking-medium")).toBe("medium");
+    expect(getModelThinkingSetting("kimicode-kimi-k2.5-thinking-high")).toBe("high");
+  });
+
+  it("strips the thinking suffix", () => {
+    expect(stripThinkingSuffix("kimi-k2.5-thinking-medium")).toBe("kimi-k2.5");
+    expect(stripThinkingSuffix("kimi-k2.5-thinking")).toBe("kimi-k2.5");
+    expect(stripThinkingSuffix("kimi-k2.5")).toBe("kimi-k2.5");
+  });
+});
+
+describe("resolveThinkingSetting", () => {
+  it("uses the model setting when the body has no thinking controls", () => {
+    expect(resolveThinkingSetting({}, "medium")).toBe("medium");
+    expect(resolveThinkingSetting({}, "off")).toBe("off");
+  });
+
+  it("lets an explicit reasoning_effort override the model", () => {
+    expect(resolveThinkingSetting({ reasoning_effort: "low" }, "high")).toBe("low");
+    expect(resolveThinkingSetting({ reasoning_effort: "medium" }, "off")).toBe("medium");
+    expect(resolveThinkingSetting({ reasoning_effort: null }, "high")).toBe("off");
+    expect(resolveThinkingSetting({ reasoning_effort: "bogus" }, "medium")).toBe("medium");
+  });
+
+  it("honors an explicit thinking type", () => {
+    expect(resolveThinkingSetting({ thinking: { type: "disabled" } }, "high")).toBe("off");
+    expect(resolveThinkingSetting({ thinking: { type: "disabled" }, reasoning_effort: "low" }, "high")).toBe("off");
+    expect(resolveThinkingSetting({ thinking: { type: "enabled" } }, "off")).toBe("high");
+    expect(resolveThinkingSetting({ thinking: { type: "enabled" } }, "low")).toBe("low");
+  });
+});
+
+describe("applyThinkingSetting", () => {
+  it("writes the kimi-cli wire format", () => {
+    const on: Record<string, unknown> = {};
+    applyThinkingSetting(on, "low");
+    expect(on).toEqual({ reasoning_effort: "low", thinking: { type: "enabled" } });
+
+    const off: Record<string, unknown> = { reasoning_effort: "high" };
+    applyThinkingSetting(off, "off");
+    expect(off).toEqual({ thinking: { type: "disabled" } });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Thinking Effort Resolution
+ *
+ * Kimi takes two thinking controls on every chat completion, mirroring
+ * kimi-cli's `with_thinking(effort)`:
+ * - `reasoning_effort`: "low" | "medium" | "high" (omitted when off)
+ * - `thinking`: { type: "enabled" | "disabled" }
+ *
+ * The effort comes from the OpenCode model id (`-thinking`, `-thinking-low`,
+ * `-thinking-medium`, `-thinking-high`) unless the incoming body already
+ * carries an explicit `reasoning_effort` or `thinking`, which always wins.
+ * That lets agents pick a cheaper effort per request (e.g. via OpenCode
+ * `providerOptions`) without a separate model or provider.
+ */
+
+export type ThinkingEffort = "low" | "medium" | "high";
+
+/** Resolved thinking mode for one request. */
+export type ThinkingSetting = ThinkingEffort | "off";
+
+/** Effort used by the plain `-thinking` model and by `thinking.type: "enabled"` alone. */
+export const DEFAULT_THINKING_EFFORT: ThinkingEffort = "high";
+
+const THINKING_SUFFIX = /-thinking(?:-(low|medium|high))?$/;
+
+/**
+ * Thinking setting implied by an OpenCode model id.
+ */
+export function getModelThinkingSetting(modelId: string): ThinkingSetting {
+  const match = THINKING_SUFFIX.exec(modelId);
+  if (!match) return "off";
+  return (match[1] as ThinkingEffort | undefined) ?? DEFAULT_THINKING_EFFORT;
+}
+
+/**
+ * Remove the thinking suffix from a model id (`kimi-k2.5-thinking-low` -> `kimi-k2.5`).
+ */
+export function stripThinkingSuffix(modelId: string): string {
+  return modelId.replace(THINKING_SUFFIX, "");
+}
+
+function normalizeEffort(value: unknown): ThinkingSetting | undefined {
+  if (value === null) return "off";
+  if (typeof value !== "string") return undefined;
+
+  const normalized = value.trim().toLowerCase();
+  if (normalized === "low" || normalized === "medium" || normalized === "high") {
+    return normalized;
+  }
+  if (normalized === "off" || normalized === "none" || normalized === "disabled") {
+    return "off";
+  }
+  return undefined;
+}
+
+/**
+ * Decide the thinking setting for a request body.
+ *
+ * Precedence:
+ * 1. `thinking: { type: "disabled" }` turns thinking off.
+ * 2. A recognized `reasoning_effort` (low/medium/high, or null/"none" for off).
+ * 3. `thinking: { type: "enabled" }` keeps the model's effort, or the default
+ *    effort when the model itself has thinking off.
+ * 4. The model's own setting.
+ */
+export function resolveThinkingSetting(
+  body: Record<string, unknown>,
+  modelSetting: ThinkingSetting,
+): ThinkingSetting {
+  const thinking = body.thinking as { type?: unknown } | undefined;
+  const thinkingType = thinking && typeof thinking === "object" ? thinking.type : undefined;
+  if (thinkingType === "disabled") {
+    return "off";
+  }
+
+  if ("reasoning_effort" in body) {
+    const explicit = normalizeEffort(body.reasoning_effort);
+    if (explicit) return explicit;
+  }
+
+  if (thinkingType === "enabled") {
+    return modelSetting === "off" ? DEFAULT_THINKING_EFFORT : modelSetting;
+  }
+
+  return modelSetting;
+}
+
+/**
+ * Write the Kimi wire-format thinking parameters onto a request body.
+ */
+export function applyThinkingSetting(body: Record<string, unknown>, setting: ThinkingSetting): void {
+  if (setting === "off") {
+    delete body.reasoning_effort;
+    body.thinking = { type: "disabled" };
+    return;
+  }
+
+  body.reasoning_effort = setting;
+  body.thinking = { type: "enabled" };
+}
@@ -1,7 +1,11 @@
 import { KIMI_CLIENT_ID, KIMI_TOKEN_ENDPOINT, getKimiOAuthHeaders } from "../constants"
-import { calculateTokenExpiry } from "./auth"
-import { clearCachedAuth, storeCachedAuth } from "./cache"
+import type { AccountManager, ManagedAccount } from "./accounts"
+import { accessTokenExpired, calculateTokenExpiry } from "./auth"
+import { clearCachedAuth, resolveCachedAuth, storeCachedAuth } from "./cache"
+import { getAccountIdentityKey } from "./identity"
 import { createLogger } from "./logger"
+import { withAccountRefreshLock } from "./refresh-lock"
+import { loadAccounts, type AccountMetadata } from "./storage"
 import type { OAuthAuthDetails, PluginClient } from "./types"
 
 const log = createLogger("token")
@@ -64,11 +68,13 @@ export class KimiTokenRefreshError extends Error {
 
 /**
  * Refreshes a Kimi OAuth access token using the refresh_token grant.
+ * The client and provider id are unused, so callers outside the plugin
+ * (e.g. `kimicode-accounts import`) may omit them.
  */
 export async function refreshAccessToken(
   auth: OAuthAuthDetails,
-  _client: PluginClient,
-  _providerId: string,
+  _client?: PluginClient,
+  _providerId?: string,
 ): Promise<OAuthAuthDetails | undefined> {
   const refreshToken = auth.refresh
   if (!refreshToken) return undefined
@@ -137,3 +143,88 @@ export async function refreshAccessToken(
     return undefined
   }
 }
+
+/**
+ * Returns a usable access token for a pooled account, refreshing it first
+ * when expired. Used by background calls (quota, model discovery) that run
+ * outside the fetch retry loop.
+ */
+export async function resolveAccountAccessToken(
+  accountManager: AccountManager,
+  account: ManagedAccount,
+  client: PluginClient,
+  providerId: string,
+): Promise<string | undefined> {
+  const auth = resolveCachedAuth(accountManager.toAuthDetails(account))
+  if (!accessTokenExpired(auth)) {
+    return auth.access
+  }
+
+  const refreshed = await refreshAccountToken(accountManager, account, client, providerId)
+  return refreshed?.access
+}
+
+const inflightRefreshes = new WeakMap<ManagedAccount, Promise<OAuthAuthDetails | undefined>>()
+
+/**
+ * The stored entry for a pooled account: matched by persistent id, or for
+ * entries saved without one by identity, device id and then refresh token.
+ */
+function findStoredAccount(stored: AccountMetadata[], account: ManagedAccount): AccountMetadata | undefined {
+  const byId = stored.find((acc) => acc.id === account.id)
+  if (byId) return byId
+
+  const withoutId = stored.filter((acc) => !acc.id)
+  const identity = getAccountIdentityKey(account)
+  const deviceId = account.fingerprint?.deviceId
+  return (
+    (identity ? withoutId.find((acc) => getAccountIdentityKey(acc) === identity) : undefined) ??
+    (deviceId ? withoutId.find((acc) => acc.fingerprint?.deviceId === deviceId) : undefined) ??
+    withoutId.find((acc) => acc.refreshToken === account.parts.refreshToken)
+  )
+}
+
+/**
+ * Refreshes a pooled account and persists the rotated refresh token.
+ *
+ * Runs under the account's cross-process refresh lock (refresh-lock.ts).
+ * After acquiring it the pool is re-read, so a token another OpenCode
+ * process rotated while we waited is used instead of our revoked copy, and
+ * the result is saved before the lock is released. Concurrent calls for the
+ * same account object share one refresh.
+ *
+ * @throws KimiTokenRefreshError when the token endpoint rejects the token
+ */
+export function refreshAccountToken(
+  accountManager: AccountManager,
+  account: ManagedAccount,
+  client?: PluginClient,
+  providerId?: string,
+): Promise<OAuthAuthDetails | undefined> {
+  const pending = inflightRefreshes.get(account)
+  if (pending) return pending
+
+  const refresh = withAccountRefreshLock(account.id, async () => {
+    const stored = await loadAccounts()
+    const latest = stored ? findStoredAccount(stored.accounts, account) : undefined
+    if (latest && accountManager.adoptStoredRefreshToken(account, latest)) {
+      log.debug("Using refresh token rotated by another process", { accountIndex: account.index })
+    }
+
+    const refreshed = await refreshAccessToken(accountManager.toAuthDetails(account), client, providerId)
+    if (!refreshed) return undefined
+
+    accountManager.updateFromAuth(account, refreshed)
+    try {
+      await accountManager.saveToDisk()
+    } catch (error) {
+      log.warn("Failed to persist refreshed token", { accountIndex: account.index, error: String(error) })
+    }
+    return refreshed
+  }).finally(() => {
+    inflightRefreshes.delete(account)
+  })
+
+  inflightRefreshes.set(account, refresh)
+  return refresh
+}
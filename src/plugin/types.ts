@@ -98,6 +98,16 @@ export interface PluginEventPayload {
   };
 }
 
+/** Subset of OpenCode's `chat.params` hook input the plugin reads. */
+export interface ChatParamsInput {
+  model: { id: string };
+  message: { sessionID: string };
+}
+
+export interface ChatParamsOutput {
+  options: Record<string, unknown>;
+}
+
 export interface PluginResult {
   auth: {
     provider: string;
@@ -105,6 +115,7 @@ export interface PluginResult {
     methods: AuthMethod[];
   };
   event?: (payload: PluginEventPayload) => void;
+  "chat.params"?: (input: ChatParamsInput, output: ChatParamsOutput) => Promise<void>;
   tool?: Record<string, unknown>;
 }
 
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+import {
+  UsageTracker,
+  loadUsage,
+  parseUsagePayload,
+  summarizeUsage,
+  trackResponseUsage,
+  usageDayKey,
+  type TokenUsage,
+} from "./usage";
+
+describe("parseUsagePayload", () => {
+  it("reads top-level usage and Moonshot's per-choice usage", () => {
+    expect(
+      parseUsagePayload({ usage: { prompt_tokens: 100, completion_tokens: 20, cached_tokens: 80 } }),
+    ).toEqual({ promptTokens: 100, completionTokens: 20, cachedTokens: 80 });
+    expect(
+      parseUsagePayload({
+        choices: [{ delta: {}, usage: { prompt_tokens: 5, completion_tokens: 1, prompt_tokens_details: { cached_tokens: 4 } } }],
+      }),
+    ).toEqual({ promptTokens: 5, completionTokens: 1, cachedTokens: 4 });
+    expect(
+      parseUsagePayload({ usage: { prompt_tokens: 5, completion_tokens: 1, prompt_tokens_details: "4" } }),
+    ).toEqual({ promptTokens: 5, completionTokens: 1, cachedTokens: 0 });
+    expect(parseUsagePayload({ choices: [{ delta: { content: "hi" } }] })).toBeNull();
+  });
+});
+
+describe("trackResponseUsage", () => {
+  it("passes an SSE stream through unchanged and reports the final usage", async () => {
+    const raw =
+      'data: {"choices":[{"delta":{"content":"hi"}}]}\n\n' +
+      'data: {"choices":[{"delta":{},"finish_reason":"stop","usage":{"prompt_tokens":12,"completion_tokens":3,"cached_tokens":8}}]}\n\n' +
+      "data: [DONE]\n\n";
+    const reported: TokenUsage[] = [];
+
+    const response = trackResponseUsage(
+      new Response(raw, { headers: { "content-type": "text/event-stream" } }),
+      true,
+      (usage) => reported.push(usage),
+    );
+
+    expect(await response.text()).toBe(raw);
+    expect(reported).toEqual([{ promptTokens: 12, completionTokens: 3, cachedTokens: 8 }]);
+  });
+});
+
+describe("UsageTracker", () => {
+  let tempDir: string;
+  let originalConfigDir: string | undefined;
+
+  beforeEach(() => {
+    originalConfigDir = process.env.OPENCODE_CONFIG_DIR;
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "kimicode-usage-test-"));
+    process.env.OPENCODE_CONFIG_DIR = tempDir;
+  });
+
+  afterEach(() => {
+    if (originalConfigDir === undefined) {
+      delete process.env.OPENCODE_CONFIG_DIR;
+    } else {
+      process.env.OPENCODE_CONFIG_DIR = originalConfigDir;
+    }
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("adds to totals written by other processes and drops expired days", async () => {
+    const now = Date.now();
+    fs.writeFileSync(
+      path.join(tempDir, "kimicode-usage.json"),
+      JSON.stringify({
+        version: 1,
+        days: {
+          "2000-01-01": { accounts: { old: { requests: 1, promptTokens: 1, completionTokens: 1, cachedTokens: 0 } }, models: {}, sessions: {} },
+          [usageDayKey(now)]: {
+            accounts: { "u-1": { requests: 1, promptTokens: 10, completionTokens: 2, cachedTokens: 0 } },
+            models: {},
+            sessions: {},
+          },
+        },
+      }),
+    );
+
+    const tracker = new UsageTracker();
+    tracker.record({ account: "u-1", model: "kimicode-kimi-k2.5", sessionId: "ses_1", usage: { promptTokens: 100, completionTokens: 5, cachedTokens: 90 } }, now);
+    tracker.record({ account: "u-2", model: "kimicode-kimi-k2.5", usage: { promptTokens: 50, completionTokens: 5, cachedTokens: 0 } }, now);
+    await tracker.flush();
+
+    const file = await loadUsage();
+    expect(Object.keys(file.days)).toEqual([usageDayKey(now)]);
+
+    const summary = summarizeUsage(file, 7, now);
+    expect(summary.total).toEqual({ requests: 3, promptTokens: 160, completionTokens: 12, cachedTokens: 90 });
+    expect(summary.accounts["u-1"]).toEqual({ requests: 2, promptTokens: 110, completionTokens: 7, cachedTokens: 90 });
+    expect(summary.models["kimicode-kimi-k2.5"]?.requests).toBe(2);
+    expect(Object.keys(summary.sessions)).toEqual(["ses_1"]);
+  });
+});
@@ -0,0 +1,387 @@
+/**
+ * Usage Accounting
+ *
+ * Records the token usage Kimi reports for each chat completion and keeps
+ * rolling daily totals per account, per model and per OpenCode session in
+ * `kimicode-usage.json` next to the account file.
+ *
+ * - Non-streaming responses: `usage` from the JSON body
+ * - Streaming responses: `usage` from the final SSE chunk (top level or, as
+ *   Moonshot sends it, inside `choices[]`)
+ * - Totals are buffered in memory and merged into the file under a lock, so
+ *   several OpenCode processes can account into the same file
+ * - Days are UTC; days older than USAGE_RETENTION_DAYS are dropped on write
+ */
+
+import { promises as fs } from "node:fs";
+import { join } from "node:path";
+import { randomBytes } from "node:crypto";
+import lockfile from "proper-lockfile";
+import { logUsage } from "./debug";
+import { createLogger } from "./logger";
+import { ensureGitignore, getConfigDir } from "./storage";
+
+const log = createLogger("usage");
+
+const USAGE_FILENAME = "kimicode-usage.json";
+
+/** Days of history kept in kimicode-usage.json. */
+export const USAGE_RETENTION_DAYS = 30;
+
+/** Delay before buffered usage is written to disk. */
+const USAGE_FLUSH_DELAY_MS = 5000;
+
+const USAGE_LOCK_OPTIONS = {
+  stale: 10000,
+  realpath: false,
+  retries: {
+    retries: 5,
+    minTimeout: 100,
+    maxTimeout: 1000,
+    factor: 2,
+  },
+};
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Token counts from one response's `usage` object. */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** Prompt tokens served from Kimi's prompt cache */
+  cachedTokens: number;
+}
+
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+}
+
+export interface UsageDay {
+  accounts: Record<string, UsageTotals>;
+  models: Record<string, UsageTotals>;
+  sessions: Record<string, UsageTotals>;
+}
+
+export interface UsageFile {
+  version: 1;
+  /** Keyed by UTC date (YYYY-MM-DD) */
+  days: Record<string, UsageDay>;
+}
+
+export interface UsageRecord {
+  /** Account id (see AccountMetadata.id) */
+  account: string;
+  /** Display label for the debug log */
+  accountLabel?: string;
+  model: string;
+  sessionId?: string;
+  usage: TokenUsage;
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+function toCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.floor(value) : 0;
+}
+
+function parseUsageObject(value: unknown): TokenUsage | null {
+  if (!value || typeof value !== "object") return null;
+  const usage = value as Record<string, unknown>;
+  if (usage.prompt_tokens === undefined && usage.completion_tokens === undefined) return null;
+  const details = usage.prompt_tokens_details;
+  const detailsCached =
+    details && typeof details === "object" ? (details as { cached_tokens?: unknown }).cached_tokens : undefined;
+  return {
+    promptTokens: toCount(usage.prompt_tokens),
+    completionTokens: toCount(usage.completion_tokens),
+    cachedTokens: toCount(usage.cached_tokens ?? detailsCached),
+  };
+}
+
+/**
+ * Read token usage from a chat completion body or SSE chunk.
+ */
+export function parseUsagePayload(payload: unknown): TokenUsage | null {
+  if (!payload || typeof payload !== "object") return null;
+  const data = payload as { usage?: unknown; choices?: unknown };
+
+  const topLevel = parseUsageObject(data.usage);
+  if (topLevel) return topLevel;
+
+  if (Array.isArray(data.choices)) {
+    for (const choice of data.choices) {
+      const nested = parseUsageObject((choice as { usage?: unknown } | null)?.usage);
+      if (nested) return nested;
+    }
+  }
+  return null;
+}
+
+function parseSseBlockUsage(block: string): TokenUsage | null {
+  const data = block
+    .split("\n")
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).replace(/^ /, ""))
+    .join("\n");
+  if (!data || data.trim() === "[DONE]" || !data.includes("usage")) return null;
+  try {
+    return parseUsagePayload(JSON.parse(data));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pass a response through unchanged while reading its usage.
+ *
+ * Streaming bodies are scanned event by event as the caller reads them and
+ * `onUsage` runs with the last usage seen once the stream ends. JSON bodies
+ * are read from a clone. `onUsage` is not called when no usage was reported.
+ */
+export function trackResponseUsage(
+  response: Response,
+  streaming: boolean,
+  onUsage: (usage: TokenUsage) => void,
+): Response {
+  if (!response.body) return response;
+
+  if (!streaming) {
+    void response
+      .clone()
+      .json()
+      .then((payload) => {
+        const usage = parseUsagePayload(payload);
+        if (usage) onUsage(usage);
+      })
+      .catch(() => {});
+    return response;
+  }
+
+  const decoder = new TextDecoder();
+  let pending = "";
+  let last: TokenUsage | null = null;
+
+  const scan = (final: boolean) => {
+    let boundary = pending.indexOf("\n\n");
+    while (boundary !== -1) {
+      last = parseSseBlockUsage(pending.slice(0, boundary)) ?? last;
+      pending = pending.slice(boundary + 2);
+      boundary = pending.indexOf("\n\n");
+    }
+    if (final && pending.trim()) {
+      last = parseSseBlockUsage(pending) ?? last;
+      pending = "";
+    }
+  };
+
+  const body = response.body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        controller.enqueue(chunk);
+        pending = (pending + decoder.decode(chunk, { stream: true })).replace(/\r\n/g, "\n");
+        scan(false);
+      },
+      flush() {
+        pending += decoder.decode();
+        scan(true);
+        if (last) onUsage(last);
+      },
+    }),
+  );
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+// =============================================================================
+// Aggregation
+// =============================================================================
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, cachedTokens: 0 };
+}
+
+function emptyDay(): UsageDay {
+  return { accounts: {}, models: {}, sessions: {} };
+}
+
+function accumulate(totals: UsageTotals, delta: UsageTotals): void {
+  totals.requests += delta.requests;
+  totals.promptTokens += delta.promptTokens;
+  totals.completionTokens += delta.completionTokens;
+  totals.cachedTokens += delta.cachedTokens;
+}
+
+function addTotals(target: Record<string, UsageTotals>, key: string, delta: UsageTotals): void {
+  accumulate((target[key] ??= emptyTotals()), delta);
+}
+
+function mergeDays(target: Record<string, UsageDay>, source: Record<string, UsageDay>): void {
+  for (const [date, day] of Object.entries(source)) {
+    const into = (target[date] ??= emptyDay());
+    for (const group of ["accounts", "models", "sessions"] as const) {
+      for (const [key, totals] of Object.entries(day[group] ?? {})) {
+        addTotals(into[group], key, totals);
+      }
+    }
+  }
+}
+
+/** UTC date key (YYYY-MM-DD) for a timestamp. */
+export function usageDayKey(timestamp: number = Date.now()): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function pruneDays(days: Record<string, UsageDay>, now: number): void {
+  const oldest = usageDayKey(now - (USAGE_RETENTION_DAYS - 1) * 24 * 60 * 60 * 1000);
+  for (const date of Object.keys(days)) {
+    if (date < oldest) delete days[date];
+  }
+}
+
+/** Totals per account, model and session over a range of days. */
+export interface UsageSummary {
+  since: string;
+  total: UsageTotals;
+  accounts: Record<string, UsageTotals>;
+  models: Record<string, UsageTotals>;
+  sessions: Record<string, UsageTotals>;
+}
+
+/**
+ * Sum the last `days` days (including today) of a usage file.
+ */
+export function summarizeUsage(file: UsageFile, days: number, now: number = Date.now()): UsageSummary {
+  const since = usageDayKey(now - (Math.max(1, days) - 1) * 24 * 60 * 60 * 1000);
+  const summary: UsageSummary = { since, total: emptyTotals(), accounts: {}, models: {}, sessions: {} };
+
+  for (const [date, day] of Object.entries(file.days)) {
+    if (date < since) continue;
+    for (const group of ["accounts", "models", "sessions"] as const) {
+      for (const [key, totals] of Object.entries(day[group] ?? {})) {
+        addTotals(summary[group], key, totals);
+      }
+    }
+    for (const totals of Object.values(day.accounts ?? {})) {
+      accumulate(summary.total, totals);
+    }
+  }
+
+  return summary;
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+export function getUsagePath(): string {
+  return join(getConfigDir(), USAGE_FILENAME);
+}
+
+/**
+ * Read kimicode-usage.json. A missing or malformed file reads as empty.
+ */
+export async function loadUsage(): Promise<UsageFile> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(getUsagePath(), "utf-8")) as UsageFile;
+    if (parsed?.version === 1 && parsed.days && typeof parsed.days === "object") {
+      return parsed;
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      log.debug("Ignoring unreadable usage file", { error: String(error) });
+    }
+  }
+  return { version: 1, days: {} };
+}
+
+/**
+ * Buffers usage records and merges them into kimicode-usage.json.
+ */
+export class UsageTracker {
+  private pending: Record<string, UsageDay> = {};
+  private flushTimeout: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> | null = null;
+
+  record(entry: UsageRecord, timestamp: number = Date.now()): void {
+    const delta: UsageTotals = { requests: 1, ...entry.usage };
+    const day = (this.pending[usageDayKey(timestamp)] ??= emptyDay());
+    addTotals(day.accounts, entry.account, delta);
+    addTotals(day.models, entry.model, delta);
+    if (entry.sessionId) {
+      addTotals(day.sessions, entry.sessionId, delta);
+    }
+
+    logUsage(entry.accountLabel ?? entry.account, entry.model, entry.sessionId, entry.usage);
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimeout) return;
+    this.flushTimeout = setTimeout(() => {
+      this.flushTimeout = null;
+      void this.flush();
+    }, USAGE_FLUSH_DELAY_MS);
+    // Buffered usage must not keep a finished CLI run alive.
+    this.flushTimeout.unref?.();
+  }
+
+  /**
+   * Write buffered usage now. Failures keep the records buffered for the
+   * next flush.
+   */
+  async flush(): Promise<void> {
+    if (this.flushing) {
+      await this.flushing;
+    }
+    if (Object.keys(this.pending).length === 0) return;
+
+    const batch = this.pending;
+    this.pending = {};
+    this.flushing = this.write(batch)
+      .catch((error) => {
+        log.warn("Failed to save usage", { error: String(error) });
+        mergeDays(this.pending, batch);
+      })
+      .finally(() => {
+        this.flushing = null;
+      });
+    await this.flushing;
+  }
+
+  private async write(batch: Record<string, UsageDay>): Promise<void> {
+    const path = getUsagePath();
+    const configDir = getConfigDir();
+    await fs.mkdir(configDir, { recursive: true });
+    await ensureGitignore(configDir);
+
+    const release = await lockfile.lock(path, USAGE_LOCK_OPTIONS);
+    try {
+      const file = await loadUsage();
+      mergeDays(file.days, batch);
+      pruneDays(file.days, Date.now());
+
+      const tempPath = `${path}.${randomBytes(6).toString("hex")}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(file, null, 2), { encoding: "utf-8", mode: 0o600 });
+      await fs.rename(tempPath, path);
+    } finally {
+      await release().catch(() => {});
+    }
+  }
+}
+
+let globalUsageTracker: UsageTracker | null = null;
+
+export function getUsageTracker(): UsageTracker {
+  if (!globalUsageTracker) {
+    globalUsageTracker = new UsageTracker();
+  }
+  return globalUsageTracker;
+}